@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Buffer } from 'node:buffer';
+import { gzipSync } from 'node:zlib';
+import JSZip from 'jszip';
+import { extractArchiveEntries, isArchiveFile } from '../src/archive';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const LIMITS = { maxEntries: 10, maxEntryBytes: 1024, maxTotalBytes: 4096 };
+
+/**
+ * Builds a ustar archive from [path, content, type] entries
+ */
+function createTarBuffer(entries: Array<[string, string, string?]>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [entryPath, content, type = '0'] of entries) {
+    const data = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(entryPath, 0, 100);
+    header.write('0000644\0', 100);
+    header.write(data.length.toString(8).padStart(11, '0') + '\0', 124);
+    header.write(type, 156);
+    header.write('ustar\u000000', 257);
+    header.fill(' ', 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148);
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+describe('isArchiveFile', () => {
+  it('should recognize zip and tar archives by content type or extension', () => {
+    expect(isArchiveFile('application/zip', 'docs')).toBe(true);
+    expect(isArchiveFile('application/octet-stream', 'docs.tar.gz')).toBe(true);
+    expect(isArchiveFile('application/octet-stream', 'docs.tgz')).toBe(true);
+    expect(isArchiveFile('text/plain', 'notes.txt')).toBe(false);
+  });
+});
+
+describe('extractArchiveEntries', () => {
+  it('should expand zip files and reject paths outside the archive', async () => {
+    const zip = new JSZip();
+    zip.file('guide/intro.md', '# Intro');
+    zip.file('guide/', null, { dir: true });
+    zip.file('notes.txt', 'Remember the milk');
+    zip.file('.env', 'SECRET=1');
+    zip.file('__MACOSX/guide/._intro.md', 'resource fork');
+    zip.file('../../etc/cron.d/evil', 'pwned');
+    zip.file('large.txt', 'x'.repeat(2000));
+    const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    const entries = await extractArchiveEntries(buffer, 'application/zip', 'docs.zip', LIMITS);
+
+    expect(entries.map(({ path, content, error }) => [path, content?.toString(), error])).toEqual([
+      ['guide/intro.md', '# Intro', undefined],
+      ['notes.txt', 'Remember the milk', undefined],
+      ['../../etc/cron.d/evil', undefined, 'Unsafe path outside the archive'],
+      ['large.txt', undefined, 'Entry exceeds 1024 bytes'],
+    ]);
+  });
+
+  it('should expand gzipped tarballs and skip directories and links', async () => {
+    const tar = createTarBuffer([
+      ['docs/', '', '5'],
+      ['docs/readme.md', '# Readme'],
+      ['docs/link.md', '', '2'],
+      ['/etc/passwd', 'root:x:0:0'],
+      ['docs/data.csv', 'a,b\n1,2\n'],
+    ]);
+
+    const entries = await extractArchiveEntries(
+      gzipSync(tar),
+      'application/gzip',
+      'docs.tar.gz',
+      LIMITS
+    );
+
+    expect(entries.map(({ path, content, error }) => [path, content?.toString(), error])).toEqual([
+      ['docs/readme.md', '# Readme', undefined],
+      ['/etc/passwd', undefined, 'Unsafe path outside the archive'],
+      ['docs/data.csv', 'a,b\n1,2\n', undefined],
+    ]);
+  });
+
+  it('should reject archives above the entry count or total size limits', async () => {
+    const manyFiles = createTarBuffer(
+      Array.from({ length: 11 }, (_, index): [string, string] => [`file-${index}.txt`, 'text'])
+    );
+    await expect(
+      extractArchiveEntries(manyFiles, 'application/x-tar', 'many.tar', LIMITS)
+    ).rejects.toThrow('more than 10 files');
+
+    const bomb = gzipSync(createTarBuffer([['zeros.txt', '0'.repeat(20000)]]).fill(0, 512));
+    await expect(
+      extractArchiveEntries(bomb, 'application/gzip', 'bomb.tgz', {
+        ...LIMITS,
+        maxTotalBytes: 1000,
+      })
+    ).rejects.toThrow('Archive expands to more than 1000 bytes');
+  });
+});
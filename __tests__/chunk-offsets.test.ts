@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { createLineLocator, getChunkOffsets } from '../src/chunk-offsets';
+
+describe('getChunkOffsets', () => {
+  it('should locate overlapping chunks in document order', () => {
+    const text = 'alpha beta gamma alpha beta delta';
+    const chunks = ['alpha beta', 'beta gamma', 'alpha beta', 'beta delta'];
+
+    const offsets = getChunkOffsets(text, chunks);
+
+    expect(offsets).toEqual([
+      { startOffset: 0, endOffset: 10 },
+      { startOffset: 6, endOffset: 16 },
+      { startOffset: 17, endOffset: 27 },
+      { startOffset: 23, endOffset: 33 },
+    ]);
+    for (const [index, offset] of offsets.entries()) {
+      expect(text.slice(offset!.startOffset, offset!.endOffset)).toBe(chunks[index]);
+    }
+  });
+
+  it('should locate chunks that repeat a header by their own lines', () => {
+    const rows = Array.from({ length: 6 }, (_, i) => `${i + 1},Product ${i + 1},In stock`);
+    const text = ['id,name,status', ...rows].join('\r\n');
+    const chunks = [
+      ['id,name,status', ...rows.slice(0, 3)].join('\n'),
+      ['id,name,status', ...rows.slice(3)].join('\n'),
+    ];
+
+    const [first, second] = getChunkOffsets(text, chunks);
+
+    expect(text.slice(first!.startOffset, first!.endOffset)).toBe(
+      ['id,name,status', ...rows.slice(0, 3)].join('\r\n')
+    );
+    expect(text.slice(second!.startOffset, second!.endOffset)).toBe(rows.slice(3).join('\r\n'));
+  });
+
+  it('should give null to chunks that are not in the text', () => {
+    const text = 'The quick brown fox jumps over the lazy dog.';
+
+    expect(getChunkOffsets(text, ['Row 3\nnotes: something else entirely', 'lazy dog.'])).toEqual([
+      null,
+      { startOffset: 35, endOffset: 44 },
+    ]);
+  });
+});
+
+describe('createLineLocator', () => {
+  it('should map offsets to 1-based line ranges', () => {
+    const text = 'first line\nsecond line\n\nfourth line\n';
+    const getLineRange = createLineLocator(text);
+
+    expect(getLineRange({ startOffset: 0, endOffset: 10 })).toEqual({ startLine: 1, endLine: 1 });
+    expect(getLineRange({ startOffset: 11, endOffset: 35 })).toEqual({ startLine: 2, endLine: 4 });
+    // A range ending with its line break still ends on that line
+    expect(getLineRange({ startOffset: 24, endOffset: 36 })).toEqual({ startLine: 4, endLine: 4 });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractCodeFromText, isSourceCodeFile } from '../src/code';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const symbolsOf = (sections: any[] | undefined) =>
+  (sections || []).map(({ metadata }) => [
+    metadata.symbolName,
+    metadata.symbolKind,
+    metadata.startLine,
+    metadata.endLine,
+  ]);
+
+describe('isSourceCodeFile', () => {
+  it('should recognize supported languages by extension or content type', () => {
+    expect(isSourceCodeFile('text/plain', 'service.ts')).toBe(true);
+    expect(isSourceCodeFile('text/x-python', 'script')).toBe(true);
+    expect(isSourceCodeFile('text/css', 'styles.css')).toBe(false);
+  });
+});
+
+describe('extractCodeFromText', () => {
+  it('should split TypeScript into top-level symbols with their doc comments', () => {
+    const source = [
+      "import { logger } from '@elizaos/core';",
+      '',
+      '/**',
+      ' * Adds two numbers',
+      ' */',
+      'export function add(a: number, b: number): number {',
+      "  const label = '}';",
+      '  return a + b;',
+      '}',
+      '',
+      'export const double = (value: number) => {',
+      '  return value * 2;',
+      '};',
+      '',
+      'export interface Options {',
+      '  verbose: boolean;',
+      '}',
+    ].join('\n');
+
+    const extracted = extractCodeFromText(source, 'text/typescript', 'math.ts');
+
+    expect(extracted.text).toBe(source);
+    expect(extracted.metadata).toEqual({ language: 'typescript', lineCount: 17 });
+    expect(symbolsOf(extracted.sections)).toEqual([
+      [undefined, undefined, 1, 1],
+      ['add', 'function', 3, 9],
+      ['double', 'function', 11, 13],
+      ['Options', 'interface', 15, 17],
+    ]);
+    expect(extracted.sections![1].text).toContain(' * Adds two numbers');
+  });
+
+  it('should split an oversized class into its methods', () => {
+    const body = Array.from({ length: 50 }, (_, i) => `    this.total += ${i};`).join('\n');
+    const source = [
+      'export class Counter {',
+      '  private total = 0;',
+      '',
+      '  increment(): void {',
+      body,
+      '  }',
+      '',
+      '  // Resets the counter',
+      '  async reset(): Promise<void> {',
+      body,
+      '  }',
+      '}',
+    ].join('\n');
+
+    const { sections } = extractCodeFromText(source, 'text/typescript', 'counter.ts');
+
+    expect(symbolsOf(sections)).toEqual([
+      ['Counter', 'class', 1, 2],
+      ['Counter.increment', 'method', 4, 55],
+      ['Counter.reset', 'method', 57, 109],
+    ]);
+  });
+
+  it('should split long symbols without members by lines', () => {
+    const body = Array.from({ length: 200 }, (_, i) => `    total += values[${i}]`).join('\n');
+    const source = ['def summarize(values):', '    total = 0', body, '    return total'].join('\n');
+
+    const { sections } = extractCodeFromText(source, 'text/x-python', 'stats.py');
+
+    expect(sections!.length).toBeGreaterThan(1);
+    for (const section of sections!) {
+      expect(section.text.length).toBeLessThanOrEqual(1750);
+      expect(section.metadata).toMatchObject({ symbolName: 'summarize', symbolKind: 'function' });
+    }
+    expect(sections![0].metadata!.startLine).toBe(1);
+    expect(sections![sections!.length - 1].metadata!.endLine).toBe(203);
+  });
+
+  it('should find Python classes with decorated methods', () => {
+    const source = [
+      'import os',
+      '',
+      '@dataclass',
+      'class Config:',
+      '    path: str',
+      '',
+      '    @property',
+      '    def exists(self) -> bool:',
+      '        return os.path.exists(self.path)',
+      '',
+      '',
+      'def load(',
+      '    path: str,',
+      '):',
+      '    return Config(path)',
+    ].join('\n');
+
+    const { sections } = extractCodeFromText(source, 'text/plain', 'config.py');
+
+    expect(symbolsOf(sections)).toEqual([
+      [undefined, undefined, 1, 1],
+      ['Config', 'class', 3, 9],
+      ['load', 'function', 12, 15],
+    ]);
+  });
+
+  it('should name Go methods after their receiver type', () => {
+    const source = [
+      'package server',
+      '',
+      'type Server struct {',
+      '\taddr string',
+      '}',
+      '',
+      '// Start listens on the address',
+      'func (s *Server) Start() error {',
+      '\treturn nil',
+      '}',
+    ].join('\n');
+
+    const { sections } = extractCodeFromText(source, 'text/x-go', 'server.go');
+
+    expect(symbolsOf(sections)).toEqual([
+      [undefined, undefined, 1, 1],
+      ['Server', 'struct', 3, 5],
+      ['Server.Start', 'method', 7, 10],
+    ]);
+  });
+});
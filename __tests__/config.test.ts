@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { IAgentRuntime } from '@elizaos/core';
+import { getChunkingConfig, getChunkingProfile } from '../src/config';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const createRuntime = (settings: Record<string, string>) =>
+  ({ getSetting: (key: string) => settings[key] }) as unknown as IAgentRuntime;
+
+describe('getChunkingProfile', () => {
+  it('should tell code, tables and prose apart', () => {
+    expect(getChunkingProfile('text/plain', 'service.ts')).toBe('code');
+    expect(getChunkingProfile('text/csv', 'export.csv')).toBe('table');
+    expect(getChunkingProfile('application/vnd.oasis.opendocument.spreadsheet', 'budget.ods')).toBe(
+      'table'
+    );
+    expect(getChunkingProfile('text/markdown', 'README.md')).toBe('prose');
+  });
+});
+
+describe('getChunkingConfig', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should use the built-in defaults without settings', () => {
+    expect(getChunkingConfig(createRuntime({}), 'application/pdf', 'paper.pdf')).toEqual({
+      strategy: 'fixed',
+      chunkSize: 500,
+      chunkOverlap: 100,
+      minChunkSize: 100,
+      breakpointPercentile: 10,
+      parentChunkSize: 0,
+      profile: 'prose',
+    });
+  });
+
+  it('should prefer the upload override, then the profile and then the agent setting', () => {
+    const runtime = createRuntime({
+      CHUNK_SIZE: '600',
+      CHUNK_OVERLAP: '120',
+      CODE_CHUNK_SIZE: '900',
+    });
+
+    expect(getChunkingConfig(runtime, 'text/plain', 'notes.txt')).toMatchObject({
+      chunkSize: 600,
+      chunkOverlap: 120,
+      profile: 'prose',
+    });
+    expect(getChunkingConfig(runtime, 'text/x-python', 'main.py')).toMatchObject({
+      chunkSize: 900,
+      chunkOverlap: 120,
+      profile: 'code',
+    });
+    expect(
+      getChunkingConfig(runtime, 'text/x-python', 'main.py', { chunkSize: 300, chunkOverlap: 0 })
+    ).toMatchObject({ chunkSize: 300, chunkOverlap: 0, profile: 'code' });
+  });
+
+  it('should select semantic chunking per agent or per upload', () => {
+    const runtime = createRuntime({
+      CHUNKING_STRATEGY: 'semantic',
+      SEMANTIC_BREAKPOINT_PERCENTILE: '25',
+      TABLE_CHUNK_OVERLAP: '0',
+    });
+
+    expect(getChunkingConfig(runtime, 'text/plain', 'notes.txt')).toMatchObject({
+      strategy: 'semantic',
+      breakpointPercentile: 25,
+    });
+    expect(getChunkingConfig(runtime, 'text/csv', 'rows.csv').chunkOverlap).toBe(0);
+    expect(
+      getChunkingConfig(createRuntime({}), 'text/plain', 'notes.txt', {
+        strategy: 'semantic',
+        minChunkSize: 50,
+      })
+    ).toMatchObject({ strategy: 'semantic', minChunkSize: 50 });
+  });
+
+  it('should only use parent windows larger than the fragments', () => {
+    const runtime = createRuntime({ CHUNK_SIZE: '200', PARENT_CHUNK_SIZE: '1500' });
+
+    expect(getChunkingConfig(runtime, 'text/plain', 'notes.txt').parentChunkSize).toBe(1500);
+    expect(
+      getChunkingConfig(runtime, 'text/plain', 'notes.txt', { parentChunkSize: 0 }).parentChunkSize
+    ).toBe(0);
+    expect(
+      getChunkingConfig(runtime, 'text/plain', 'notes.txt', { chunkSize: 2000 }).parentChunkSize
+    ).toBe(0);
+  });
+
+  it('should fall back to process.env when the runtime has no value', () => {
+    vi.stubEnv('TABLE_CHUNK_SIZE', '1000');
+
+    expect(getChunkingConfig(createRuntime({}), 'text/csv', 'rows.csv').chunkSize).toBe(1000);
+  });
+
+  it('should ignore invalid values and keep the overlap below the chunk size', () => {
+    const runtime = createRuntime({ CHUNK_SIZE: 'large', CHUNK_OVERLAP: '-5' });
+
+    expect(getChunkingConfig(runtime, 'text/plain', 'notes.txt')).toMatchObject({
+      chunkSize: 500,
+      chunkOverlap: 100,
+    });
+    expect(
+      getChunkingConfig(runtime, 'text/plain', 'notes.txt', { chunkSize: 200, chunkOverlap: 250 })
+    ).toMatchObject({ chunkSize: 200, chunkOverlap: 40 });
+  });
+});
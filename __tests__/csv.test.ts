@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractCsvFromText, isCsvFile } from '../src/csv';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('isCsvFile', () => {
+  it('should recognize CSV and TSV by content type or extension', () => {
+    expect(isCsvFile('text/csv', 'export')).toBe(true);
+    expect(isCsvFile('text/plain', 'people.tsv')).toBe(true);
+    expect(isCsvFile('text/plain', 'notes.txt')).toBe(false);
+  });
+});
+
+describe('extractCsvFromText', () => {
+  it('should repeat the header row in every section and record row ranges', () => {
+    const rows = Array.from(
+      { length: 100 },
+      (_, i) => `${i + 1},Product ${i + 1},A fairly ordinary description of item ${i + 1}`
+    );
+    const csv = ['id,name,description', ...rows].join('\n');
+
+    const extracted = extractCsvFromText(csv, 'text/csv', 'products.csv');
+
+    expect(extracted.text).toBe(csv);
+    expect(extracted.metadata).toEqual({ columns: ['id', 'name', 'description'], rowCount: 100 });
+    expect(extracted.sections!.length).toBeGreaterThan(1);
+    let expectedRowStart = 2;
+    for (const section of extracted.sections!) {
+      expect(section.text.length).toBeLessThanOrEqual(1750);
+      expect(section.text.split('\n')[0]).toBe('id,name,description');
+      expect(section.metadata!.rowStart).toBe(expectedRowStart);
+      expectedRowStart = (section.metadata!.rowEnd as number) + 1;
+    }
+    expect(expectedRowStart).toBe(102);
+  });
+
+  it('should keep quoted cells with delimiters, quotes and line breaks within their row', () => {
+    const csv = [
+      'name;comment',
+      'Alice;"Said ""hi""; then left"',
+      'Bob;"Line one',
+      'line two"',
+      'Carol;Plain',
+    ].join('\r\n');
+
+    const { sections } = extractCsvFromText(csv, 'text/csv', 'comments.csv');
+
+    expect(sections).toEqual([
+      {
+        text: [
+          'name;comment',
+          'Alice;"Said ""hi""; then left"',
+          'Bob;"Line one\r\nline two"',
+          'Carol;Plain',
+        ].join('\n'),
+        metadata: { rowStart: 2, rowEnd: 4 },
+      },
+    ]);
+  });
+
+  it('should split rows too long for one fragment by column', () => {
+    const notes = 'Very long note. '.repeat(150).trim();
+    const tsv = ['id\ttitle\tnotes', '1\tShort\tBrief', `2\tLong\t${notes}`, '3\tAfter\tDone'].join(
+      '\n'
+    );
+
+    const { sections } = extractCsvFromText(tsv, 'text/tab-separated-values', 'items.tsv');
+
+    expect(sections!.map((section) => section.metadata)).toEqual([
+      { rowStart: 2, rowEnd: 2 },
+      { rowStart: 3, rowEnd: 3 },
+      { rowStart: 3, rowEnd: 3 },
+      { rowStart: 4, rowEnd: 4 },
+    ]);
+    expect(sections![1].text).toMatch(/^Row 3\nid: 2\ntitle: Long\nnotes: Very long note\./);
+    expect(sections![2].text.startsWith('Row 3\n')).toBe(true);
+    for (const section of sections!) {
+      expect(section.text.length).toBeLessThanOrEqual(1750);
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import { extractCsvFromText } from '../src/csv';
+import { processFragmentsSynchronously } from '../src/document-processor';
+import { splitTextSemantically } from '../src/semantic-chunking';
+import type { ChunkingConfig } from '../src/types';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+  MemoryType: { DOCUMENT: 'document', FRAGMENT: 'fragment' },
+  ModelType: { TEXT_EMBEDDING: 'TEXT_EMBEDDING', TEXT_LARGE: 'TEXT_LARGE' },
+  // Cuts text every `chunkSize` tokens, like the real splitter does at its size limit
+  splitChunks: vi.fn(async (text: string, chunkSize: number) => {
+    const size = Math.floor(chunkSize * 3.5);
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+      chunks.push(text.slice(i, i + size));
+    }
+    return chunks;
+  }),
+}));
+vi.mock('../src/llm.ts', () => ({ generateText: vi.fn() }));
+vi.mock('../src/semantic-chunking.ts', () => ({ splitTextSemantically: vi.fn() }));
+
+const AGENT_ID = '00000000-0000-0000-0000-000000000001' as UUID;
+const DOCUMENT_ID = '00000000-0000-0000-0000-000000000002' as UUID;
+
+function createRuntime(settings: Record<string, string> = {}) {
+  const tables = new Map<string, Memory[]>();
+  const runtime = {
+    agentId: AGENT_ID,
+    getSetting: (key: string) => settings[key] ?? null,
+    // Embeds text by its length; text generation answers with the context of the prompt's chunk
+    useModel: vi.fn(async (type: string, params: { text?: string; prompt?: string }) =>
+      type === 'TEXT_LARGE'
+        ? `Context of ${params.prompt!.match(/<chunk>\n(.*?)\n/)![1]}`
+        : [params.text!.length, 1]
+    ),
+    createMemory: vi.fn(async (memory: Memory, tableName: string) => {
+      tables.set(tableName, [...(tables.get(tableName) ?? []), memory]);
+      return memory.id;
+    }),
+  };
+  return {
+    runtime: runtime as unknown as IAgentRuntime,
+    getTable: (tableName: string) => tables.get(tableName) ?? [],
+  };
+}
+
+function tableChunking(overrides: Partial<ChunkingConfig> = {}): ChunkingConfig {
+  return {
+    strategy: 'fixed',
+    chunkSize: 200,
+    chunkOverlap: 0,
+    minChunkSize: 50,
+    breakpointPercentile: 95,
+    parentChunkSize: 0,
+    profile: 'table',
+    ...overrides,
+  };
+}
+
+function createCsv(rowCount: number): string {
+  const rows = Array.from(
+    { length: rowCount },
+    (_, i) => `${i + 1},Product ${i + 1},A reasonably long description of product ${i + 1}`
+  );
+  return ['id,name,description', ...rows].join('\n');
+}
+
+/**
+ * Checks that every fragment starts with the header row and holds exactly the rows of its range
+ */
+function expectWholeTableSections(fragments: Memory[]) {
+  expect(fragments.length).toBeGreaterThan(1);
+  for (const fragment of fragments) {
+    const [header, ...lines] = fragment.content.text!.split('\n');
+    const { rowStart, rowEnd } = fragment.metadata as { rowStart: number; rowEnd: number };
+    expect(header).toBe('id,name,description');
+    expect(lines.map((line) => Number(line.split(',')[0]) + 1)).toEqual(
+      Array.from({ length: rowEnd - rowStart + 1 }, (_, i) => rowStart + i)
+    );
+  }
+}
+
+describe('processFragmentsSynchronously', () => {
+  it('should keep CSV sections whole, whatever the chunk size and strategy', async () => {
+    const text = createCsv(60);
+    const { sections } = extractCsvFromText(text, 'text/csv', 'products.csv');
+
+    for (const strategy of ['fixed', 'semantic'] as const) {
+      const { runtime, getTable } = createRuntime();
+      const fragmentCount = await processFragmentsSynchronously({
+        runtime,
+        documentId: DOCUMENT_ID,
+        fullDocumentText: text,
+        agentId: AGENT_ID,
+        contentType: 'text/csv',
+        documentTitle: 'products.csv',
+        sections,
+        chunking: tableChunking({ strategy }),
+      });
+
+      expect(fragmentCount).toBe(sections!.length);
+      expectWholeTableSections(getTable('knowledge'));
+    }
+    expect(splitTextSemantically).not.toHaveBeenCalled();
+  });
+
+  it('should make every CSV section its own child in parent-document mode', async () => {
+    const text = createCsv(60);
+    const { sections } = extractCsvFromText(text, 'text/csv', 'products.csv');
+    const { runtime, getTable } = createRuntime();
+
+    await processFragmentsSynchronously({
+      runtime,
+      documentId: DOCUMENT_ID,
+      fullDocumentText: text,
+      agentId: AGENT_ID,
+      contentType: 'text/csv',
+      documentTitle: 'products.csv',
+      sections,
+      chunking: tableChunking({ parentChunkSize: 1000 }),
+    });
+
+    const children = getTable('knowledge');
+    expectWholeTableSections(children);
+    expect(children).toHaveLength(getTable('knowledge_parents').length);
+  });
+});
+
+describe('contextual knowledge', () => {
+  it('should store the generated context apart from the chunk and embed both', async () => {
+    const text = 'First chunk of the document.\n\nSecond chunk of the document.';
+    const { runtime, getTable } = createRuntime({ CTX_KNOWLEDGE_ENABLED: 'true' });
+
+    await processFragmentsSynchronously({
+      runtime,
+      documentId: DOCUMENT_ID,
+      fullDocumentText: text,
+      agentId: AGENT_ID,
+      contentType: 'text/plain',
+      documentTitle: 'notes.txt',
+      sections: [
+        { text: 'First chunk of the document.' },
+        { text: 'Second chunk of the document.' },
+      ],
+      chunking: tableChunking({ profile: 'prose' }),
+    });
+
+    const fragments = getTable('knowledge');
+    expect(fragments.map((fragment) => fragment.content)).toEqual([
+      { text: 'First chunk of the document.', context: 'Context of First chunk of the document.' },
+      {
+        text: 'Second chunk of the document.',
+        context: 'Context of Second chunk of the document.',
+      },
+    ]);
+    const embeddedTexts = vi
+      .mocked(runtime.useModel)
+      .mock.calls.filter(([type]) => type === 'TEXT_EMBEDDING')
+      .map(([, params]) => (params as { text: string }).text);
+    expect(embeddedTexts).toEqual([
+      'Context of First chunk of the document.\n\nFirst chunk of the document.',
+      'Context of Second chunk of the document.\n\nSecond chunk of the document.',
+    ]);
+  });
+
+  it('should store no context when contextual knowledge is off', async () => {
+    const { runtime, getTable } = createRuntime();
+
+    await processFragmentsSynchronously({
+      runtime,
+      documentId: DOCUMENT_ID,
+      fullDocumentText: 'A single chunk.',
+      agentId: AGENT_ID,
+      contentType: 'text/plain',
+      sections: [{ text: 'A single chunk.' }],
+      chunking: tableChunking({ profile: 'prose' }),
+    });
+
+    expect(getTable('knowledge').map((fragment) => fragment.content)).toEqual([
+      { text: 'A single chunk.' },
+    ]);
+    expect(runtime.useModel).not.toHaveBeenCalledWith('TEXT_LARGE', expect.anything());
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Buffer } from 'node:buffer';
+import { extractEmailsFromBuffer, extractMailboxFromBuffer, isEmailFile } from '../src/email';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const MULTIPART_EMAIL = [
+  'From: "Ana Lima" <ana@example.com>',
+  'To: support@example.com, Bob <bob@example.com>',
+  'Subject: =?UTF-8?Q?Re:_Refund_for_order_=E2=84=961042?=',
+  'Date: Tue, 04 Mar 2025 10:15:00 +0000',
+  'Message-ID: <reply-2@example.com>',
+  'In-Reply-To: <question-1@example.com>',
+  'References: <root-0@example.com> <question-1@example.com>',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary="inner"',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'We decided to refund the order in full. Caf=C3=A9 vouchers are no longer issu=',
+  'ed.',
+  '--inner',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<p>We decided to refund the order in full.</p>',
+  '--inner--',
+  '--outer',
+  'Content-Type: text/csv; name="refunds.csv"',
+  'Content-Disposition: attachment; filename="refunds.csv"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('order,amount\n1042,19.99\n').toString('base64'),
+  '--outer',
+  'Content-Type: image/png; name="receipt.png"',
+  'Content-Disposition: attachment; filename="receipt.png"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  'iVBORw0KGgo=',
+  '--outer--',
+  '',
+].join('\r\n');
+
+const HTML_ONLY_EMAIL = [
+  'From: billing@example.com',
+  'To: ana@example.com',
+  'Subject: Your invoice',
+  'Message-ID: <invoice-7@example.com>',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<html><body><h1>Invoice</h1><p>Amount due: <b>$40</b></p><script>track()</script></body></html>',
+  '',
+].join('\n');
+
+describe('isEmailFile', () => {
+  it('should recognize emails and mailboxes by content type or extension', () => {
+    expect(isEmailFile('message/rfc822', 'message')).toBe(true);
+    expect(isEmailFile('application/octet-stream', 'archive.mbox')).toBe(true);
+    expect(isEmailFile('text/plain', 'notes.txt')).toBe(false);
+  });
+});
+
+describe('extractEmailsFromBuffer', () => {
+  it('should decode a multipart email with its thread metadata and text attachments', async () => {
+    const [email] = await extractEmailsFromBuffer(Buffer.from(MULTIPART_EMAIL), 'reply.eml');
+
+    expect(email.document.text).toBe(
+      [
+        'Subject: Re: Refund for order №1042',
+        'From: Ana Lima <ana@example.com>',
+        'To: support@example.com, Bob <bob@example.com>',
+        'Date: 2025-03-04T10:15:00.000Z',
+        '',
+        'We decided to refund the order in full. Café vouchers are no longer issued.',
+      ].join('\n')
+    );
+    expect(email.document.metadata).toEqual({
+      title: 'Re: Refund for order №1042',
+      subject: 'Re: Refund for order №1042',
+      from: 'Ana Lima <ana@example.com>',
+      to: ['support@example.com', 'Bob <bob@example.com>'],
+      date: '2025-03-04T10:15:00.000Z',
+      messageId: 'reply-2@example.com',
+      inReplyTo: 'question-1@example.com',
+      threadId: 'root-0@example.com',
+    });
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments[0]).toMatchObject({
+      filename: 'refunds.csv',
+      contentType: 'text/csv',
+    });
+    expect(email.attachments[0].content.toString('utf8')).toBe('order,amount\n1042,19.99\n');
+  });
+
+  it('should convert HTML-only bodies to text', async () => {
+    const [email] = await extractEmailsFromBuffer(Buffer.from(HTML_ONLY_EMAIL), 'invoice.eml');
+
+    expect(email.document.text).toContain('Invoice\n\nAmount due: $40');
+    expect(email.document.text).not.toContain('track()');
+    expect(email.document.metadata?.threadId).toBe('invoice-7@example.com');
+  });
+
+  it('should split an mbox into its messages and unescape quoted From lines', async () => {
+    const mbox = [
+      'From ana@example.com Tue Mar  4 10:15:00 2025',
+      MULTIPART_EMAIL.replace(/\r\n/g, '\n'),
+      'From billing@example.com Wed Mar  5 08:00:00 2025',
+      HTML_ONLY_EMAIL.replace('<p>Amount', '<p>Hi,</p>\n>From the team: <p>Amount'),
+    ].join('\n');
+
+    const emails = await extractEmailsFromBuffer(Buffer.from(mbox), 'support.mbox');
+
+    expect(emails.map((email) => email.document.metadata?.subject)).toEqual([
+      'Re: Refund for order №1042',
+      'Your invoice',
+    ]);
+    expect(emails[1].document.text).toContain('From the team:');
+    expect(emails[1].document.text).not.toContain('>From');
+
+    const mailbox = await extractMailboxFromBuffer(Buffer.from(mbox), 'support.mbox');
+    expect(mailbox.sections).toHaveLength(2);
+    expect(mailbox.sections?.[1].metadata?.from).toBe('billing@example.com');
+    expect(mailbox.metadata).toEqual({ messageCount: 2 });
+  });
+});
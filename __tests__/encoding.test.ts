@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Buffer } from 'node:buffer';
+import { decodeTextBuffer, detectEncoding } from '../src/encoding';
+
+function utf16be(text: string): Buffer {
+  return Buffer.from(text, 'utf16le').swap16();
+}
+
+describe('detectEncoding', () => {
+  it('should honour byte order marks', () => {
+    expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x68, 0x69]))).toBe('utf-8');
+    expect(
+      detectEncoding(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('hi', 'utf16le')]))
+    ).toBe('utf-16le');
+    expect(detectEncoding(Buffer.concat([Buffer.from([0xfe, 0xff]), utf16be('hi')]))).toBe(
+      'utf-16be'
+    );
+  });
+
+  it('should recognize UTF-16 without a byte order mark', () => {
+    expect(detectEncoding(Buffer.from('Plain ASCII text in UTF-16', 'utf16le'))).toBe('utf-16le');
+    expect(detectEncoding(utf16be('Plain ASCII text in UTF-16'))).toBe('utf-16be');
+    expect(detectEncoding(utf16be('これは日本語のテキストです。'))).toBe('utf-16be');
+  });
+
+  it('should prefer UTF-8 when the bytes are valid UTF-8', () => {
+    expect(detectEncoding(Buffer.from('Grüße aus Köln', 'utf8'))).toBe('utf-8');
+  });
+
+  it('should detect Shift_JIS', () => {
+    // 'これは日本語のテキストです。' in Shift_JIS
+    const sjis = Buffer.from('82b182ea82cd93fa967b8cea82cc8365834c8358836782c582b78142', 'hex');
+    expect(decodeTextBuffer(sjis)).toEqual({
+      text: 'これは日本語のテキストです。',
+      encoding: 'shift_jis',
+    });
+  });
+
+  it('should fall back to Windows-1252 for Latin-1 text', () => {
+    expect(decodeTextBuffer(Buffer.from('Grüße aus Köln', 'latin1'))).toEqual({
+      text: 'Grüße aus Köln',
+      encoding: 'windows-1252',
+    });
+  });
+
+  it('should use the charset declared in the content type', () => {
+    expect(detectEncoding(Buffer.from('caf\xe9', 'latin1'), 'text/plain; charset=ISO-8859-1')).toBe(
+      'windows-1252'
+    );
+    // A declared charset that does not decode cleanly is ignored
+    expect(
+      detectEncoding(Buffer.from('Grüße aus Köln', 'latin1'), 'text/plain; charset=utf-8')
+    ).toBe('windows-1252');
+  });
+
+  it('should return null for binary content', () => {
+    expect(
+      detectEncoding(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00, 0x1a, 0xff, 0x00]))
+    ).toBeNull();
+    expect(() => decodeTextBuffer(Buffer.from([0x00, 0xff, 0xfe, 0x00, 0x81, 0x00, 0x00]))).toThrow(
+      'Content appears to be binary'
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import { extractEpubFromBuffer, isEpubFile } from '../src/epub';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const xhtml = (body: string) =>
+  '<?xml version="1.0" encoding="utf-8"?><!DOCTYPE html>' +
+  '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">' +
+  `<head><title>Book</title><style>p { margin: 0 }</style></head><body>${body}</body></html>`;
+
+async function createEpubBuffer({ withNav }: { withNav: boolean }): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file(
+    'META-INF/container.xml',
+    '<container xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles>' +
+      '<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>' +
+      '</rootfiles></container>'
+  );
+  // Manifest order differs from spine order on purpose
+  zip.file(
+    'OEBPS/content.opf',
+    '<package xmlns="http://www.idpf.org/2007/opf" version="3.0">' +
+      '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+      '<dc:title>Practical Agents</dc:title><dc:creator>Ada Writer</dc:creator><dc:language>en</dc:language>' +
+      '</metadata><manifest>' +
+      '<item id="ch2" href="text/chapter%202.xhtml" media-type="application/xhtml+xml"/>' +
+      '<item id="ch1" href="text/chapter1.xhtml" media-type="application/xhtml+xml"/>' +
+      '<item id="ch1b" href="text/chapter1b.xhtml" media-type="application/xhtml+xml"/>' +
+      '<item id="cover" href="text/cover.xhtml" media-type="application/xhtml+xml"/>' +
+      '<item id="notes" href="text/notes.xhtml" media-type="application/xhtml+xml"/>' +
+      (withNav
+        ? '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>'
+        : '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>') +
+      '</manifest>' +
+      `<spine${withNav ? '' : ' toc="ncx"'}>` +
+      '<itemref idref="cover"/><itemref idref="ch1"/><itemref idref="ch1b"/><itemref idref="ch2"/>' +
+      '<itemref idref="notes" linear="no"/>' +
+      '</spine></package>'
+  );
+  zip.file(
+    'OEBPS/nav.xhtml',
+    xhtml(
+      '<nav epub:type="toc"><ol>' +
+        '<li><a href="text/chapter1.xhtml">Getting Started</a></li>' +
+        '<li><a href="text/chapter%202.xhtml#top">Memory</a></li>' +
+        '</ol></nav>'
+    )
+  );
+  zip.file(
+    'OEBPS/toc.ncx',
+    '<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/"><navMap>' +
+      '<navPoint id="n1"><navLabel><text>Getting Started</text></navLabel><content src="text/chapter1.xhtml"/></navPoint>' +
+      '<navPoint id="n2"><navLabel><text>Memory</text></navLabel><content src="text/chapter%202.xhtml"/></navPoint>' +
+      '</navMap></ncx>'
+  );
+  zip.file('OEBPS/text/cover.xhtml', xhtml('<div><img src="cover.jpg" alt=""/></div>'));
+  zip.file(
+    'OEBPS/text/chapter1.xhtml',
+    xhtml(
+      '<h1>Chapter 1</h1><p>Agents need <em>context</em> &amp; tools.</p>' +
+        '<ul><li>Plan</li><li>Act</li></ul><script>track()</script>'
+    )
+  );
+  zip.file('OEBPS/text/chapter1b.xhtml', xhtml('<p>More on getting started.</p>'));
+  zip.file(
+    'OEBPS/text/chapter 2.xhtml',
+    xhtml(
+      '<h2 id="top">Chapter 2</h2><table><tr><th>Store</th><th>Use</th></tr><tr><td>RAG</td><td>Facts</td></tr></table>'
+    )
+  );
+  zip.file('OEBPS/text/notes.xhtml', xhtml('<p>Footnotes</p>'));
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('isEpubFile', () => {
+  it('should detect EPUB files by content type or extension', () => {
+    expect(isEpubFile('application/epub+zip', 'book')).toBe(true);
+    expect(isEpubFile('application/octet-stream', 'Book.EPUB')).toBe(true);
+    expect(isEpubFile('application/zip', 'archive.zip')).toBe(false);
+  });
+});
+
+describe('extractEpubFromBuffer', () => {
+  it.each([
+    ['EPUB 3 navigation document', true],
+    ['EPUB 2 NCX', false],
+  ])('should follow the spine and title chapters from the %s', async (_label, withNav) => {
+    const result = await extractEpubFromBuffer(await createEpubBuffer({ withNav }), 'book.epub');
+
+    expect(result.metadata).toEqual({
+      title: 'Practical Agents',
+      author: 'Ada Writer',
+      language: 'en',
+      chapterCount: 3,
+    });
+    expect(result.sections).toEqual([
+      {
+        text: 'Chapter 1\n\nAgents need context & tools.\n\n- Plan\n- Act',
+        metadata: {
+          chapterIndex: 1,
+          chapterTitle: 'Getting Started',
+          chapterHref: 'OEBPS/text/chapter1.xhtml',
+        },
+      },
+      {
+        text: 'More on getting started.',
+        metadata: {
+          chapterIndex: 2,
+          chapterTitle: 'Getting Started',
+          chapterHref: 'OEBPS/text/chapter1b.xhtml',
+        },
+      },
+      {
+        text: 'Chapter 2\n\nStore | Use\nRAG | Facts',
+        metadata: {
+          chapterIndex: 3,
+          chapterTitle: 'Memory',
+          chapterHref: 'OEBPS/text/chapter 2.xhtml',
+        },
+      },
+    ]);
+  });
+
+  it('should reject archives without a container document', async () => {
+    const zip = new JSZip();
+    zip.file('OEBPS/content.opf', '<package/>');
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    await expect(extractEpubFromBuffer(buffer, 'broken.epub')).rejects.toThrow(
+      'META-INF/container.xml'
+    );
+  });
+});
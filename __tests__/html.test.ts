@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractMainContentFromHtml, htmlToText, isHtmlFile } from '../src/html';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const ARTICLE_PAGE = `<!DOCTYPE html>
+<html>
+<head>
+  <title>  Configuring Agents | Example Docs </title>
+  <meta name="description" content="How to configure an agent's knowledge.">
+  <link rel="canonical" href="/docs/configuring-agents">
+  <style>body { font-family: sans-serif; }</style>
+  <script>window.analytics = { track() {} };</script>
+</head>
+<body>
+  <header class="site-header"><a href="/">Example</a> <a href="/docs">Docs</a></header>
+  <nav><ul><li><a href="/a">Home</a></li><li><a href="/b">Pricing</a></li></ul></nav>
+  <div id="cookie-banner">We use cookies to improve your experience. <button>Accept</button></div>
+  <div class="layout">
+    <aside class="sidebar"><p>Related reading: a long list of other pages you might enjoy.</p></aside>
+    <div class="post-content">
+      <h1>Configuring Agents</h1>
+      <p>Agents load knowledge from documents, which are split into fragments and embedded for search.</p>
+      <h2>Steps</h2>
+      <ol><li>Create a <a href="/docs/folder">docs folder</a></li><li>Restart the agent</li></ol>
+      <table><tr><th>Setting</th><th>Default</th></tr><tr><td>LOAD_DOCS_ON_STARTUP</td><td>false</td></tr></table>
+      <p>Fragments are retrieved by similarity, so keep documents focused, short, and well structured.</p>
+      <div class="share-links"><a href="/tw">Twitter</a> <a href="/fb">Facebook</a></div>
+    </div>
+  </div>
+  <footer><p>Copyright Example Inc. All rights reserved, everywhere, forever.</p></footer>
+</body>
+</html>`;
+
+describe('isHtmlFile', () => {
+  it('should detect HTML pages by content type or extension', () => {
+    expect(isHtmlFile('text/html; charset=utf-8', 'page')).toBe(true);
+    expect(isHtmlFile('application/octet-stream', 'index.HTM')).toBe(true);
+    expect(isHtmlFile('text/plain', 'notes.txt')).toBe(false);
+  });
+});
+
+describe('htmlToText', () => {
+  it('should keep block structure, lists, tables and preformatted text', () => {
+    const text = htmlToText(
+      '<h2>Title</h2><p>One &amp; <b>two</b><br>three</p><ul><li>a</li><li>b</li></ul>' +
+        '<pre>  indented\n    code</pre><table><tr><td>x</td><td>y</td></tr></table>'
+    );
+
+    expect(text).toBe('Title\n\nOne & two\nthree\n\n- a\n- b\n\n  indented\n    code\n\nx | y');
+  });
+});
+
+describe('extractMainContentFromHtml', () => {
+  it('should keep the main content and drop page chrome', () => {
+    const result = extractMainContentFromHtml(
+      ARTICLE_PAGE,
+      'https://example.com/docs/agents?ref=1'
+    );
+
+    expect(result.text).toBe(
+      'Configuring Agents\n\n' +
+        'Agents load knowledge from documents, which are split into fragments and embedded for search.\n\n' +
+        'Steps\n\n' +
+        '1. Create a docs folder\n2. Restart the agent\n\n' +
+        'Setting | Default\nLOAD_DOCS_ON_STARTUP | false\n\n' +
+        'Fragments are retrieved by similarity, so keep documents focused, short, and well structured.'
+    );
+    expect(result.metadata).toEqual({
+      title: 'Configuring Agents | Example Docs',
+      canonicalUrl: 'https://example.com/docs/configuring-agents',
+      description: "How to configure an agent's knowledge.",
+    });
+  });
+
+  it('should fall back to the whole body when there is no prose to score', () => {
+    const result = extractMainContentFromHtml(
+      '<html><body><nav><a href="/">Home</a></nav><h1>Status</h1><ul><li>API: up</li></ul></body></html>'
+    );
+
+    expect(result.text).toBe('Status\n\n- API: up');
+    expect(result.metadata).toEqual({});
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Buffer } from 'node:buffer';
+import type { IAgentRuntime } from '@elizaos/core';
+import { extractImageDocument } from '../src/image';
+import { registerOcrAdapter } from '../src/ocr';
+
+vi.mock('@elizaos/core', () => ({
+  ModelType: { IMAGE_DESCRIPTION: 'IMAGE_DESCRIPTION' },
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const createRuntime = (useModel: (...args: any[]) => Promise<unknown>) =>
+  ({ useModel: vi.fn(useModel) }) as unknown as IAgentRuntime & {
+    useModel: ReturnType<typeof vi.fn>;
+  };
+
+describe('extractImageDocument', () => {
+  afterEach(() => registerOcrAdapter(null));
+
+  it('should describe the image and append the text read with OCR', async () => {
+    registerOcrAdapter({
+      name: 'fake-ocr',
+      recognize: async () => ({ text: 'Load balancer\nDatabase', confidence: 0.8 }),
+    });
+    const runtime = createRuntime(async () => ({
+      title: 'Architecture diagram',
+      description: 'A load balancer routes traffic to two app servers sharing one database.',
+    }));
+
+    const result = await extractImageDocument(
+      runtime,
+      Buffer.from('png-bytes'),
+      'image/png',
+      'architecture.png'
+    );
+
+    expect(runtime.useModel).toHaveBeenCalledWith('IMAGE_DESCRIPTION', {
+      imageUrl: `data:image/png;base64,${Buffer.from('png-bytes').toString('base64')}`,
+      prompt: expect.any(String),
+    });
+    expect(result.text).toBe(
+      'Architecture diagram\n\n' +
+        'A load balancer routes traffic to two app servers sharing one database.\n\n' +
+        'Text in the image:\nLoad balancer\nDatabase'
+    );
+    expect(result.metadata).toEqual({
+      description: 'A load balancer routes traffic to two app servers sharing one database.',
+      imageTitle: 'Architecture diagram',
+      ocrEngine: 'fake-ocr',
+      ocrConfidence: 0.8,
+    });
+  });
+
+  it('should fall back to OCR when the description model fails', async () => {
+    registerOcrAdapter({ name: 'fake-ocr', recognize: async () => ({ text: 'Settings page' }) });
+    const runtime = createRuntime(async () => {
+      throw new Error('No handler found for IMAGE_DESCRIPTION');
+    });
+
+    const result = await extractImageDocument(
+      runtime,
+      Buffer.from('jpg'),
+      'image/jpeg',
+      'screen.jpg'
+    );
+
+    expect(result).toEqual({
+      text: 'Text in the image:\nSettings page',
+      metadata: { ocrEngine: 'fake-ocr' },
+    });
+  });
+
+  it('should fail when neither the model nor OCR produce text', async () => {
+    registerOcrAdapter({ name: 'missing-ocr', recognize: vi.fn(), isAvailable: async () => false });
+    const runtime = createRuntime(async () => ({ title: '', description: '' }));
+
+    await expect(
+      extractImageDocument(runtime, Buffer.from('webp'), 'image/webp', 'blank.webp')
+    ).rejects.toThrow('Neither the image-description model nor OCR produced any text');
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractMarkdownFromText, isMarkdownFile } from '../src/markdown';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('isMarkdownFile', () => {
+  it('should recognize Markdown and MDX by content type or extension', () => {
+    expect(isMarkdownFile('text/markdown', 'README')).toBe(true);
+    expect(isMarkdownFile('text/plain', 'guide.mdx')).toBe(true);
+    expect(isMarkdownFile('text/plain', 'notes.txt')).toBe(false);
+  });
+});
+
+describe('extractMarkdownFromText', () => {
+  it('should move YAML front matter into metadata', () => {
+    const markdown = [
+      '---',
+      'title: Deploying agents',
+      'tags: deploy, ops',
+      'audience: [admins, developers]',
+      'updated: 2025-02-01',
+      'type: tutorial',
+      '---',
+      '# Deploying agents',
+      '',
+      'Run `elizaos start`.',
+    ].join('\n');
+
+    expect(extractMarkdownFromText(markdown, 'text/markdown', 'deploy.md')).toEqual({
+      text: '# Deploying agents\n\nRun `elizaos start`.',
+      sections: [
+        {
+          text: '# Deploying agents\n\nRun `elizaos start`.',
+          metadata: { sectionPath: ['Deploying agents'] },
+        },
+      ],
+      metadata: {
+        title: 'Deploying agents',
+        tags: ['deploy', 'ops'],
+        audience: ['admins', 'developers'],
+        updated: '2025-02-01',
+      },
+    });
+  });
+
+  it('should keep invalid front matter and thematic breaks in the text', () => {
+    const invalid = '---\ntitle: [unclosed\n---\nBody';
+    expect(extractMarkdownFromText(invalid, 'text/markdown', 'broken.md')).toEqual({
+      text: invalid,
+      sections: [{ text: invalid }],
+    });
+
+    const thematicBreak = 'Intro\n\n---\n\nMore';
+    expect(extractMarkdownFromText(thematicBreak, 'text/markdown', 'plain.md')).toEqual({
+      text: thematicBreak,
+      sections: [{ text: thematicBreak }],
+    });
+  });
+
+  it('should strip imports, exports, JSX and expressions from MDX but keep code blocks', () => {
+    const mdx = [
+      '---',
+      'title: Tabs',
+      '---',
+      "import Tabs from '@theme/Tabs';",
+      'import {',
+      '  TabItem,',
+      '  Note,',
+      "} from '@site/components';",
+      '',
+      "export const meta = { sidebar: 'guides' };",
+      '',
+      '# Installing',
+      '',
+      '<Tabs groupId="pm">',
+      '  <TabItem value="npm" label="npm">',
+      '',
+      'Install with npm {/* preferred */} version {props.version}.',
+      '',
+      '  </TabItem>',
+      '</Tabs>',
+      '',
+      '<Note',
+      '  type="warning"',
+      '/>',
+      '',
+      '```jsx',
+      "import Tabs from '@theme/Tabs';",
+      '<Tabs />',
+      '```',
+    ].join('\n');
+
+    const text = [
+      '# Installing',
+      '',
+      'Install with npm version .',
+      '',
+      '```jsx',
+      "import Tabs from '@theme/Tabs';",
+      '<Tabs />',
+      '```',
+    ].join('\n');
+    expect(extractMarkdownFromText(mdx, 'text/markdown', 'install.mdx')).toEqual({
+      text,
+      sections: [{ text, metadata: { sectionPath: ['Installing'] } }],
+      metadata: { title: 'Tabs' },
+    });
+  });
+});
+
+describe('Markdown sections', () => {
+  it('should split on headings and record the heading breadcrumb', () => {
+    const markdown = [
+      'Overview of the setup.',
+      '# Install',
+      '## Linux',
+      'Use the package manager.',
+      '```sh',
+      '# not a heading',
+      'apt install eliza',
+      '```',
+      '### Troubleshooting',
+      'Check the logs.',
+      '## macOS',
+      'Use Homebrew.',
+    ].join('\n');
+
+    const { sections } = extractMarkdownFromText(markdown, 'text/markdown', 'install.md');
+
+    expect(sections).toEqual([
+      { text: 'Overview of the setup.' },
+      {
+        text: '# Install\n## Linux\nUse the package manager.\n```sh\n# not a heading\napt install eliza\n```',
+        metadata: { sectionPath: ['Install', 'Linux'] },
+      },
+      {
+        text: '### Troubleshooting\nCheck the logs.',
+        metadata: { sectionPath: ['Install', 'Linux', 'Troubleshooting'] },
+      },
+      { text: '## macOS\nUse Homebrew.', metadata: { sectionPath: ['Install', 'macOS'] } },
+    ]);
+  });
+
+  it('should pack long sections from whole blocks and split oversized code and tables', () => {
+    const paragraph = 'Agents answer questions from their knowledge. '.repeat(10).trim();
+    const code = [
+      '```ts',
+      ...Array.from({ length: 150 }, (_, i) => `const line${i} = ${i};`),
+      '```',
+    ];
+    const table = [
+      '| Setting | Value |',
+      '| --- | --- |',
+      ...Array.from({ length: 150 }, (_, i) => `| SETTING_${i} | value ${i} |`),
+    ];
+    const markdown = ['# Reference', paragraph, paragraph, code.join('\n'), table.join('\n')].join(
+      '\n\n'
+    );
+
+    const { sections } = extractMarkdownFromText(markdown, 'text/markdown', 'reference.md');
+
+    expect(sections!.length).toBeGreaterThan(3);
+    for (const section of sections!) {
+      expect(section.text.length).toBeLessThanOrEqual(1750);
+      expect(section.metadata).toEqual({ sectionPath: ['Reference'] });
+    }
+    expect(sections![0].text).toBe(`# Reference\n\n${paragraph}\n\n${paragraph}`);
+
+    const codePieces = sections!.filter((section) => section.text.startsWith('```ts'));
+    expect(codePieces.length).toBeGreaterThan(1);
+    for (const piece of codePieces) {
+      expect(piece.text.endsWith('\n```')).toBe(true);
+    }
+
+    const tablePieces = sections!.filter((section) => section.text.startsWith('| Setting'));
+    expect(tablePieces.length).toBeGreaterThan(1);
+    for (const piece of tablePieces) {
+      expect(piece.text.split('\n')[1]).toBe('| --- | --- |');
+    }
+  });
+});
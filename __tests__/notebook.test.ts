@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractNotebookFromJson, isNotebookFile } from '../src/notebook';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const NOTEBOOK = JSON.stringify({
+  nbformat: 4,
+  nbformat_minor: 5,
+  metadata: {
+    kernelspec: { name: 'python3', display_name: 'Python 3', language: 'python' },
+  },
+  cells: [
+    {
+      cell_type: 'markdown',
+      metadata: {},
+      source: ['# Sales analysis\n', '\n', 'Quarterly revenue by region.'],
+    },
+    {
+      cell_type: 'code',
+      execution_count: 1,
+      metadata: {},
+      source: ['import pandas as pd\n', "df = pd.read_csv('sales.csv')\n", 'len(df)'],
+      outputs: [
+        { output_type: 'stream', name: 'stdout', text: ['Loaded sales.csv\n'] },
+        {
+          output_type: 'execute_result',
+          execution_count: 1,
+          metadata: {},
+          data: { 'text/plain': ['42'] },
+        },
+      ],
+    },
+    {
+      cell_type: 'code',
+      execution_count: 2,
+      metadata: {},
+      source: "df.plot(x='region', y='revenue')",
+      outputs: [
+        {
+          output_type: 'display_data',
+          metadata: {},
+          data: {
+            'image/png': 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk',
+            'text/plain': [],
+          },
+        },
+        { output_type: 'stream', name: 'stderr', text: 'x'.repeat(5000) },
+      ],
+    },
+    { cell_type: 'code', execution_count: null, metadata: {}, source: [], outputs: [] },
+    {
+      cell_type: 'code',
+      execution_count: 3,
+      metadata: {},
+      source: 'df.missing',
+      outputs: [
+        {
+          output_type: 'error',
+          ename: 'AttributeError',
+          evalue: "'DataFrame' object has no attribute 'missing'",
+          traceback: [
+            '\u001b[0;31m---------------------------------------------------------------------------\u001b[0m',
+          ],
+        },
+      ],
+    },
+  ],
+});
+
+describe('isNotebookFile', () => {
+  it('should recognize notebooks by content type or extension', () => {
+    expect(isNotebookFile('application/x-ipynb+json', 'analysis')).toBe(true);
+    expect(isNotebookFile('application/json', 'analysis.ipynb')).toBe(true);
+    expect(isNotebookFile('application/json', 'analysis.json')).toBe(false);
+  });
+});
+
+describe('extractNotebookFromJson', () => {
+  it('should split the notebook into cells and keep only short text outputs', () => {
+    const extracted = extractNotebookFromJson(NOTEBOOK, 'sales.ipynb');
+
+    expect(extracted.sections).toEqual([
+      {
+        text: '# Sales analysis\n\nQuarterly revenue by region.',
+        metadata: { cellIndex: 0, cellType: 'markdown' },
+      },
+      {
+        text:
+          "```python\nimport pandas as pd\ndf = pd.read_csv('sales.csv')\nlen(df)\n```\n\n" +
+          'Output:\nLoaded sales.csv\n42',
+        metadata: { cellIndex: 1, cellType: 'code' },
+      },
+      {
+        text: "```python\ndf.plot(x='region', y='revenue')\n```",
+        metadata: { cellIndex: 2, cellType: 'code' },
+      },
+      {
+        text: "```python\ndf.missing\n```\n\nOutput:\nAttributeError: 'DataFrame' object has no attribute 'missing'",
+        metadata: { cellIndex: 4, cellType: 'code' },
+      },
+    ]);
+    expect(extracted.text).not.toContain('iVBORw0KGgo');
+    expect(extracted.text).not.toContain('\u001b');
+    expect(extracted.metadata).toEqual({
+      title: 'Sales analysis',
+      language: 'python',
+      cellCount: 5,
+    });
+  });
+
+  it('should read nbformat 3 worksheets', () => {
+    const notebook = JSON.stringify({
+      nbformat: 3,
+      metadata: { language: 'julia' },
+      worksheets: [
+        {
+          cells: [
+            {
+              cell_type: 'code',
+              input: ['println("hi")'],
+              outputs: [{ output_type: 'pyout', text: ['hi'] }],
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(extractNotebookFromJson(notebook, 'old.ipynb').sections).toEqual([
+      {
+        text: '```julia\nprintln("hi")\n```\n\nOutput:\nhi',
+        metadata: { cellIndex: 0, cellType: 'code' },
+      },
+    ]);
+  });
+
+  it('should reject JSON that is not a notebook', () => {
+    expect(() => extractNotebookFromJson('{"name": "package"}', 'package.ipynb')).toThrow(
+      'not a valid Jupyter notebook'
+    );
+    expect(() => extractNotebookFromJson('{', 'broken.ipynb')).toThrow('Invalid notebook JSON');
+  });
+});
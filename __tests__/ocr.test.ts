@@ -0,0 +1,115 @@
+import { afterAll, afterEach, describe, it, expect, vi } from 'vitest';
+import { Buffer } from 'node:buffer';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  configureOcr,
+  createTesseractOcrAdapter,
+  extractImageFromBuffer,
+  getOcrAdapter,
+  parseTesseractTsv,
+  registerOcrAdapter,
+} from '../src/ocr';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const TSV_HEADER =
+  'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+
+describe('parseTesseractTsv', () => {
+  it('should rebuild lines and paragraphs and average the word confidence', () => {
+    const tsv = [
+      TSV_HEADER,
+      '1\t1\t0\t0\t0\t0\t0\t0\t600\t800\t-1\t',
+      '5\t1\t1\t1\t1\t1\t10\t10\t50\t12\t96\tScanned',
+      '5\t1\t1\t1\t1\t2\t70\t10\t50\t12\t90\tinvoice',
+      '5\t1\t1\t1\t2\t1\t10\t30\t50\t12\t84\ttotal',
+      '5\t1\t2\t1\t1\t1\t10\t90\t50\t12\t70\tThanks!',
+      '5\t1\t2\t1\t1\t2\t70\t90\t50\t12\t-1\t ',
+    ].join('\n');
+
+    expect(parseTesseractTsv(tsv)).toEqual({
+      text: 'Scanned invoice\ntotal\n\nThanks!',
+      confidence: 0.85,
+    });
+  });
+
+  it('should report no confidence when nothing was recognized', () => {
+    expect(parseTesseractTsv(`${TSV_HEADER}\n`)).toEqual({ text: '' });
+  });
+});
+
+describe('extractImageFromBuffer', () => {
+  afterEach(() => registerOcrAdapter(null));
+
+  it('should read images with the registered adapter', async () => {
+    const recognize = vi.fn(async () => ({ text: '  Receipt total: 42  ', confidence: 0.91 }));
+    registerOcrAdapter({ name: 'fake-ocr', recognize });
+
+    const result = await extractImageFromBuffer(Buffer.from('png'), 'image/png', 'receipt.png');
+
+    expect(recognize).toHaveBeenCalledWith(Buffer.from('png'), {
+      mimeType: 'image/png',
+      filename: 'receipt.png',
+    });
+    expect(result).toEqual({
+      text: 'Receipt total: 42',
+      metadata: { ocrEngine: 'fake-ocr', ocrConfidence: 0.91 },
+    });
+  });
+
+  it('should fail when the adapter is unavailable', async () => {
+    registerOcrAdapter({
+      name: 'missing-ocr',
+      recognize: vi.fn(),
+      isAvailable: async () => false,
+    });
+
+    await expect(
+      extractImageFromBuffer(Buffer.from('jpg'), 'application/octet-stream', 'scan.jpg')
+    ).rejects.toThrow('No OCR adapter is available');
+  });
+});
+
+describe('createTesseractOcrAdapter', () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-test-'));
+  // Stands in for a Tesseract run that never finishes
+  const hangingCommand = path.join(tempDir, 'hanging-tesseract');
+  fs.writeFileSync(hangingCommand, '#!/bin/sh\nexec sleep 30\n', { mode: 0o755 });
+
+  afterAll(() => {
+    configureOcr();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should kill Tesseract when it runs past the timeout', async () => {
+    const adapter = createTesseractOcrAdapter({ command: hangingCommand, timeoutMs: 100 });
+
+    await expect(adapter.recognize(Buffer.from('png'), { mimeType: 'image/png' })).rejects.toThrow(
+      'timed out after 100 ms'
+    );
+  });
+
+  it('should take its command and timeout from the agent settings', async () => {
+    const settings: Record<string, string> = {
+      OCR_COMMAND: hangingCommand,
+      OCR_TIMEOUT_MS: '100',
+    };
+    configureOcr({ getSetting: (key: string) => settings[key] ?? null } as any);
+
+    const adapter = getOcrAdapter();
+
+    expect(adapter.name).toBe('tesseract');
+    await expect(adapter.recognize(Buffer.from('png'), { mimeType: 'image/png' })).rejects.toThrow(
+      `${hangingCommand} timed out after 100 ms`
+    );
+  });
+});
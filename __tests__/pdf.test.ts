@@ -0,0 +1,229 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { registerOcrAdapter } from '../src/ocr';
+import { extractPdfFromBuffer } from '../src/pdf';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+type PdfLine = { text: string; y: number; size?: number };
+type PdfBookmark = { title: string; page: number; top?: number; children?: PdfBookmark[] };
+
+/**
+ * Builds a minimal PDF where every page is a list of single-line text runs at fixed y positions,
+ * optionally with an info dictionary and bookmarks pointing at 1-based pages
+ */
+function createPdfBuffer(
+  pages: PdfLine[][],
+  { info, bookmarks }: { info?: Record<string, string>; bookmarks?: PdfBookmark[] } = {}
+): Buffer {
+  const objects: string[] = [];
+  const fontId = 3 + pages.length * 2;
+  const pageIds = pages.map((_, index) => 3 + index * 2);
+
+  const addBookmarks = (items: PdfBookmark[], parentId: number): [number, number] => {
+    const ids = items.map(() => objects.push('') - 1);
+    items.forEach((item, index) => {
+      const [first, last] = item.children?.length ? addBookmarks(item.children, ids[index]) : [];
+      const destination =
+        item.top !== undefined
+          ? `[${pageIds[item.page - 1]} 0 R /XYZ 0 ${item.top} 0]`
+          : `[${pageIds[item.page - 1]} 0 R /Fit]`;
+      objects[ids[index]] =
+        `<< /Title (${item.title}) /Parent ${parentId} 0 R /Dest ${destination}` +
+        (index > 0 ? ` /Prev ${ids[index - 1]} 0 R` : '') +
+        (index < ids.length - 1 ? ` /Next ${ids[index + 1]} 0 R` : '') +
+        (first ? ` /First ${first} 0 R /Last ${last} 0 R /Count ${item.children!.length}` : '') +
+        ' >>';
+    });
+    return [ids[0], ids[ids.length - 1]];
+  };
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  pages.forEach((lines, index) => {
+    const pageId = pageIds[index];
+    const stream = lines
+      .map(({ text, y, size = 12 }) => `BT /F1 ${size} Tf 1 0 0 1 72 ${y} Tm (${text}) Tj ET`)
+      .join('\n');
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] ` +
+      `/Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+  objects[fontId] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+
+  if (bookmarks?.length) {
+    const outlinesId = objects.length;
+    objects[outlinesId] = '';
+    const [first, last] = addBookmarks(bookmarks, outlinesId);
+    objects[outlinesId] =
+      `<< /Type /Outlines /First ${first} 0 R /Last ${last} 0 R /Count ${bookmarks.length} >>`;
+    objects[1] = `<< /Type /Catalog /Pages 2 0 R /Outlines ${outlinesId} 0 R >>`;
+  }
+  let infoId: number | undefined;
+  if (info) {
+    infoId = objects.length;
+    objects[infoId] = `<< ${Object.entries(info)
+      .map(([key, value]) => `/${key} (${value})`)
+      .join(' ')} >>`;
+  }
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R${infoId ? ` /Info ${infoId} 0 R` : ''} >>\nstartxref\n${xrefOffset}\n%%EOF`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('extractPdfFromBuffer', () => {
+  it('should keep paragraph and page breaks and report page ranges', async () => {
+    const buffer = createPdfBuffer([
+      [
+        { text: 'Introduction', y: 720, size: 18 },
+        { text: 'Agents read documents', y: 690 },
+        { text: 'line by line.', y: 676 },
+        { text: 'A second paragraph', y: 640 },
+        { text: 'follows here.', y: 626 },
+      ],
+      [],
+      [{ text: 'Closing words.', y: 720 }],
+    ]);
+
+    const result = await extractPdfFromBuffer(buffer, 'guide.pdf');
+
+    expect(result.text).toBe(
+      'Introduction\n\n' +
+        'Agents read documents\nline by line.\n\n' +
+        'A second paragraph\nfollows here.\n\n' +
+        'Closing words.'
+    );
+    expect(result.metadata).toEqual({ pageCount: 3 });
+    // The empty second page has no range
+    const [firstPage, thirdPage] = result.pages!;
+    expect(result.pages).toHaveLength(2);
+    expect(firstPage.pageNumber).toBe(1);
+    expect(result.text.slice(firstPage.startOffset, firstPage.endOffset)).toMatch(
+      /^Introduction\n[\s\S]*follows here\.$/
+    );
+    expect(thirdPage.pageNumber).toBe(3);
+    expect(result.text.slice(thirdPage.startOffset, thirdPage.endOffset)).toBe('Closing words.');
+  });
+
+  it('should read the info dictionary and place bookmarks as headings', async () => {
+    const buffer = createPdfBuffer(
+      [
+        [
+          { text: 'Getting Started', y: 720, size: 18 },
+          { text: 'Install the plugin first.', y: 690 },
+          { text: 'Configuration', y: 640, size: 18 },
+          { text: 'Set the environment variables.', y: 610 },
+        ],
+        [{ text: 'Call the service from an action.', y: 720 }],
+      ],
+      {
+        info: {
+          Title: 'Knowledge Plugin   Guide',
+          Author: 'Jane Doe',
+          Subject: 'Setup',
+          CreationDate: "D:20240105123000+01'00'",
+        },
+        bookmarks: [
+          {
+            title: 'Setup',
+            page: 1,
+            children: [
+              { title: 'Getting Started', page: 1, top: 740 },
+              { title: 'Configuration', page: 1, top: 660 },
+            ],
+          },
+          { title: 'Usage', page: 2 },
+        ],
+      }
+    );
+
+    const result = await extractPdfFromBuffer(buffer, 'guide.pdf');
+
+    expect(result.metadata).toEqual({
+      title: 'Knowledge Plugin Guide',
+      author: 'Jane Doe',
+      subject: 'Setup',
+      creationDate: '2024-01-05T11:30:00.000Z',
+      pageCount: 2,
+      outline: [
+        {
+          title: 'Setup',
+          pageNumber: 1,
+          items: [
+            { title: 'Getting Started', pageNumber: 1 },
+            { title: 'Configuration', pageNumber: 1 },
+          ],
+        },
+        { title: 'Usage', pageNumber: 2 },
+      ],
+    });
+    expect(
+      result.headings!.map((heading) => [heading.path, result.text.slice(heading.startOffset)])
+    ).toEqual([
+      [['Setup'], expect.stringMatching(/^Getting Started/)],
+      [['Setup', 'Getting Started'], expect.stringMatching(/^Getting Started/)],
+      [['Setup', 'Configuration'], expect.stringMatching(/^Configuration/)],
+      [['Usage'], 'Call the service from an action.'],
+    ]);
+  });
+
+  it('should leave out metadata and headings the PDF does not have', async () => {
+    const result = await extractPdfFromBuffer(createPdfBuffer([[{ text: 'Plain.', y: 720 }]]));
+
+    expect(result.metadata).toEqual({ pageCount: 1 });
+    expect(result.headings).toBeUndefined();
+  });
+
+  describe('with OCR', () => {
+    afterEach(() => registerOcrAdapter(null));
+
+    it('should read pages without a text layer with the OCR adapter', async () => {
+      const recognize = vi.fn(async () => ({
+        text: 'Scanned heading\n\nScanned body\ntext.',
+        confidence: 0.87,
+      }));
+      registerOcrAdapter({ name: 'fake-ocr', recognize });
+      const buffer = createPdfBuffer([[{ text: 'Typed page.', y: 720 }], []]);
+
+      const result = await extractPdfFromBuffer(buffer, 'mixed.pdf');
+
+      expect(recognize).toHaveBeenCalledTimes(1);
+      expect(recognize.mock.calls[0][1]).toMatchObject({ mimeType: 'image/png' });
+      expect(result.text).toBe('Typed page.\n\nScanned heading\n\nScanned body\ntext.');
+      expect(result.pages![1]).toMatchObject({ pageNumber: 2, ocrConfidence: 0.87 });
+      expect(result.metadata).toMatchObject({
+        ocrEngine: 'fake-ocr',
+        ocrPages: [{ pageNumber: 2, confidence: 0.87 }],
+      });
+    });
+
+    it('should skip scanned pages when OCR is unavailable', async () => {
+      const recognize = vi.fn();
+      registerOcrAdapter({ name: 'missing-ocr', recognize, isAvailable: async () => false });
+
+      const result = await extractPdfFromBuffer(createPdfBuffer([[], []]), 'scan.pdf');
+
+      expect(recognize).not.toHaveBeenCalled();
+      expect(result.text).toBe('');
+      expect(result.metadata).toEqual({ pageCount: 2 });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import { extractPresentationFromBuffer, isPresentationFile } from '../src/presentation';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const NS =
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const shape = (placeholderType: string | null, ...paragraphs: string[]) =>
+  `<p:sp><p:nvSpPr><p:nvPr>${placeholderType ? `<p:ph type="${placeholderType}"/>` : ''}</p:nvPr></p:nvSpPr>` +
+  `<p:txBody>${paragraphs.map((text) => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`).join('')}</p:txBody></p:sp>`;
+
+async function createPresentationBuffer(): Promise<Buffer> {
+  const zip = new JSZip();
+  // Slide files are deliberately listed out of order to check the sldIdLst ordering
+  zip.file(
+    'ppt/presentation.xml',
+    `<p:presentation ${NS}><p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId1"/></p:sldIdLst></p:presentation>`
+  );
+  zip.file(
+    'ppt/_rels/presentation.xml.rels',
+    '<Relationships>' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide2.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide1.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'ppt/slides/slide1.xml',
+    `<p:sld ${NS}><p:cSld><p:spTree>${shape('ctrTitle', 'Quarterly Review')}${shape(null, 'Revenue grew', 'Costs fell')}${shape('sldNum', '1')}</p:spTree></p:cSld></p:sld>`
+  );
+  zip.file(
+    'ppt/slides/_rels/slide1.xml.rels',
+    '<Relationships><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide" Target="../notesSlides/notesSlide1.xml"/></Relationships>'
+  );
+  zip.file(
+    'ppt/notesSlides/notesSlide1.xml',
+    `<p:notes ${NS}><p:cSld><p:spTree>${shape('body', 'Mention the new hires')}${shape('sldNum', '1')}</p:spTree></p:cSld></p:notes>`
+  );
+  zip.file(
+    'ppt/slides/slide2.xml',
+    `<p:sld ${NS}><p:cSld><p:spTree>${shape('title', 'Pricing')}` +
+      '<p:graphicFrame><a:graphic><a:graphicData><a:tbl>' +
+      '<a:tr><a:tc><a:txBody><a:p><a:r><a:t>Plan</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>Price</a:t></a:r></a:p></a:txBody></a:tc></a:tr>' +
+      '<a:tr><a:tc><a:txBody><a:p><a:r><a:t>Pro</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>$20</a:t></a:r></a:p></a:txBody></a:tc></a:tr>' +
+      '</a:tbl></a:graphicData></a:graphic></p:graphicFrame>' +
+      '</p:spTree></p:cSld></p:sld>'
+  );
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('isPresentationFile', () => {
+  it('should detect PPTX files by content type or extension', () => {
+    expect(
+      isPresentationFile(
+        'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        'deck'
+      )
+    ).toBe(true);
+    expect(isPresentationFile('application/octet-stream', 'Deck.PPTX')).toBe(true);
+    expect(isPresentationFile('application/pdf', 'deck.pdf')).toBe(false);
+  });
+});
+
+describe('extractPresentationFromBuffer', () => {
+  it('should extract titles, body text, tables and notes per slide in presentation order', async () => {
+    const result = await extractPresentationFromBuffer(
+      await createPresentationBuffer(),
+      'deck.pptx'
+    );
+
+    expect(result.metadata).toEqual({ slideCount: 2 });
+    expect(result.sections).toEqual([
+      {
+        text: 'Slide 1: Quarterly Review\nRevenue grew\nCosts fell\nSpeaker notes: Mention the new hires',
+        metadata: { slideNumber: 1, slideTitle: 'Quarterly Review', hasSpeakerNotes: true },
+      },
+      {
+        text: 'Slide 2: Pricing\nPlan | Price\nPro | $20',
+        metadata: { slideNumber: 2, slideTitle: 'Pricing', hasSpeakerNotes: false },
+      },
+    ]);
+  });
+
+  it('should reject archives without a presentation part', async () => {
+    const zip = new JSZip();
+    zip.file('word/document.xml', '<w:document/>');
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    await expect(extractPresentationFromBuffer(buffer, 'not-a-deck.pptx')).rejects.toThrow(
+      'ppt/presentation.xml'
+    );
+  });
+});
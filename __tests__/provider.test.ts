@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IAgentRuntime, KnowledgeItem, Memory, UUID } from '@elizaos/core';
+import { knowledgeProvider } from '../src/provider';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    success: vi.fn(),
+  },
+  addHeader: (header: string, body: string) => `${header}\n${body}\n`,
+  MemoryType: { DOCUMENT: 'document', FRAGMENT: 'fragment', CUSTOM: 'custom' },
+  ModelType: { TEXT_EMBEDDING: 'TEXT_EMBEDDING', TEXT_LARGE: 'TEXT_LARGE' },
+  Service: class {
+    constructor(protected runtime: unknown) {}
+  },
+  Semaphore: class {},
+  splitChunks: vi.fn(),
+}));
+vi.mock('../src/llm.ts', () => ({ generateText: vi.fn() }));
+
+const items: KnowledgeItem[] = [
+  {
+    id: '00000000-0000-0000-0000-000000000011' as UUID,
+    content: {
+      text: 'Orders ship within two days.',
+      context: 'From the shipping policy of the store FAQ.',
+    },
+  },
+  {
+    id: '00000000-0000-0000-0000-000000000012' as UUID,
+    content: { text: 'Returns are free for 30 days.' },
+  },
+];
+
+function createRuntime(settings: Record<string, string> = {}) {
+  const knowledgeService = {
+    getKnowledge: vi.fn(async () => items),
+    setPendingRAGMetadata: vi.fn(),
+    enrichRecentMemoriesWithPendingRAG: vi.fn(),
+  };
+  return {
+    getService: () => knowledgeService,
+    getSetting: (key: string) => settings[key] ?? null,
+  } as unknown as IAgentRuntime;
+}
+
+const message = { content: { text: 'How fast do orders ship?' } } as Memory;
+
+describe('knowledgeProvider', () => {
+  it('should give the agent each fragment with its generated context', async () => {
+    const result = await knowledgeProvider.get(createRuntime(), message, {} as any);
+
+    expect(result.text).toBe(
+      '# Knowledge\n' +
+        '- From the shipping policy of the store FAQ.\n\nOrders ship within two days.\n' +
+        '- Returns are free for 30 days.\n\n'
+    );
+    expect(result.data?.ragMetadata.retrievedFragments[0].contentPreview).toBe(
+      'Orders ship within two days....'
+    );
+  });
+
+  it('should give the agent the original text with KNOWLEDGE_PROVIDER_TEXT=raw', async () => {
+    const runtime = createRuntime({ KNOWLEDGE_PROVIDER_TEXT: 'raw' });
+
+    const result = await knowledgeProvider.get(runtime, message, {} as any);
+
+    expect(result.text).toBe(
+      '# Knowledge\n- Orders ship within two days.\n- Returns are free for 30 days.\n\n'
+    );
+  });
+});
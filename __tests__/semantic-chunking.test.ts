@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IAgentRuntime } from '@elizaos/core';
+import { splitTextSemantically } from '../src/semantic-chunking';
+
+vi.mock('@elizaos/core', () => ({
+  ModelType: { TEXT_EMBEDDING: 'TEXT_EMBEDDING' },
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Embeds each sentence as a direction for its topic, with a little noise from its length
+const createRuntime = () =>
+  ({
+    useModel: vi.fn(async (_type: string, { text }: { text: string }) => {
+      const noise = (text.length % 7) / 100;
+      if (text.includes('cat')) return [1, noise, 0];
+      if (text.includes('bond')) return [noise, 1, 0];
+      return [0, noise, 1];
+    }),
+  }) as unknown as IAgentRuntime;
+
+const cats = Array.from(
+  { length: 6 },
+  (_, i) => `The cat number ${i} sleeps on the warm windowsill all afternoon.`
+);
+const bonds = Array.from(
+  { length: 6 },
+  (_, i) => `Government bond yield ${i} rose after the central bank meeting.`
+);
+const gardens = Array.from(
+  { length: 6 },
+  (_, i) => `Tomato plant ${i} in the garden needs water every single morning.`
+);
+
+describe('splitTextSemantically', () => {
+  it('should place chunk boundaries where the topic changes', async () => {
+    const text = [...cats, ...bonds, ...gardens].join(' ');
+    const runtime = createRuntime();
+
+    const chunks = await splitTextSemantically(runtime, text, {
+      maxChunkSize: 500,
+      minChunkSize: 20,
+      breakpointPercentile: 15,
+    });
+
+    expect(chunks).toEqual([cats.join(' '), bonds.join(' '), gardens.join(' ')]);
+    expect(runtime.useModel).toHaveBeenCalledTimes(18);
+  });
+
+  it('should respect the maximum and minimum chunk sizes', async () => {
+    const text = [...cats, ...cats, bonds[0], ...cats].join(' ');
+
+    const chunks = await splitTextSemantically(createRuntime(), text, {
+      maxChunkSize: 100,
+      minChunkSize: 40,
+      breakpointPercentile: 10,
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(350);
+      expect(text).toContain(chunk);
+    }
+    // Only the last chunk may stay short, when the one before has no room for it
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.length).toBeGreaterThanOrEqual(140);
+    }
+    expect(chunks.join(' ')).toBe(text);
+  });
+
+  it('should cut sentences longer than the maximum size at whitespace', async () => {
+    const text = 'word '.repeat(200).trim();
+
+    const chunks = await splitTextSemantically(createRuntime(), text, {
+      maxChunkSize: 50,
+      minChunkSize: 10,
+      breakpointPercentile: 10,
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.length <= 175 && !chunk.startsWith(' '))).toBe(true);
+  });
+
+  it('should fail when the embedding model returns nothing', async () => {
+    const runtime = { useModel: vi.fn(async () => []) } as unknown as IAgentRuntime;
+
+    await expect(
+      splitTextSemantically(runtime, 'First sentence. Second sentence.', {
+        maxChunkSize: 500,
+        minChunkSize: 10,
+        breakpointPercentile: 10,
+      })
+    ).rejects.toThrow('Empty embedding');
+  });
+});
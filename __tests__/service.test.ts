@@ -0,0 +1,449 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Buffer } from 'node:buffer';
+import JSZip from 'jszip';
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import { KnowledgeService } from '../src/service';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    success: vi.fn(),
+  },
+  MemoryType: { DOCUMENT: 'document', FRAGMENT: 'fragment', CUSTOM: 'custom' },
+  ModelType: { TEXT_EMBEDDING: 'TEXT_EMBEDDING', TEXT_LARGE: 'TEXT_LARGE' },
+  Service: class {
+    constructor(protected runtime: unknown) {}
+  },
+  Semaphore: class {},
+  // Packs whole paragraphs into chunks of up to `chunkSize` tokens, like the real splitter
+  splitChunks: vi.fn(async (text: string, chunkSize: number) => {
+    const chunks: string[] = [];
+    for (const paragraph of text.split(/\n{2,}/)) {
+      const last = chunks.length - 1;
+      if (last >= 0 && chunks[last].length + 2 + paragraph.length <= chunkSize * 3.5) {
+        chunks[last] += `\n\n${paragraph}`;
+      } else {
+        chunks.push(paragraph);
+      }
+    }
+    return chunks;
+  }),
+}));
+vi.mock('../src/llm.ts', () => ({ generateText: vi.fn() }));
+
+const AGENT_ID = '00000000-0000-0000-0000-000000000001' as UUID;
+
+/**
+ * An agent runtime that keeps memories in per-table maps and embeds text by its length
+ */
+function createRuntime(settings: Record<string, string> = {}) {
+  const tables = new Map<string, Map<string, Memory>>();
+  const getTable = (tableName: string) => {
+    if (!tables.has(tableName)) {
+      tables.set(tableName, new Map());
+    }
+    return tables.get(tableName)!;
+  };
+
+  const runtime = {
+    agentId: AGENT_ID,
+    character: { name: 'Test agent' },
+    getSetting: (key: string) => settings[key] ?? null,
+    useModel: vi.fn(async (_type: string, params: { text: string }) => [params.text.length, 1]),
+    createMemory: vi.fn(async (memory: Memory, tableName: string) => {
+      getTable(tableName).set(memory.id!, memory);
+      return memory.id;
+    }),
+    getMemoryById: vi.fn(async (id: UUID) => {
+      for (const table of tables.values()) {
+        if (table.has(id)) {
+          return table.get(id);
+        }
+      }
+      return null;
+    }),
+    // Like the SQL adapter, deleting a memory does not touch memories that refer to it
+    deleteMemory: vi.fn(async (id: UUID) => {
+      for (const table of tables.values()) {
+        table.delete(id);
+      }
+    }),
+    getMemories: vi.fn(
+      async ({
+        tableName,
+        agentId,
+        roomId,
+      }: {
+        tableName: string;
+        agentId?: UUID;
+        roomId?: UUID;
+      }) =>
+        [...getTable(tableName).values()].filter(
+          (memory) =>
+            (!agentId || memory.agentId === agentId) && (!roomId || memory.roomId === roomId)
+        )
+    ),
+    deleteManyMemories: vi.fn(async (ids: UUID[]) => {
+      for (const table of tables.values()) {
+        for (const id of ids) {
+          table.delete(id);
+        }
+      }
+    }),
+    getMemoriesByIds: vi.fn(async (ids: UUID[], tableName: string) =>
+      ids.map((id) => getTable(tableName).get(id)).filter((memory) => memory !== undefined)
+    ),
+    searchMemories: vi.fn(async () => [] as Memory[]),
+  };
+
+  return { runtime: runtime as unknown as IAgentRuntime, getTable };
+}
+
+describe('KnowledgeService.addArchiveKnowledge', () => {
+  it('should decode every text entry exactly once, in its own encoding', async () => {
+    const zip = new JSZip();
+    // Text that happens to be valid base64 must not be decoded a second time
+    zip.file('notes/token.txt', 'SGVsbG8gV29ybGQ=');
+    zip.file('notes/greeting.txt', Buffer.from('Grüße aus Köln', 'latin1'));
+    const archive = await zip.generateAsync({ type: 'nodebuffer' });
+    const { runtime, getTable } = createRuntime();
+    const service = new KnowledgeService(runtime);
+
+    const results = await service.addArchiveKnowledge({
+      clientDocumentId: '' as UUID,
+      contentType: 'application/zip',
+      originalFilename: 'notes.zip',
+      worldId: AGENT_ID,
+      content: archive.toString('base64'),
+    });
+
+    expect(results.map((result) => result.status)).toEqual(['success', 'success']);
+    const documents = [...getTable('documents').values()];
+    const token = documents.find((doc) => doc.metadata?.archivePath === 'notes/token.txt');
+    const greeting = documents.find((doc) => doc.metadata?.archivePath === 'notes/greeting.txt');
+    expect(token?.content.text).toBe('SGVsbG8gV29ybGQ=');
+    expect(greeting?.content.text).toBe('Grüße aus Köln');
+    expect(greeting?.metadata).toMatchObject({
+      archiveFilename: 'notes.zip',
+      encoding: 'windows-1252',
+    });
+  });
+});
+
+describe('KnowledgeService.addKnowledge', () => {
+  const createEmail = (subject: string, messageId: string, body: string) =>
+    [
+      'From: ana@example.com',
+      'To: support@example.com',
+      `Subject: ${subject}`,
+      `Message-ID: <${messageId}@example.com>`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      body,
+      '',
+    ].join('\r\n');
+
+  it('should add a single .eml file as one document', async () => {
+    const { runtime, getTable } = createRuntime();
+    const service = new KnowledgeService(runtime);
+    const email = createEmail('Refund', 'refund-1', 'We decided to refund the order in full.');
+
+    const result = await service.addKnowledge({
+      clientDocumentId: '' as UUID,
+      contentType: 'message/rfc822',
+      originalFilename: 'refund.eml',
+      worldId: AGENT_ID,
+      content: Buffer.from(email).toString('base64'),
+    });
+
+    const documents = [...getTable('documents').values()];
+    expect(documents).toHaveLength(1);
+    expect(documents[0].id).toBe(result.clientDocumentId);
+    expect(documents[0].content.text).toContain('We decided to refund the order in full.');
+    expect(documents[0].metadata).toMatchObject({ subject: 'Refund' });
+    expect(result.fragmentCount).toBe(getTable('knowledge').size);
+    expect(result.fragmentCount).toBeGreaterThan(0);
+  });
+
+  it('should add every message of an .mbox file as its own document', async () => {
+    const { runtime, getTable } = createRuntime();
+    const service = new KnowledgeService(runtime);
+    const mailbox = [
+      'From ana@example.com Tue Mar  4 10:15:00 2025',
+      createEmail('Question', 'question-1', 'Can I get a refund for order 1042?'),
+      'From support@example.com Tue Mar  4 11:00:00 2025',
+      createEmail('Re: Question', 'reply-2', 'Yes, the order will be refunded in full.'),
+    ].join('\r\n');
+
+    const result = await service.addKnowledge({
+      clientDocumentId: '' as UUID,
+      contentType: 'application/mbox',
+      originalFilename: 'support.mbox',
+      worldId: AGENT_ID,
+      content: Buffer.from(mailbox).toString('base64'),
+    });
+
+    const documents = [...getTable('documents').values()];
+    expect(documents.map((document) => document.metadata?.subject)).toEqual([
+      'Question',
+      'Re: Question',
+    ]);
+    expect(documents[0].id).toBe(result.clientDocumentId);
+    const fragments = [...getTable('knowledge').values()];
+    expect(result.fragmentCount).toBe(fragments.length);
+    for (const document of documents) {
+      expect(fragments.some((fragment) => fragment.metadata?.documentId === document.id)).toBe(
+        true
+      );
+    }
+  });
+
+  it('should size table sections by the table chunk size', async () => {
+    const rows = Array.from(
+      { length: 60 },
+      (_, i) => `${i + 1},Product ${i + 1},A reasonably long description of product ${i + 1}`
+    );
+    const csv = ['id,name,description', ...rows].join('\n');
+    const { runtime, getTable } = createRuntime({ TABLE_CHUNK_SIZE: '200' });
+    const service = new KnowledgeService(runtime);
+
+    const { fragmentCount } = await service.addKnowledge({
+      clientDocumentId: '' as UUID,
+      contentType: 'text/csv',
+      originalFilename: 'products.csv',
+      worldId: AGENT_ID,
+      content: csv,
+    });
+
+    const [document] = getTable('documents').values();
+    expect(document.metadata).toMatchObject({ chunkSize: 200, chunkingProfile: 'table' });
+    const fragments = [...getTable('knowledge').values()];
+    expect(fragmentCount).toBe(fragments.length);
+    expect(fragments.length).toBeGreaterThan(1);
+    let nextRow = 2;
+    for (const fragment of fragments) {
+      const [header, ...lines] = fragment.content.text!.split('\n');
+      const { rowStart, rowEnd } = fragment.metadata as { rowStart: number; rowEnd: number };
+      expect(fragment.content.text!.length).toBeLessThanOrEqual(200 * 3.5);
+      expect(header).toBe('id,name,description');
+      expect(rowStart).toBe(nextRow);
+      expect(lines).toEqual(rows.slice(rowStart - 2, rowEnd - 1));
+      nextRow = rowEnd + 1;
+    }
+    expect(nextRow).toBe(rows.length + 2);
+  });
+
+  it('should keep code sections up to a larger code chunk size whole', async () => {
+    const body = Array.from({ length: 80 }, (_, i) => `  total += values[${i}] * ${i + 1};`);
+    const code = ['function weigh(values) {', '  let total = 0;', ...body, '  return total;', '}']
+      .join('\n')
+      .concat('\n');
+    const { runtime, getTable } = createRuntime({ CODE_CHUNK_SIZE: '1000' });
+    const service = new KnowledgeService(runtime);
+
+    await service.addKnowledge({
+      clientDocumentId: '' as UUID,
+      contentType: 'text/javascript',
+      originalFilename: 'weigh.js',
+      worldId: AGENT_ID,
+      content: code,
+    });
+
+    // Longer than the default chunk size, so only the code chunk size keeps it in one fragment
+    expect(code.length).toBeGreaterThan(500 * 3.5);
+    const fragments = [...getTable('knowledge').values()];
+    expect(fragments).toHaveLength(1);
+    expect(fragments[0].content.text).toContain('function weigh(values) {');
+    expect(fragments[0].content.text).toContain('return total;');
+  });
+});
+
+describe('parent-document retrieval', () => {
+  // Eight paragraphs of about 300 characters: one child each, three to a parent window
+  const paragraphs = Array.from({ length: 8 }, (_, i) =>
+    `Paragraph ${i + 1}. `.concat('The quick brown fox jumps over the lazy dog. '.repeat(6)).trim()
+  );
+  const settings = { CHUNK_SIZE: '100', CHUNK_OVERLAP: '0', PARENT_CHUNK_SIZE: '300' };
+
+  async function addParentDocument() {
+    const { runtime, getTable } = createRuntime(settings);
+    const service = new KnowledgeService(runtime);
+    const { clientDocumentId } = await service.addKnowledge({
+      clientDocumentId: '' as UUID,
+      contentType: 'text/plain',
+      originalFilename: 'fox.txt',
+      worldId: AGENT_ID,
+      content: paragraphs.join('\n\n'),
+    });
+    const parents = [...getTable('knowledge_parents').values()].sort(
+      (a, b) => (a.metadata as any).position - (b.metadata as any).position
+    );
+    const children = [...getTable('knowledge').values()];
+    const getChildren = (parent: Memory) =>
+      children.filter((child) => (child.metadata as any).parentId === parent.id);
+    return { runtime, service, getTable, clientDocumentId, parents, getChildren };
+  }
+
+  it('should store parent windows in knowledge_parents and embed only their children', async () => {
+    const { runtime, clientDocumentId, parents, getChildren } = await addParentDocument();
+
+    expect(parents.map((parent) => parent.content.text)).toEqual([
+      paragraphs.slice(0, 3).join('\n\n'),
+      paragraphs.slice(3, 6).join('\n\n'),
+      paragraphs.slice(6).join('\n\n'),
+    ]);
+    for (const [position, parent] of parents.entries()) {
+      expect(parent.metadata).toMatchObject({ documentId: clientDocumentId, position });
+      expect(parent.embedding).toBeUndefined();
+      const children = getChildren(parent);
+      expect(children.map((child) => child.content.text).join('\n\n')).toBe(parent.content.text);
+      for (const child of children) {
+        expect(child.metadata).toMatchObject({ documentId: clientDocumentId });
+        expect(child.embedding).toBeDefined();
+      }
+    }
+    const embeddedTexts = vi
+      .mocked(runtime.useModel)
+      .mock.calls.map(([, params]) => (params as { text: string }).text);
+    expect(embeddedTexts).not.toContain(parents[0].content.text);
+  });
+
+  it('should return each parent once, at the rank of its best child', async () => {
+    const { runtime, service, parents, getChildren } = await addParentDocument();
+    const [first, second] = parents;
+    const matches = [
+      { ...getChildren(second)[1], similarity: 0.9 },
+      { ...getChildren(first)[0], similarity: 0.8 },
+      { ...getChildren(second)[0], similarity: 0.7 },
+      { ...getChildren(first)[2], similarity: 0.6 },
+    ];
+    vi.mocked(runtime.searchMemories).mockResolvedValue(matches);
+
+    const results = await service.getKnowledge({
+      id: AGENT_ID,
+      content: { text: 'lazy dog' },
+    } as Memory);
+
+    expect(results.map((result) => result.id)).toEqual([second.id, first.id]);
+    expect(results.map((result) => result.content.text)).toEqual([
+      second.content.text,
+      first.content.text,
+    ]);
+    expect(results.map((result) => (result as { similarity?: number }).similarity)).toEqual([
+      0.9, 0.8,
+    ]);
+    expect(results[0].metadata).toMatchObject({
+      parentId: second.id,
+      fragmentId: matches[0].id,
+      matchedFragmentIds: [matches[0].id, matches[2].id],
+    });
+    expect(results[1].metadata).toMatchObject({
+      parentId: first.id,
+      fragmentId: matches[1].id,
+      matchedFragmentIds: [matches[1].id, matches[3].id],
+    });
+  });
+
+  it('should fall back to the matching child when its parent is missing', async () => {
+    const { runtime, service, getTable, parents, getChildren } = await addParentDocument();
+    const [first, , last] = parents;
+    getTable('knowledge_parents').delete(last.id!);
+    const orphan = getChildren(last)[0];
+    const matches = [
+      { ...orphan, similarity: 0.9 },
+      { ...getChildren(first)[0], similarity: 0.8 },
+    ];
+    vi.mocked(runtime.searchMemories).mockResolvedValue(matches);
+
+    const results = await service.getKnowledge({
+      id: AGENT_ID,
+      content: { text: 'lazy dog' },
+    } as Memory);
+
+    expect(results.map((result) => result.id)).toEqual([orphan.id, first.id]);
+    expect(results[0].content.text).toBe(orphan.content.text);
+    expect(results[0].metadata).toEqual(orphan.metadata);
+    expect(results[1].content.text).toBe(first.content.text);
+  });
+});
+
+describe('KnowledgeService._internalAddKnowledge', () => {
+  const DOCUMENT_ID = '00000000-0000-0000-0000-000000000021' as UUID;
+  const OTHER_DOCUMENT_ID = '00000000-0000-0000-0000-000000000022' as UUID;
+  const settings = { CHUNK_SIZE: '100', CHUNK_OVERLAP: '0', PARENT_CHUNK_SIZE: '300' };
+  const createText = (topic: string) =>
+    Array.from({ length: 4 }, (_, i) =>
+      `${topic} ${i + 1}. `.concat(`Everything there is to know about ${topic}. `.repeat(6)).trim()
+    ).join('\n\n');
+
+  const getDocumentMemories = (table: Map<string, Memory>, documentId: UUID) =>
+    [...table.values()].filter((memory) => memory.metadata?.documentId === documentId);
+
+  it('should store a text item as a document with fragments', async () => {
+    const { runtime, getTable } = createRuntime();
+    const service = new KnowledgeService(runtime);
+
+    await service._internalAddKnowledge(
+      { id: DOCUMENT_ID, content: { text: createText('Apples') } },
+      { targetTokens: 100, overlap: 0 }
+    );
+
+    const document = getTable('documents').get(DOCUMENT_ID);
+    expect(document?.content.text).toBe(createText('Apples'));
+    expect(document?.metadata).toMatchObject({ chunkSize: 100, chunkOverlap: 0 });
+    const fragments = getDocumentMemories(getTable('knowledge'), DOCUMENT_ID);
+    expect(fragments.map((fragment) => fragment.content.text)).toEqual(
+      createText('Apples').split('\n\n')
+    );
+  });
+
+  it('should replace the fragments and parent windows of knowledge that is added again', async () => {
+    const { runtime, getTable } = createRuntime(settings);
+    const service = new KnowledgeService(runtime);
+    await service._internalAddKnowledge({
+      id: OTHER_DOCUMENT_ID,
+      content: { text: createText('Pears') },
+    });
+    await service._internalAddKnowledge({
+      id: DOCUMENT_ID,
+      content: { text: createText('Apples') },
+    });
+    const otherFragments = getDocumentMemories(getTable('knowledge'), OTHER_DOCUMENT_ID);
+    const otherParents = getDocumentMemories(getTable('knowledge_parents'), OTHER_DOCUMENT_ID);
+
+    await service._internalAddKnowledge({
+      id: DOCUMENT_ID,
+      content: { text: createText('Bananas') },
+    });
+
+    expect(getTable('documents').get(DOCUMENT_ID)?.content.text).toBe(createText('Bananas'));
+    const fragments = getDocumentMemories(getTable('knowledge'), DOCUMENT_ID);
+    expect(fragments.map((fragment) => fragment.content.text)).toEqual(
+      createText('Bananas').split('\n\n')
+    );
+    const parents = getDocumentMemories(getTable('knowledge_parents'), DOCUMENT_ID);
+    expect(parents.length).toBeGreaterThan(0);
+    for (const parent of parents) {
+      expect(parent.content.text).toContain('Bananas');
+    }
+    for (const fragment of fragments) {
+      expect(parents.map((parent) => parent.id)).toContain(fragment.metadata?.parentId);
+    }
+    // Only the agent's memories in the document's room are looked through
+    for (const tableName of ['knowledge', 'knowledge_parents']) {
+      expect(runtime.getMemories).toHaveBeenCalledWith({
+        tableName,
+        agentId: AGENT_ID,
+        roomId: AGENT_ID,
+      });
+    }
+    // Other documents keep theirs
+    expect(getDocumentMemories(getTable('knowledge'), OTHER_DOCUMENT_ID)).toEqual(otherFragments);
+    expect(getDocumentMemories(getTable('knowledge_parents'), OTHER_DOCUMENT_ID)).toEqual(
+      otherParents
+    );
+  });
+});
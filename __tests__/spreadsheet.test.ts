@@ -0,0 +1,209 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import { extractSpreadsheetFromBuffer, isSpreadsheetFile } from '../src/spreadsheet';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const columnLetter = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * Builds an XLSX workbook; strings go through the shared string table and the
+ * numbers in `dateColumns` get a date format
+ */
+async function createWorkbookBuffer(
+  sheets: Record<string, unknown[][]>,
+  { dateColumns = [] as number[] } = {}
+): Promise<Buffer> {
+  const zip = new JSZip();
+  const sharedStrings: string[] = [];
+  const sheetEntries = Object.entries(sheets);
+
+  zip.file(
+    'xl/workbook.xml',
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+      sheetEntries
+        .map(([name], i) => `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+        .join('') +
+      '</sheets></workbook>'
+  );
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    '<Relationships>' +
+      sheetEntries
+        .map(
+          (_, i) =>
+            `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+        )
+        .join('') +
+      '</Relationships>'
+  );
+  // Style 1 uses the built-in m/d/yyyy date format
+  zip.file(
+    'xl/styles.xml',
+    '<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>'
+  );
+
+  sheetEntries.forEach(([, rows], i) => {
+    const rowsXml = rows
+      .map((row, r) => {
+        const cells = row
+          .map((value, c) => {
+            const ref = `${columnLetter(c)}${r + 1}`;
+            if (typeof value === 'number') {
+              const style = dateColumns.includes(c) && r > 0 ? ' s="1"' : '';
+              return `<c r="${ref}"${style}><v>${value}</v></c>`;
+            }
+            sharedStrings.push(String(value));
+            return `<c r="${ref}" t="s"><v>${sharedStrings.length - 1}</v></c>`;
+          })
+          .join('');
+        return `<row r="${r + 1}">${cells}</row>`;
+      })
+      .join('');
+    zip.file(
+      `xl/worksheets/sheet${i + 1}.xml`,
+      `<worksheet><sheetData>${rowsXml}</sheetData></worksheet>`
+    );
+  });
+  zip.file(
+    'xl/sharedStrings.xml',
+    `<sst>${sharedStrings.map((text) => `<si><t>${text}</t></si>`).join('')}</sst>`
+  );
+
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('isSpreadsheetFile', () => {
+  it('should detect spreadsheets by content type or extension', () => {
+    expect(
+      isSpreadsheetFile(
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'prices'
+      )
+    ).toBe(true);
+    expect(isSpreadsheetFile('application/octet-stream', 'budget.XLSX')).toBe(true);
+    expect(isSpreadsheetFile('application/octet-stream', 'report.ods')).toBe(true);
+    expect(isSpreadsheetFile('text/csv', 'data.csv')).toBe(false);
+    expect(isSpreadsheetFile('application/vnd.ms-excel', 'legacy.xls')).toBe(false);
+  });
+});
+
+describe('extractSpreadsheetFromBuffer', () => {
+  it('should keep sheet names and column headers with every row', async () => {
+    const buffer = await createWorkbookBuffer({
+      Pricing: [
+        ['Product', 'Price', 'Currency'],
+        ['Widget', 10, 'USD'],
+        ['Gadget', 25, 'EUR'],
+      ],
+      Notes: [['Only a header']],
+    });
+
+    const result = await extractSpreadsheetFromBuffer(buffer, 'prices.xlsx');
+
+    expect(result.metadata).toEqual({ sheetNames: ['Pricing', 'Notes'] });
+    expect(result.sections).toHaveLength(2);
+    expect(result.sections![0].text).toBe(
+      'Sheet: Pricing\n' +
+        'Row 2: Product: Widget | Price: 10 | Currency: USD\n' +
+        'Row 3: Product: Gadget | Price: 25 | Currency: EUR'
+    );
+    expect(result.sections![0].metadata).toEqual({
+      sheet: 'Pricing',
+      rowStart: 2,
+      rowEnd: 3,
+      range: 'Pricing!A2:C3',
+    });
+    expect(result.sections![1].text).toBe('Sheet: Notes\nRow 1: Only a header');
+  });
+
+  it('should split large sheets into row ranges and quote sheet names with spaces', async () => {
+    const rows: unknown[][] = [['Id', 'Description']];
+    for (let i = 1; i <= 200; i++) {
+      rows.push([i, `A reasonably long description for item number ${i}`]);
+    }
+    const buffer = await createWorkbookBuffer({ 'Q1 Data': rows });
+
+    const result = await extractSpreadsheetFromBuffer(buffer, 'data.xlsx');
+    const sections = result.sections!;
+
+    expect(sections.length).toBeGreaterThan(1);
+    expect(sections[0].metadata?.rowStart).toBe(2);
+    expect(sections[sections.length - 1].metadata?.rowEnd).toBe(201);
+    expect(sections[0].metadata?.range).toMatch(/^'Q1 Data'!A2:B\d+$/);
+    for (let i = 1; i < sections.length; i++) {
+      expect(sections[i].metadata?.rowStart).toBe((sections[i - 1].metadata?.rowEnd as number) + 1);
+    }
+  });
+
+  it('should render date-formatted numbers as dates', async () => {
+    const buffer = await createWorkbookBuffer(
+      {
+        Orders: [
+          ['Order', 'Shipped'],
+          ['A-1', 45306],
+        ],
+      },
+      { dateColumns: [1] }
+    );
+
+    const result = await extractSpreadsheetFromBuffer(buffer, 'orders.xlsx');
+
+    expect(result.sections![0].text).toBe('Sheet: Orders\nRow 2: Order: A-1 | Shipped: 2024-01-15');
+  });
+
+  it('should read ODS tables, expanding repeated cells and skipping repeated blank rows', async () => {
+    const cell = (text: string, repeat = 1) =>
+      `<table:table-cell table:number-columns-repeated="${repeat}"><text:p>${text}</text:p></table:table-cell>`;
+    const zip = new JSZip();
+    zip.file('mimetype', 'application/vnd.oasis.opendocument.spreadsheet');
+    zip.file(
+      'content.xml',
+      '<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" ' +
+        'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0" ' +
+        'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0">' +
+        '<office:body><office:spreadsheet><table:table table:name="Stock">' +
+        `<table:table-row>${cell('Item')}${cell('Status')}</table:table-row>` +
+        '<table:table-row table:number-rows-repeated="2"><table:table-cell table:number-columns-repeated="1024"/></table:table-row>' +
+        `<table:table-row>${cell('Bolt')}${cell('In<text:s text:c="2"/>stock')}</table:table-row>` +
+        `<table:table-row table:number-rows-repeated="2">${cell('Nut')}${cell('Sold out')}</table:table-row>` +
+        `<table:table-row>${cell('')}${cell('Pending', 2)}</table:table-row>` +
+        '</table:table></office:spreadsheet></office:body></office:document-content>'
+    );
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    const result = await extractSpreadsheetFromBuffer(buffer, 'stock.ods');
+
+    expect(result.metadata).toEqual({ sheetNames: ['Stock'] });
+    expect(result.sections).toHaveLength(1);
+    expect(result.sections![0].text).toBe(
+      'Sheet: Stock\n' +
+        'Row 4: Item: Bolt | Status: In stock\n' +
+        'Row 5: Item: Nut | Status: Sold out\n' +
+        'Row 6: Item: Nut | Status: Sold out\n' +
+        'Row 7: Status: Pending | Column C: Pending'
+    );
+    expect(result.sections![0].metadata).toEqual({
+      sheet: 'Stock',
+      rowStart: 4,
+      rowEnd: 7,
+      range: 'Stock!A4:C7',
+    });
+  });
+
+  it('should reject legacy .xls workbooks, even when renamed', async () => {
+    const buffer = Buffer.concat([Buffer.from('d0cf11e0a1b11ae1', 'hex'), Buffer.alloc(504)]);
+
+    await expect(extractSpreadsheetFromBuffer(buffer, 'legacy.xlsx')).rejects.toThrow(
+      /save the file as \.xlsx or \.ods/
+    );
+  });
+});
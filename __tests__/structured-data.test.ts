@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parse as parseToml } from 'smol-toml';
+import { extractStructuredDataFromText, isStructuredDataFile } from '../src/structured-data';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('isStructuredDataFile', () => {
+  it('should recognize JSON, YAML and TOML by extension or content type', () => {
+    expect(isStructuredDataFile('text/plain', 'pyproject.toml')).toBe(true);
+    expect(isStructuredDataFile('application/json', 'response')).toBe(true);
+    expect(isStructuredDataFile('text/plain', 'notes.txt')).toBe(false);
+  });
+});
+
+describe('extractStructuredDataFromText', () => {
+  it('should keep a small file in one section', () => {
+    const json = '{"name": "plugin-knowledge", "version": "1.0.0"}';
+
+    expect(extractStructuredDataFromText(json, 'application/json', 'package.json')).toEqual({
+      text: json,
+      sections: [{ text: '{\n  "name": "plugin-knowledge",\n  "version": "1.0.0"\n}' }],
+      metadata: { format: 'json' },
+    });
+  });
+
+  it('should split large subtrees and prefix every section with its path', () => {
+    const services = Object.fromEntries(
+      Array.from({ length: 40 }, (_, i) => [
+        `service${i}`,
+        { image: `registry.example.com/service-${i}:latest`, replicas: i % 3, port: 8000 + i },
+      ])
+    );
+    const config = {
+      version: 3,
+      services,
+      volumes: { data: { driver: 'local' } },
+    };
+
+    const { sections } = extractStructuredDataFromText(
+      JSON.stringify(config),
+      'application/json',
+      'compose.json'
+    );
+
+    expect(sections!.length).toBeGreaterThan(2);
+    for (const section of sections!) {
+      expect(section.text.length).toBeLessThanOrEqual(1750);
+      expect(() => JSON.parse(section.text.replace(/^Path: .*\n/, ''))).not.toThrow();
+    }
+    const serviceSections = sections!.filter(
+      (section) => section.metadata?.jsonPath === 'services'
+    );
+    expect(serviceSections.length).toBeGreaterThan(1);
+    expect(serviceSections[0].text.startsWith('Path: services\n{')).toBe(true);
+    expect(sections![sections!.length - 1].text).toContain('"volumes"');
+  });
+
+  it('should give every OpenAPI operation its own section', () => {
+    const yaml = [
+      'openapi: 3.0.0',
+      'info:',
+      '  title: Users API',
+      '  version: 1.0.0',
+      'paths:',
+      '  /users:',
+      '    parameters:',
+      '      - name: tenant',
+      '        in: header',
+      '    get:',
+      '      operationId: listUsers',
+      '      summary: List users',
+      '    post:',
+      '      operationId: createUser',
+      '      requestBody:',
+      '        required: true',
+    ].join('\n');
+
+    const extracted = extractStructuredDataFromText(yaml, 'text/yaml', 'openapi.yaml');
+
+    expect(extracted.metadata).toEqual({ format: 'yaml', title: 'Users API' });
+    expect(extracted.sections).toEqual([
+      { text: 'openapi: 3.0.0\ninfo:\n  title: Users API\n  version: 1.0.0' },
+      {
+        text: 'Path: paths./users\nparameters:\n  - name: tenant\n    in: header',
+        metadata: { jsonPath: 'paths./users' },
+      },
+      {
+        text: 'Path: paths./users.get\noperationId: listUsers\nsummary: List users',
+        metadata: { jsonPath: 'paths./users.get', operationId: 'listUsers' },
+      },
+      {
+        text: 'Path: paths./users.post\noperationId: createUser\nrequestBody:\n  required: true',
+        metadata: { jsonPath: 'paths./users.post', operationId: 'createUser' },
+      },
+    ]);
+  });
+
+  it('should write TOML sections as TOML', () => {
+    const servers = Array.from(
+      { length: 30 },
+      (_, i) =>
+        `[[servers]]\nname = "server-${i}"\nhost = "10.0.0.${i}"\ndescription = "Application server number ${i} in the primary region"`
+    );
+    const toml = ['title = "Cluster"', '', ...servers].join('\n\n');
+
+    const { sections } = extractStructuredDataFromText(toml, 'text/plain', 'cluster.toml');
+
+    expect(sections![0].text).toBe('title = "Cluster"');
+    expect(sections![1].metadata).toEqual({ jsonPath: 'servers' });
+    expect(sections!.length).toBeGreaterThan(2);
+    expect(sections![1].text).toMatch(/^Path: servers\n\[\[servers\]\]\nname = "server-0"/);
+    for (const section of sections!.slice(1)) {
+      expect(() => parseToml(section.text.replace(/^Path: .*\n/, ''))).not.toThrow();
+    }
+  });
+
+  it('should leave files that do not parse to the text splitter', () => {
+    const broken = '{"name": ';
+    expect(extractStructuredDataFromText(broken, 'application/json', 'broken.json')).toEqual({
+      text: broken,
+    });
+  });
+});
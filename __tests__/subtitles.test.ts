@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractSubtitlesFromText, isSubtitleFile } from '../src/subtitles';
+
+vi.mock('@elizaos/core', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('isSubtitleFile', () => {
+  it('should recognize SRT and WebVTT files by content type or extension', () => {
+    expect(isSubtitleFile('text/vtt', 'captions')).toBe(true);
+    expect(isSubtitleFile('application/octet-stream', 'episode-1.SRT')).toBe(true);
+    expect(isSubtitleFile('text/plain', 'notes.txt')).toBe(false);
+  });
+});
+
+describe('extractSubtitlesFromText', () => {
+  it('should drop cue numbers and styling and merge cues until a long pause', () => {
+    const srt = [
+      '1',
+      '00:00:01,000 --> 00:00:03,500',
+      '<i>Welcome back</i> to the show.',
+      '',
+      '2',
+      '00:00:03,600 --> 00:00:06,000',
+      '{\\an8}Today we talk about',
+      'knowledge bases.',
+      '',
+      '3',
+      '00:00:30,000 --> 00:00:32,250',
+      'After the break: embeddings &amp; search.',
+      '',
+    ].join('\r\n');
+
+    const extracted = extractSubtitlesFromText(srt, 'show.srt');
+
+    expect(extracted.sections).toEqual([
+      {
+        text: 'Welcome back to the show. Today we talk about knowledge bases.',
+        metadata: { startTime: 1, endTime: 6 },
+      },
+      {
+        text: 'After the break: embeddings & search.',
+        metadata: { startTime: 30, endTime: 32.25 },
+      },
+    ]);
+    expect(extracted.metadata).toEqual({ cueCount: 3, duration: 32.25 });
+  });
+
+  it('should group WebVTT cues by speaker and skip headers, notes and repeated captions', () => {
+    const vtt = [
+      'WEBVTT - Weekly sync',
+      '',
+      'NOTE recorded by the meeting bot',
+      '',
+      'cue-1',
+      '00:05.000 --> 00:07.000 align:start',
+      '<v Alice>Let us review the roadmap.</v>',
+      '',
+      '00:07.000 --> 00:09.500',
+      '<v Alice>Search ships next week.</v>',
+      '',
+      '00:09.500 --> 00:09.900',
+      '<v Alice>Search ships next week.</v>',
+      '',
+      '00:10.000 --> 01:02:03.456',
+      'Bob: Sounds good to me.',
+    ].join('\n');
+
+    const extracted = extractSubtitlesFromText(vtt, 'sync.vtt');
+
+    expect(extracted.text).toBe(
+      'Alice: Let us review the roadmap. Search ships next week.\n\nBob: Sounds good to me.'
+    );
+    expect(extracted.sections?.map((section) => section.metadata)).toEqual([
+      { startTime: 5, endTime: 9.5, speaker: 'Alice' },
+      { startTime: 10, endTime: 3723.456, speaker: 'Bob' },
+    ]);
+    expect(extracted.metadata?.speakers).toEqual(['Alice', 'Bob']);
+  });
+
+  it('should reject files without cues', () => {
+    expect(() => extractSubtitlesFromText('WEBVTT\n\nNOTE empty', 'empty.vtt')).toThrow(
+      'No subtitle cues found'
+    );
+  });
+});
@@ -1,5 +1,104 @@
-import { describe, it, expect } from 'vitest';
-import { looksLikeBase64 } from '../src/utils';
+import { describe, it, expect, vi } from 'vitest';
+import { Buffer } from 'node:buffer';
+import { extractTextFromFileBuffer, looksLikeBase64 } from '../src/utils';
+
+vi.mock('@elizaos/core', () => ({
+  logger: { warn: vi.fn(), error: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}));
+
+const SECTOR_SIZE = 512;
+// Streams of at least this size live in regular sectors rather than the mini stream
+const STREAM_SIZE = 4096;
+
+/**
+ * Builds a minimal Word 97 (.doc) compound file holding the given stories as one
+ * UTF-16 text piece: the body, one footnote and one page header.
+ */
+function createWordDocBuffer(stories: { body: string; footnote: string; header: string }) {
+  const body = `${stories.body}\r`;
+  // Every footnote and header story ends with a paragraph mark the reader drops
+  const footnote = `${stories.footnote}\r`;
+  const header = `${stories.header}\r`;
+  const headerStories = `${header}\r`;
+  const text = body + footnote + headerStories;
+
+  const wordDocument = Buffer.alloc(STREAM_SIZE);
+  const textOffset = 0x400;
+  wordDocument.writeUInt16LE(0xa5ec, 0); // FIB magic; flags leave the table in 0Table
+  wordDocument.writeUInt32LE(body.length, 0x4c); // ccpText
+  wordDocument.writeUInt32LE(footnote.length, 0x50); // ccpFtn
+  wordDocument.writeUInt32LE(headerStories.length, 0x54); // ccpHdd
+  wordDocument.write(text, textOffset, 'utf16le');
+
+  const table = Buffer.alloc(STREAM_SIZE);
+  // CLX with a single piece spanning every story
+  table.writeUInt8(0x02, 0);
+  table.writeUInt32LE(16, 1);
+  table.writeUInt32LE(0, 5);
+  table.writeUInt32LE(text.length, 9);
+  table.writeUInt32LE(textOffset, 15);
+  wordDocument.writeUInt32LE(0, 0x1a2); // fcClx
+  // Header story boundaries: six empty separator stories, then the first page header
+  const headerCps = [0, 0, 0, 0, 0, 0, 0, header.length, headerStories.length];
+  const plcfhddOffset = 0x40;
+  headerCps.forEach((cp, i) => table.writeUInt32LE(cp, plcfhddOffset + i * 4));
+  wordDocument.writeUInt32LE(plcfhddOffset, 0xf2);
+  wordDocument.writeUInt32LE(headerCps.length * 4, 0xf6);
+
+  // Sector 0 holds the allocation table, sector 1 the directory, then both streams
+  const streamSectors = STREAM_SIZE / SECTOR_SIZE;
+  const wordDocumentStart = 2;
+  const tableStart = wordDocumentStart + streamSectors;
+  const headerSector = Buffer.alloc(SECTOR_SIZE);
+  Buffer.from('D0CF11E0A1B11AE1', 'hex').copy(headerSector);
+  headerSector.writeUInt16LE(9, 30); // 512-byte sectors
+  headerSector.writeUInt16LE(6, 32); // 64-byte mini sectors
+  headerSector.writeInt32LE(1, 44); // allocation table sectors
+  headerSector.writeInt32LE(1, 48); // directory start
+  headerSector.writeInt32LE(STREAM_SIZE, 56);
+  headerSector.writeInt32LE(-2, 60); // no mini allocation table
+  headerSector.writeInt32LE(-2, 68); // no extra allocation table sectors
+  for (let i = 0; i < 109; i++) {
+    headerSector.writeInt32LE(i === 0 ? 0 : -1, 76 + i * 4);
+  }
+
+  const allocationTable = Buffer.alloc(SECTOR_SIZE, 0xff);
+  allocationTable.writeInt32LE(-3, 0);
+  allocationTable.writeInt32LE(-2, 4);
+  for (const start of [wordDocumentStart, tableStart]) {
+    for (let i = 0; i < streamSectors; i++) {
+      const next = i === streamSectors - 1 ? -2 : start + i + 1;
+      allocationTable.writeInt32LE(next, (start + i) * 4);
+    }
+  }
+
+  const directory = Buffer.alloc(SECTOR_SIZE);
+  const entries = [
+    { name: 'Root Entry', type: 5, right: -1, child: 1, start: -2, size: 0 },
+    {
+      name: 'WordDocument',
+      type: 2,
+      right: 2,
+      child: -1,
+      start: wordDocumentStart,
+      size: STREAM_SIZE,
+    },
+    { name: '0Table', type: 2, right: -1, child: -1, start: tableStart, size: STREAM_SIZE },
+  ];
+  entries.forEach((entry, i) => {
+    const offset = i * 128;
+    directory.write(entry.name, offset, 'utf16le');
+    directory.writeInt16LE((entry.name.length + 1) * 2, offset + 64);
+    directory.writeInt8(entry.type, offset + 66);
+    directory.writeInt32LE(-1, offset + 68);
+    directory.writeInt32LE(entry.right, offset + 72);
+    directory.writeInt32LE(entry.child, offset + 76);
+    directory.writeInt32LE(entry.start, offset + 116);
+    directory.writeInt32LE(entry.size, offset + 120);
+  });
+
+  return Buffer.concat([headerSector, allocationTable, directory, wordDocument, table]);
+}
 
 describe('looksLikeBase64', () => {
   it('should return true for valid base64 strings', () => {
@@ -29,3 +128,21 @@ describe('looksLikeBase64', () => {
     expect(looksLikeBase64('')).toBe(false);
   });
 });
+
+describe('extractTextFromFileBuffer', () => {
+  it('should put the body of a .doc first, followed by its headers and footnotes', async () => {
+    const buffer = createWordDocBuffer({
+      body: 'Quarterly results were strong.',
+      footnote: 'Figures are unaudited.',
+      header: 'Acme Corp Confidential',
+    });
+
+    const text = await extractTextFromFileBuffer(buffer, 'application/msword', 'report.doc');
+
+    expect(text).toBe(
+      ['Quarterly results were strong.', 'Acme Corp Confidential', 'Figures are unaudited.'].join(
+        '\n\n'
+      )
+    );
+  });
+});
@@ -0,0 +1,274 @@
+import { Buffer } from 'node:buffer';
+import { gunzipSync } from 'node:zlib';
+import { logger } from '@elizaos/core';
+import JSZip from 'jszip';
+import * as path from 'path';
+
+export const ZIP_CONTENT_TYPES = ['application/zip', 'application/x-zip-compressed'];
+export const TAR_CONTENT_TYPES = [
+  'application/x-tar',
+  'application/gzip',
+  'application/x-gzip',
+  'application/x-gtar',
+  'application/x-compressed-tar',
+];
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Limits applied while expanding an archive, guarding against zip bombs
+ */
+export interface ArchiveLimits {
+  /** Most file entries an archive may contain */
+  maxEntries: number;
+  /** Largest uncompressed size of a single entry; larger entries are rejected */
+  maxEntryBytes: number;
+  /** Largest uncompressed size of all entries together */
+  maxTotalBytes: number;
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxEntries: 1000,
+  maxEntryBytes: 50 * 1024 * 1024, // 50 MB, the default upload limit
+  maxTotalBytes: 200 * 1024 * 1024, // 200 MB
+};
+
+/**
+ * A file inside an archive: its content, or why it was rejected
+ */
+export interface ArchiveEntry {
+  /** Normalized path within the archive, using forward slashes */
+  path: string;
+  content?: Buffer;
+  error?: string;
+}
+
+/**
+ * Checks whether a file is a zip or (optionally gzipped) tar archive
+ */
+export function isArchiveFile(contentType: string, filename: string): boolean {
+  const lowerContentType = contentType.toLowerCase();
+  return (
+    ZIP_CONTENT_TYPES.includes(lowerContentType) ||
+    TAR_CONTENT_TYPES.includes(lowerContentType) ||
+    /\.(zip|tar|tgz|tar\.gz)$/i.test(filename)
+  );
+}
+
+/**
+ * Expands a zip or tar(.gz) archive in memory.
+ * Directories, links, hidden files and macOS resource forks are left out. Entries whose path
+ * is absolute or climbs out of the archive (zip-slip) and entries above `maxEntryBytes` are
+ * returned with an error instead of content. Archives with more than `maxEntries` files or
+ * expanding to more than `maxTotalBytes` are rejected as a whole.
+ */
+export async function extractArchiveEntries(
+  fileBuffer: Buffer,
+  contentType: string,
+  originalFilename: string,
+  limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS
+): Promise<ArchiveEntry[]> {
+  const isZip =
+    ZIP_CONTENT_TYPES.includes(contentType.toLowerCase()) ||
+    originalFilename.toLowerCase().endsWith('.zip');
+  const entries = isZip
+    ? await extractZipEntries(fileBuffer, limits)
+    : extractTarEntries(fileBuffer, limits);
+
+  logger.debug(
+    `[Archive] ${originalFilename}: ${entries.filter((entry) => entry.content).length}/${entries.length} entries expanded`
+  );
+  return entries;
+}
+
+async function extractZipEntries(
+  fileBuffer: Buffer,
+  limits: ArchiveLimits
+): Promise<ArchiveEntry[]> {
+  const zip = await JSZip.loadAsync(fileBuffer);
+  // JSZip resolves ".." in `name`, so the original name is the one to check for zip-slip
+  const files = Object.values(zip.files).filter(
+    (file) => !file.dir && !isIgnoredPath(file.unsafeOriginalName ?? file.name)
+  );
+  checkEntryCount(files.length, limits);
+
+  const entries: ArchiveEntry[] = [];
+  let totalBytes = 0;
+  for (const file of files) {
+    const rawPath = file.unsafeOriginalName ?? file.name;
+    const entryPath = getSafeEntryPath(rawPath);
+    if (!entryPath) {
+      entries.push({ path: rawPath, error: 'Unsafe path outside the archive' });
+      continue;
+    }
+
+    const content = await readZipEntry(file, limits.maxEntryBytes);
+    if (!content) {
+      entries.push({ path: entryPath, error: `Entry exceeds ${limits.maxEntryBytes} bytes` });
+      continue;
+    }
+    totalBytes += content.length;
+    if (totalBytes > limits.maxTotalBytes) {
+      throw new Error(`Archive expands to more than ${limits.maxTotalBytes} bytes`);
+    }
+    entries.push({ path: entryPath, content });
+  }
+  return entries;
+}
+
+/**
+ * Inflates a zip entry, stopping as soon as it grows past `maxBytes` (returning null) so a
+ * lying size in the zip header cannot exhaust memory
+ */
+function readZipEntry(file: JSZip.JSZipObject, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = file.nodeStream('nodebuffer') as NodeJS.ReadableStream & {
+      destroy(): void;
+    };
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.destroy();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Reads a POSIX (ustar/pax) or GNU tar archive, gunzipping it first when compressed
+ */
+function extractTarEntries(fileBuffer: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+  let tar = fileBuffer;
+  if (fileBuffer[0] === 0x1f && fileBuffer[1] === 0x8b) {
+    try {
+      // Leave room for a header and padding block per entry on top of the file contents
+      const maxOutputLength = limits.maxTotalBytes + (limits.maxEntries + 1) * TAR_BLOCK_SIZE * 2;
+      tar = gunzipSync(fileBuffer, { maxOutputLength });
+    } catch (error: any) {
+      if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error(`Archive expands to more than ${limits.maxTotalBytes} bytes`);
+      }
+      throw error;
+    }
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let totalBytes = 0;
+  let offset = 0;
+  let longPath: string | undefined;
+  while (offset + TAR_BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break; // End-of-archive marker
+    }
+
+    const size = parseOctal(header.subarray(124, 136));
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    if (Number.isNaN(size) || dataStart + size > tar.length) {
+      throw new Error('Truncated or invalid tar archive');
+    }
+    const data = tar.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    // GNU long names and pax headers carry the path of the entry that follows
+    if (type === 'L') {
+      longPath = readString(data);
+      continue;
+    }
+    if (type === 'x') {
+      longPath = readPaxPath(data) ?? longPath;
+      continue;
+    }
+
+    const rawPath = longPath ?? getHeaderPath(header);
+    longPath = undefined;
+    // Regular files only: no directories, links or devices
+    if (!['0', '7'].includes(type) || isIgnoredPath(rawPath)) {
+      continue;
+    }
+
+    checkEntryCount(entries.length + 1, limits);
+    totalBytes += size;
+    if (totalBytes > limits.maxTotalBytes) {
+      throw new Error(`Archive expands to more than ${limits.maxTotalBytes} bytes`);
+    }
+    const entryPath = getSafeEntryPath(rawPath);
+    if (!entryPath) {
+      entries.push({ path: rawPath, error: 'Unsafe path outside the archive' });
+    } else if (size > limits.maxEntryBytes) {
+      entries.push({ path: entryPath, error: `Entry exceeds ${limits.maxEntryBytes} bytes` });
+    } else {
+      entries.push({ path: entryPath, content: Buffer.from(data) });
+    }
+  }
+  return entries;
+}
+
+function getHeaderPath(header: Buffer): string {
+  const name = readString(header.subarray(0, 100));
+  // ustar splits long paths into a prefix and a name
+  const isUstar = readString(header.subarray(257, 263)) === 'ustar';
+  const prefix = isUstar ? readString(header.subarray(345, 500)) : '';
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+/**
+ * Reads the `path` record of a pax extended header ("<length> path=<value>\n" records)
+ */
+function readPaxPath(data: Buffer): string | undefined {
+  const records = data.toString('utf8').split('\n');
+  const pathRecord = records.find((record) => /^\d+ path=/.test(record));
+  return pathRecord?.slice(pathRecord.indexOf('=') + 1);
+}
+
+function readString(data: Buffer): string {
+  const end = data.indexOf(0);
+  return data.subarray(0, end === -1 ? data.length : end).toString('utf8');
+}
+
+function parseOctal(data: Buffer): number {
+  const text = readString(data).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function checkEntryCount(count: number, limits: ArchiveLimits): void {
+  if (count > limits.maxEntries) {
+    throw new Error(`Archive has more than ${limits.maxEntries} files`);
+  }
+}
+
+/**
+ * Directories and files never worth indexing: hidden ones and macOS resource forks
+ */
+function isIgnoredPath(entryPath: string): boolean {
+  return entryPath
+    .split(/[\\/]/)
+    .some(
+      (segment) =>
+        segment === '__MACOSX' || (segment.startsWith('.') && segment !== '..' && segment !== '.')
+    );
+}
+
+/**
+ * Normalizes an entry path, or returns null when it is absolute or points outside the archive
+ */
+function getSafeEntryPath(entryPath: string): string | null {
+  const normalized = path.posix.normalize(entryPath.replace(/\\/g, '/'));
+  if (
+    normalized.startsWith('/') ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    normalized === '..' ||
+    normalized.startsWith('../')
+  ) {
+    return null;
+  }
+  return normalized.replace(/^\.\//, '');
+}
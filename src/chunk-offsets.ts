@@ -0,0 +1,107 @@
+/**
+ * A character range within a document's extracted text (end exclusive)
+ */
+export interface ChunkOffset {
+  startOffset: number;
+  endOffset: number;
+}
+
+// Shorter lines (a closing brace, a blank cell) are too common to anchor a chunk on
+const MIN_ANCHOR_LINE_CHARS = 8;
+// A chunk located by its lines may not span much more text than the chunk itself
+const MAX_ANCHORED_SPAN_RATIO = 2;
+
+/**
+ * Locates each chunk within the text it was split from.
+ * Chunks are in document order and may overlap, so each search starts just after the
+ * previous chunk's start. A chunk that is not a verbatim slice of the text (e.g. a CSV section
+ * with its header row repeated, or code with normalized line endings) is located by the first
+ * and last of its lines that are found in the text. Chunks that cannot be found get null.
+ *
+ * @param text The text the chunks came from
+ * @param chunks The chunks in text order
+ * @param searchFrom Offset to start searching at
+ * @returns The range of every chunk, or null for chunks that could not be located
+ */
+export function getChunkOffsets(
+  text: string,
+  chunks: string[],
+  searchFrom = 0
+): Array<ChunkOffset | null> {
+  return chunks.map((chunk) => {
+    const offset = locateChunk(text, chunk, searchFrom);
+    if (offset) {
+      searchFrom = offset.startOffset + 1;
+    }
+    return offset;
+  });
+}
+
+function locateChunk(text: string, chunk: string, searchFrom: number): ChunkOffset | null {
+  const startOffset = text.indexOf(chunk, searchFrom);
+  if (startOffset !== -1) {
+    return { startOffset, endOffset: startOffset + chunk.length };
+  }
+
+  const lines = chunk
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length >= MIN_ANCHOR_LINE_CHARS);
+  let start: ChunkOffset | null = null;
+  let firstIndex = 0;
+  for (; firstIndex < lines.length && !start; firstIndex++) {
+    const index = text.indexOf(lines[firstIndex], searchFrom);
+    if (index !== -1) {
+      start = { startOffset: index, endOffset: index + lines[firstIndex].length };
+    }
+  }
+  if (!start) {
+    return null;
+  }
+
+  for (let i = lines.length - 1; i >= firstIndex; i--) {
+    const index = text.indexOf(lines[i], start.endOffset);
+    if (index !== -1) {
+      const endOffset = index + lines[i].length;
+      if (endOffset - start.startOffset <= chunk.length * MAX_ANCHORED_SPAN_RATIO) {
+        return { startOffset: start.startOffset, endOffset };
+      }
+    }
+  }
+  // Only one line was found; it still anchors the chunk when it is most of it
+  return start.endOffset - start.startOffset >= chunk.trim().length / MAX_ANCHORED_SPAN_RATIO
+    ? start
+    : null;
+}
+
+/**
+ * Creates a lookup from character offsets to the 1-based lines of a text
+ */
+export function createLineLocator(text: string): (offset: ChunkOffset) => {
+  startLine: number;
+  endLine: number;
+} {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  const getLine = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low + 1;
+  };
+  return ({ startOffset, endOffset }) => ({
+    startLine: getLine(startOffset),
+    endLine: getLine(Math.max(startOffset, endOffset - 1)),
+  });
+}
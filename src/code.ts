@@ -0,0 +1,710 @@
+import { logger } from '@elizaos/core';
+import { DEFAULT_CHARS_PER_TOKEN, DEFAULT_CHUNK_TOKEN_SIZE } from './ctx-embeddings.ts';
+import type { DocumentSection, ExtractedDocument } from './types.ts';
+
+// How many lines a declaration's signature may span before its body opens
+const MAX_SIGNATURE_LINES = 25;
+
+type SymbolKind =
+  | 'class'
+  | 'interface'
+  | 'struct'
+  | 'enum'
+  | 'trait'
+  | 'impl'
+  | 'module'
+  | 'function'
+  | 'method';
+
+// Kinds whose direct members are methods
+const CONTAINER_KINDS = new Set<SymbolKind>([
+  'class',
+  'interface',
+  'struct',
+  'enum',
+  'trait',
+  'impl',
+  'module',
+]);
+// Words that look like a call or declaration name in a member position but are statements
+const KEYWORDS = new Set([
+  'if',
+  'for',
+  'foreach',
+  'while',
+  'switch',
+  'catch',
+  'return',
+  'new',
+  'throw',
+  'else',
+  'do',
+  'try',
+  'using',
+  'lock',
+  'synchronized',
+  'when',
+  'match',
+]);
+
+interface SymbolPattern {
+  kind: SymbolKind;
+  /** The symbol name is the first capture group */
+  regex: RegExp;
+  /** Only matches directly inside a class-like symbol (methods) */
+  memberOnly?: boolean;
+}
+
+interface LanguageSyntax {
+  language: string;
+  /** How a symbol's extent is found: matching braces, indentation, or a closing `end` */
+  blocks: 'braces' | 'indent' | 'end';
+  patterns: SymbolPattern[];
+}
+
+interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  /** 0-based line of the declaration, moved up over its doc comment and decorators */
+  start: number;
+  /** 0-based last line, inclusive */
+  end: number;
+  children: CodeSymbol[];
+}
+
+const JS_MODIFIERS =
+  '(?:(?:public|private|protected|static|async|readonly|override|abstract|get|set|declare)\\s+)*';
+const JVM_MODIFIERS =
+  '(?:(?:public|private|protected|internal|static|final|abstract|synchronized|override|virtual|sealed|async|open|suspend|inline|partial|extern|unsafe)\\s+)*';
+
+const JAVASCRIPT: LanguageSyntax = {
+  language: 'javascript',
+  blocks: 'braces',
+  patterns: [
+    {
+      kind: 'class',
+      regex: /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/,
+    },
+    {
+      kind: 'interface',
+      regex: /^\s*(?:export\s+)?(?:declare\s+)?interface\s+([A-Za-z_$][\w$]*)/,
+    },
+    {
+      kind: 'enum',
+      regex: /^\s*(?:export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)/,
+    },
+    {
+      kind: 'module',
+      regex: /^\s*(?:export\s+)?(?:declare\s+)?(?:namespace|module)\s+([A-Za-z_$][\w$.]*)/,
+    },
+    {
+      kind: 'function',
+      regex: /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/,
+    },
+    {
+      kind: 'function',
+      regex:
+        /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\((?:[^)]*\)\s*(?::[^=]+)?=>|[^)]*$)|[A-Za-z_$][\w$]*\s*=>)/,
+    },
+    {
+      kind: 'method',
+      regex: new RegExp(`^\\s*${JS_MODIFIERS}\\*?\\s*([A-Za-z_$#][\\w$]*)\\s*(?:<[^>]*>)?\\s*\\(`),
+      memberOnly: true,
+    },
+  ],
+};
+
+const PYTHON: LanguageSyntax = {
+  language: 'python',
+  blocks: 'indent',
+  patterns: [
+    { kind: 'class', regex: /^\s*class\s+([A-Za-z_]\w*)/ },
+    { kind: 'function', regex: /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/ },
+  ],
+};
+
+const RUBY: LanguageSyntax = {
+  language: 'ruby',
+  blocks: 'end',
+  patterns: [
+    { kind: 'class', regex: /^\s*class\s+([A-Z][\w:]*)/ },
+    { kind: 'module', regex: /^\s*module\s+([A-Z][\w:]*)/ },
+    { kind: 'function', regex: /^\s*def\s+((?:self\.)?[A-Za-z_]\w*[?!=]?)/ },
+  ],
+};
+
+const GO: LanguageSyntax = {
+  language: 'go',
+  blocks: 'braces',
+  patterns: [
+    { kind: 'struct', regex: /^type\s+([A-Za-z_]\w*)\s+struct\b/ },
+    { kind: 'interface', regex: /^type\s+([A-Za-z_]\w*)\s+interface\b/ },
+    {
+      kind: 'method',
+      regex: /^func\s+\([^)]*?\*?\s*([A-Za-z_]\w*(?:\[[^\]]*\])?)\)\s*([A-Za-z_]\w*)/,
+    },
+    { kind: 'function', regex: /^func\s+([A-Za-z_]\w*)/ },
+  ],
+};
+
+const RUST: LanguageSyntax = {
+  language: 'rust',
+  blocks: 'braces',
+  patterns: [
+    { kind: 'struct', regex: /^\s*(?:pub(?:\([^)]*\))?\s+)?struct\s+([A-Za-z_]\w*)/ },
+    { kind: 'enum', regex: /^\s*(?:pub(?:\([^)]*\))?\s+)?enum\s+([A-Za-z_]\w*)/ },
+    { kind: 'trait', regex: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:unsafe\s+)?trait\s+([A-Za-z_]\w*)/ },
+    {
+      kind: 'impl',
+      regex: /^\s*(?:unsafe\s+)?impl(?:<[^>]*>)?\s+(?:[\w:<>, ]+\s+for\s+)?([A-Za-z_][\w:]*)/,
+    },
+    { kind: 'module', regex: /^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+([A-Za-z_]\w*)/ },
+    {
+      kind: 'function',
+      regex:
+        /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:(?:const|async|unsafe|extern(?:\s+"[^"]*")?)\s+)*fn\s+([A-Za-z_]\w*)/,
+    },
+  ],
+};
+
+// Java, Kotlin, Scala, C# and similar languages
+const JVM: LanguageSyntax = {
+  language: 'java',
+  blocks: 'braces',
+  patterns: [
+    {
+      kind: 'class',
+      regex: new RegExp(
+        `^\\s*(?:@\\w+\\s+)*${JVM_MODIFIERS}(?:data\\s+|case\\s+|enum\\s+(?=class)|annotation\\s+)?(?:class|object|record)\\s+([A-Za-z_]\\w*)`
+      ),
+    },
+    {
+      kind: 'interface',
+      regex: new RegExp(`^\\s*${JVM_MODIFIERS}(?:fun\\s+)?(?:interface|trait)\\s+([A-Za-z_]\\w*)`),
+    },
+    { kind: 'enum', regex: new RegExp(`^\\s*${JVM_MODIFIERS}enum\\s+([A-Za-z_]\\w*)`) },
+    { kind: 'module', regex: /^\s*namespace\s+([A-Za-z_][\w.]*)/ },
+    {
+      kind: 'function',
+      regex: new RegExp(
+        `^\\s*${JVM_MODIFIERS}(?:fun|def)\\s+(?:<[^>]*>\\s*)?(?:[\\w.]+\\.)?([A-Za-z_]\\w*)`
+      ),
+    },
+    {
+      kind: 'method',
+      regex: new RegExp(
+        `^\\s*(?:@\\w+(?:\\([^)]*\\))?\\s+)*${JVM_MODIFIERS}(?:<[^>]*>\\s*)?(?:[\\w.<>\\[\\]?,]+\\s+)?([A-Za-z_]\\w*)\\s*\\(`
+      ),
+      memberOnly: true,
+    },
+  ],
+};
+
+const C_FAMILY: LanguageSyntax = {
+  language: 'c',
+  blocks: 'braces',
+  patterns: [
+    { kind: 'module', regex: /^\s*namespace\s+([A-Za-z_][\w:]*)/ },
+    { kind: 'class', regex: /^\s*(?:template\s*<[^>]*>\s*)?class\s+([A-Za-z_]\w*)(?!\s*;)/ },
+    { kind: 'struct', regex: /^\s*(?:typedef\s+)?struct\s+([A-Za-z_]\w*)(?!\s*;)/ },
+    { kind: 'enum', regex: /^\s*(?:typedef\s+)?enum\s+(?:class\s+)?([A-Za-z_]\w*)(?!\s*;)/ },
+    {
+      kind: 'function',
+      regex: /^(?:[A-Za-z_][\w:<>,*&\s]*[\s*&])((?:[A-Za-z_]\w*::)*~?[A-Za-z_]\w*)\s*\([^;]*$/,
+    },
+    {
+      kind: 'method',
+      regex:
+        /^\s+(?:(?:virtual|static|inline|explicit|constexpr)\s+)*(?:[\w:<>,*&]+\s+)*[*&]?(~?[A-Za-z_]\w*)\s*\([^;]*$/,
+      memberOnly: true,
+    },
+  ],
+};
+
+const PHP: LanguageSyntax = {
+  language: 'php',
+  blocks: 'braces',
+  patterns: [
+    {
+      kind: 'class',
+      regex: /^\s*(?:(?:abstract|final|readonly)\s+)*class\s+([A-Za-z_]\w*)/,
+    },
+    { kind: 'interface', regex: /^\s*interface\s+([A-Za-z_]\w*)/ },
+    { kind: 'trait', regex: /^\s*trait\s+([A-Za-z_]\w*)/ },
+    { kind: 'enum', regex: /^\s*enum\s+([A-Za-z_]\w*)/ },
+    {
+      kind: 'function',
+      regex:
+        /^\s*(?:(?:public|private|protected|static|abstract|final)\s+)*function\s+&?([A-Za-z_]\w*)/,
+    },
+  ],
+};
+
+const SWIFT: LanguageSyntax = {
+  language: 'swift',
+  blocks: 'braces',
+  patterns: [
+    {
+      kind: 'class',
+      regex:
+        /^\s*(?:(?:public|private|fileprivate|internal|open|final)\s+)*(?:class|actor)\s+([A-Za-z_]\w*)/,
+    },
+    {
+      kind: 'struct',
+      regex: /^\s*(?:(?:public|private|fileprivate|internal)\s+)*struct\s+([A-Za-z_]\w*)/,
+    },
+    {
+      kind: 'enum',
+      regex: /^\s*(?:(?:public|private|fileprivate|internal|indirect)\s+)*enum\s+([A-Za-z_]\w*)/,
+    },
+    {
+      kind: 'interface',
+      regex: /^\s*(?:(?:public|private|fileprivate|internal)\s+)*protocol\s+([A-Za-z_]\w*)/,
+    },
+    {
+      kind: 'impl',
+      regex: /^\s*(?:(?:public|private|fileprivate|internal)\s+)*extension\s+([A-Za-z_][\w.]*)/,
+    },
+    {
+      kind: 'function',
+      regex:
+        /^\s*(?:@\w+\s+)*(?:(?:public|private|fileprivate|internal|open|static|class|final|override|mutating|async)\s+)*func\s+([A-Za-z_]\w*)/,
+    },
+  ],
+};
+
+const LANGUAGES_BY_EXTENSION: Record<string, LanguageSyntax> = {
+  js: JAVASCRIPT,
+  jsx: JAVASCRIPT,
+  mjs: JAVASCRIPT,
+  cjs: JAVASCRIPT,
+  ts: { ...JAVASCRIPT, language: 'typescript' },
+  tsx: { ...JAVASCRIPT, language: 'typescript' },
+  mts: { ...JAVASCRIPT, language: 'typescript' },
+  cts: { ...JAVASCRIPT, language: 'typescript' },
+  py: PYTHON,
+  pyw: PYTHON,
+  pyi: PYTHON,
+  rb: RUBY,
+  go: GO,
+  rs: RUST,
+  java: JVM,
+  kt: { ...JVM, language: 'kotlin' },
+  kts: { ...JVM, language: 'kotlin' },
+  scala: { ...JVM, language: 'scala' },
+  cs: { ...JVM, language: 'csharp' },
+  c: C_FAMILY,
+  h: C_FAMILY,
+  cpp: { ...C_FAMILY, language: 'cpp' },
+  cc: { ...C_FAMILY, language: 'cpp' },
+  cxx: { ...C_FAMILY, language: 'cpp' },
+  hpp: { ...C_FAMILY, language: 'cpp' },
+  php: PHP,
+  swift: SWIFT,
+};
+
+// Content types from docs-loader and browsers, for files without a telling extension
+const LANGUAGES_BY_CONTENT_TYPE: Record<string, LanguageSyntax> = {
+  'text/javascript': JAVASCRIPT,
+  'application/javascript': JAVASCRIPT,
+  'text/typescript': LANGUAGES_BY_EXTENSION.ts,
+  'application/typescript': LANGUAGES_BY_EXTENSION.ts,
+  'text/x-python': PYTHON,
+  'text/x-ruby': RUBY,
+  'text/x-go': GO,
+  'text/x-rust': RUST,
+  'text/x-java': JVM,
+  'text/x-kotlin': LANGUAGES_BY_EXTENSION.kt,
+  'text/x-scala': LANGUAGES_BY_EXTENSION.scala,
+  'text/x-csharp': LANGUAGES_BY_EXTENSION.cs,
+  'text/x-c': C_FAMILY,
+  'text/x-c++': LANGUAGES_BY_EXTENSION.cpp,
+  'text/x-php': PHP,
+  'text/x-swift': SWIFT,
+};
+
+function getLanguageSyntax(contentType: string, filename: string): LanguageSyntax | undefined {
+  const extension = filename.toLowerCase().match(/\.([a-z0-9+]+)$/)?.[1];
+  return (
+    (extension && LANGUAGES_BY_EXTENSION[extension]) ||
+    LANGUAGES_BY_CONTENT_TYPE[contentType.toLowerCase().split(';')[0].trim()]
+  );
+}
+
+/**
+ * Checks whether a file is source code in one of the languages the code splitter understands
+ */
+export function isSourceCodeFile(contentType: string, filename: string): boolean {
+  return getLanguageSyntax(contentType, filename) !== undefined;
+}
+
+/**
+ * Splits a source file into sections along its functions, classes and methods.
+ * Each top-level symbol (with its doc comment and decorators) becomes a section; code between
+ * symbols (imports, constants) forms sections of its own. A symbol too long for one fragment
+ * is split into its members, the remaining lines staying with the symbol, and a symbol without
+ * members is split by lines. Sections record `symbolName` (methods as `Class.method`),
+ * `symbolKind` and their 1-based `startLine`/`endLine`. Symbols are found with per-language
+ * patterns rather than a full parser, so unusual formatting may fall back to line ranges.
+ * @param chunkSize The fragment size in tokens that sections are kept within
+ */
+export function extractCodeFromText(
+  text: string,
+  contentType: string,
+  originalFilename: string,
+  chunkSize = DEFAULT_CHUNK_TOKEN_SIZE
+): ExtractedDocument {
+  const syntax = getLanguageSyntax(contentType, originalFilename);
+  if (!syntax) {
+    throw new Error(`Unsupported source code file: ${originalFilename}`);
+  }
+
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const symbols = findSymbols(lines, syntax);
+  // Symbols up to this size become a single fragment
+  const maxSectionChars = Math.floor(chunkSize * DEFAULT_CHARS_PER_TOKEN * 0.9);
+  const sections = splitRange(lines, 0, lines.length - 1, symbols, maxSectionChars);
+
+  logger.debug(
+    `[Code] ${originalFilename}: ${symbols.length} top-level symbols, ${sections.length} sections (${syntax.language})`
+  );
+  return {
+    text,
+    sections,
+    metadata: { language: syntax.language, lineCount: lines.length },
+  };
+}
+
+/**
+ * Finds the symbols of a file as a tree, top-level symbols first
+ */
+function findSymbols(lines: string[], syntax: LanguageSyntax): CodeSymbol[] {
+  const blockEvents = syntax.blocks === 'braces' ? getBlockEvents(lines) : [];
+  const roots: CodeSymbol[] = [];
+  const open: CodeSymbol[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    while (open.length > 0 && open[open.length - 1].end < i) {
+      open.pop();
+    }
+    const parent = open[open.length - 1];
+    const declaration = matchDeclaration(lines[i], syntax, parent);
+    if (!declaration) {
+      continue;
+    }
+
+    const end =
+      syntax.blocks === 'braces'
+        ? findBraceBlockEnd(lines, blockEvents, i)
+        : syntax.blocks === 'indent'
+          ? findIndentBlockEnd(lines, i)
+          : findEndKeywordBlockEnd(lines, i);
+    if (end === -1) {
+      continue; // A declaration without a body, e.g. a prototype or an abstract method
+    }
+
+    const siblings = parent ? parent.children : roots;
+    const previousEnd = siblings.length > 0 ? siblings[siblings.length - 1].end : -1;
+    const lowerBound = Math.max(previousEnd + 1, parent ? parent.start + 1 : 0);
+    const symbol: CodeSymbol = {
+      ...declaration,
+      start: findLeadingCommentStart(lines, i, lowerBound),
+      end,
+      children: [],
+    };
+    siblings.push(symbol);
+    open.push(symbol);
+  }
+  return roots;
+}
+
+function matchDeclaration(
+  line: string,
+  syntax: LanguageSyntax,
+  parent: CodeSymbol | undefined
+): { name: string; kind: SymbolKind } | null {
+  const inContainer = parent !== undefined && CONTAINER_KINDS.has(parent.kind);
+  for (const pattern of syntax.patterns) {
+    if (pattern.memberOnly && !inContainer) {
+      continue;
+    }
+    const match = line.match(pattern.regex);
+    if (!match) {
+      continue;
+    }
+    // Go methods capture the receiver type and then the method name
+    const name = match[2] ? `${match[1]}.${match[2]}` : match[1];
+    if (KEYWORDS.has(name)) {
+      return null;
+    }
+    const kind = pattern.kind === 'function' && inContainer ? 'method' : pattern.kind;
+    return { name, kind };
+  }
+  return null;
+}
+
+/**
+ * Reduces every line to its brackets and semicolons, ignoring those in strings and comments.
+ * Angle brackets are kept for generics, leaving out arrows and comparisons such as `=>` or `<=`.
+ */
+function getBlockEvents(lines: string[]): string[] {
+  let inBlockComment = false;
+  let inTemplate = false;
+  return lines.map((line) => {
+    let events = '';
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (inBlockComment) {
+        if (char === '*' && line[i + 1] === '/') {
+          inBlockComment = false;
+          i++;
+        }
+        continue;
+      }
+      if (inTemplate) {
+        if (char === '\\') {
+          i++;
+        } else if (char === '`') {
+          inTemplate = false;
+        }
+        continue;
+      }
+      if (char === '/' && line[i + 1] === '/') {
+        break;
+      }
+      if (char === '/' && line[i + 1] === '*') {
+        inBlockComment = true;
+        i++;
+      } else if (char === '`') {
+        inTemplate = true;
+      } else if (char === '"' || char === "'") {
+        // A quote without a closing one on the line is a Rust lifetime or a stray apostrophe
+        const close = findClosingQuote(line, i);
+        if (close !== -1) {
+          i = close;
+        }
+      } else if ('{}();'.includes(char)) {
+        events += char;
+      } else if (char === '<' && line[i + 1] !== '=') {
+        events += char;
+      } else if (char === '>' && !'=-'.includes(line[i - 1]) && line[i + 1] !== '=') {
+        events += char;
+      }
+    }
+    return events;
+  });
+}
+
+function findClosingQuote(line: string, openIndex: number): number {
+  const quote = line[openIndex];
+  for (let i = openIndex + 1; i < line.length; i++) {
+    if (line[i] === '\\') {
+      i++;
+    } else if (line[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Returns the line closing the block a declaration opens, or -1 when a semicolon or a blank
+ * line comes first (Kotlin and Scala need no semicolons) or no block opens within a few lines.
+ * Braces within the signature's parentheses or generics, such as destructured parameters or
+ * a `Promise<{ ... }>` return type, do not open the block, nor does a type literal closed on
+ * the same line as another opening brace, as in `): { ok: boolean } {`.
+ */
+function findBraceBlockEnd(lines: string[], blockEvents: string[], startLine: number): number {
+  let signatureDepth = 0;
+  let depth = 0;
+  for (let i = startLine; i < blockEvents.length; i++) {
+    if (
+      depth === 0 &&
+      (i - startLine >= MAX_SIGNATURE_LINES || (i > startLine && !lines[i].trim()))
+    ) {
+      return -1;
+    }
+    const events = blockEvents[i];
+    for (let j = 0; j < events.length; j++) {
+      const event = events[j];
+      if (depth > 0) {
+        depth += event === '{' ? 1 : event === '}' ? -1 : 0;
+        if (depth === 0 && !events.includes('{', j + 1)) {
+          return i;
+        }
+      } else if ('(<'.includes(event) || (event === '{' && signatureDepth > 0)) {
+        signatureDepth++;
+      } else if (')>}'.includes(event)) {
+        signatureDepth = Math.max(0, signatureDepth - 1);
+      } else if (event === '{') {
+        depth = 1;
+      } else if (event === ';' && signatureDepth === 0) {
+        return -1;
+      }
+    }
+  }
+  return depth > 0 ? blockEvents.length - 1 : -1;
+}
+
+/**
+ * Returns the last line of an indented block (Python): the line before the next non-blank
+ * line indented no deeper than the declaration, once the signature has ended with a colon
+ */
+function findIndentBlockEnd(lines: string[], startLine: number): number {
+  const indent = getIndent(lines[startLine]);
+  let bodyStart = startLine;
+  while (
+    bodyStart < lines.length - 1 &&
+    bodyStart - startLine < MAX_SIGNATURE_LINES &&
+    !/:\s*(#.*)?$/.test(lines[bodyStart])
+  ) {
+    bodyStart++;
+  }
+
+  let end = bodyStart;
+  for (let i = bodyStart + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') {
+      continue;
+    }
+    if (getIndent(lines[i]) <= indent) {
+      break;
+    }
+    end = i;
+  }
+  return end;
+}
+
+/**
+ * Returns the `end` line closing a declaration at the same indentation (Ruby)
+ */
+function findEndKeywordBlockEnd(lines: string[], startLine: number): number {
+  const indent = getIndent(lines[startLine]);
+  if (/\bend\s*$/.test(lines[startLine])) {
+    return startLine; // One-line definition
+  }
+  for (let i = startLine + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') {
+      continue;
+    }
+    if (getIndent(lines[i]) <= indent) {
+      return /^\s*end\b/.test(lines[i]) ? i : -1;
+    }
+  }
+  return -1;
+}
+
+function getIndent(line: string): number {
+  return line.match(/^[ \t]*/)![0].replace(/\t/g, '    ').length;
+}
+
+/**
+ * Moves a declaration's first line up over the comments, decorators and annotations
+ * directly above it
+ */
+function findLeadingCommentStart(lines: string[], line: number, lowerBound: number): number {
+  let start = line;
+  while (
+    start - 1 >= lowerBound &&
+    /^\s*(\/\/|\/\*|\*|#(?!include|define)|@)/.test(lines[start - 1])
+  ) {
+    start--;
+  }
+  return start;
+}
+
+/**
+ * Turns a range of lines into sections: one per symbol plus the code between symbols, which
+ * belongs to the enclosing symbol if there is one
+ */
+function splitRange(
+  lines: string[],
+  start: number,
+  end: number,
+  symbols: CodeSymbol[],
+  maxChars: number,
+  parent?: { name: string; kind: SymbolKind }
+): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let cursor = start;
+  for (const symbol of symbols) {
+    if (symbol.start > cursor) {
+      sections.push(...splitLines(lines, cursor, symbol.start - 1, maxChars, parent));
+    }
+    const name = parent && parent.kind !== 'module' ? `${parent.name}.${symbol.name}` : symbol.name;
+    const owner = { name, kind: symbol.kind };
+    if (getRangeLength(lines, symbol.start, symbol.end) > maxChars && symbol.children.length > 0) {
+      sections.push(
+        ...splitRange(lines, symbol.start, symbol.end, symbol.children, maxChars, owner)
+      );
+    } else {
+      sections.push(...splitLines(lines, symbol.start, symbol.end, maxChars, owner));
+    }
+    cursor = symbol.end + 1;
+  }
+  if (cursor <= end) {
+    sections.push(...splitLines(lines, cursor, end, maxChars, parent));
+  }
+  return sections;
+}
+
+/**
+ * Groups a range of lines into sections of at most `maxChars`. Ranges holding nothing but
+ * brackets and line comments (a class's closing brace) are dropped.
+ */
+function splitLines(
+  lines: string[],
+  start: number,
+  end: number,
+  maxChars: number,
+  owner?: { name: string; kind: SymbolKind }
+): DocumentSection[] {
+  // Leading and trailing blank lines do not count towards the line range
+  while (start <= end && lines[start].trim() === '') {
+    start++;
+  }
+  while (end >= start && lines[end].trim() === '') {
+    end--;
+  }
+  if (start > end || isClosingBracketsOnly(lines.slice(start, end + 1))) {
+    return [];
+  }
+
+  const sections: DocumentSection[] = [];
+  let pieceStart = start;
+  let length = 0;
+  for (let i = start; i <= end; i++) {
+    if (i > pieceStart && length + lines[i].length + 1 > maxChars) {
+      sections.push(toSection(lines, pieceStart, i - 1, owner));
+      pieceStart = i;
+      length = 0;
+    }
+    length += lines[i].length + 1;
+  }
+  sections.push(toSection(lines, pieceStart, end, owner));
+  return sections;
+}
+
+function isClosingBracketsOnly(lines: string[]): boolean {
+  const code = lines.filter((line) => !/^\s*(\/\/|#)/.test(line)).join('');
+  return /[{}()[\]]/.test(code) && /^[\s{}()[\];,]*$/.test(code);
+}
+
+function toSection(
+  lines: string[],
+  start: number,
+  end: number,
+  owner?: { name: string; kind: SymbolKind }
+): DocumentSection {
+  return {
+    text: lines.slice(start, end + 1).join('\n'),
+    metadata: {
+      ...(owner ? { symbolName: owner.name, symbolKind: owner.kind } : {}),
+      startLine: start + 1,
+      endLine: end + 1,
+    },
+  };
+}
+
+function getRangeLength(lines: string[], start: number, end: number): number {
+  return lines.slice(start, end + 1).join('\n').length;
+}
@@ -1,6 +1,22 @@
-import { ModelConfig, ModelConfigSchema, ProviderRateLimits } from './types.ts';
+import {
+  ChunkingConfig,
+  ChunkingOptions,
+  ChunkingProfile,
+  ChunkingStrategy,
+  ModelConfig,
+  ModelConfigSchema,
+  ProviderRateLimits,
+} from './types.ts';
 import z from 'zod';
 import { logger, IAgentRuntime } from '@elizaos/core';
+import { isSourceCodeFile } from './code.ts';
+import { isCsvFile } from './csv.ts';
+import { DEFAULT_CHUNK_OVERLAP_TOKENS, DEFAULT_CHUNK_TOKEN_SIZE } from './ctx-embeddings.ts';
+import {
+  DEFAULT_BREAKPOINT_PERCENTILE,
+  DEFAULT_SEMANTIC_MIN_CHUNK_TOKENS,
+} from './semantic-chunking.ts';
+import { isSpreadsheetFile } from './spreadsheet.ts';
 
 const parseBooleanEnv = (value: any): boolean => {
   if (typeof value === 'boolean') return value;
@@ -247,3 +263,157 @@ export async function getProviderRateLimits(runtime?: IAgentRuntime): Promise<Pr
       };
   }
 }
+
+/**
+ * Picks the chunking profile for a file: `code` for source files, `table` for CSV and
+ * spreadsheets and `prose` for everything else
+ */
+export function getChunkingProfile(contentType: string, filename: string): ChunkingProfile {
+  if (isSourceCodeFile(contentType, filename)) {
+    return 'code';
+  }
+  if (isCsvFile(contentType, filename) || isSpreadsheetFile(contentType, filename)) {
+    return 'table';
+  }
+  return 'prose';
+}
+
+/**
+ * Resolves the chunking settings for a document. Each value is taken from, in order: the
+ * per-upload override, the profile's setting for sizes (e.g. `CODE_CHUNK_SIZE`), the agent-wide
+ * setting (`CHUNKING_STRATEGY`, `CHUNK_SIZE`, `CHUNK_OVERLAP`, `SEMANTIC_MIN_CHUNK_SIZE`,
+ * `SEMANTIC_BREAKPOINT_PERCENTILE`, `PARENT_CHUNK_SIZE`) and finally the built-in defaults.
+ * Invalid values are ignored with a warning, an overlap that is not smaller than the
+ * chunk size is scaled down to the default ratio, a minimum semantic chunk size that is
+ * not smaller than the chunk size is lowered to half of it, and parent windows that are not
+ * larger than the chunk size are turned off.
+ *
+ * @param runtime The agent runtime to get settings from
+ * @param contentType MIME type of the document
+ * @param filename Original filename of the document
+ * @param override Chunking options given with the upload
+ * @returns The chunking configuration to use
+ */
+export function getChunkingConfig(
+  runtime: IAgentRuntime | undefined,
+  contentType: string,
+  filename: string,
+  override?: ChunkingOptions
+): ChunkingConfig {
+  const profile = getChunkingProfile(contentType, filename);
+  const prefix = profile.toUpperCase();
+
+  const getSetting = (key: string): string | undefined => {
+    const rawValue = runtime?.getSetting(key) || process.env[key];
+    return rawValue === undefined || rawValue === null || rawValue === ''
+      ? undefined
+      : String(rawValue);
+  };
+  const getTokenSetting = (key: string, allowZero = false) =>
+    parseTokenCount(getSetting(key), key, allowZero);
+
+  const strategy =
+    parseStrategy(override?.strategy, 'strategy') ??
+    parseStrategy(getSetting('CHUNKING_STRATEGY'), 'CHUNKING_STRATEGY') ??
+    'fixed';
+  const chunkSize =
+    parseTokenCount(override?.chunkSize, 'chunkSize') ??
+    getTokenSetting(`${prefix}_CHUNK_SIZE`) ??
+    getTokenSetting('CHUNK_SIZE') ??
+    DEFAULT_CHUNK_TOKEN_SIZE;
+  let chunkOverlap =
+    parseTokenCount(override?.chunkOverlap, 'chunkOverlap', true) ??
+    getTokenSetting(`${prefix}_CHUNK_OVERLAP`, true) ??
+    getTokenSetting('CHUNK_OVERLAP', true) ??
+    DEFAULT_CHUNK_OVERLAP_TOKENS;
+  let minChunkSize =
+    parseTokenCount(override?.minChunkSize, 'minChunkSize', true) ??
+    getTokenSetting('SEMANTIC_MIN_CHUNK_SIZE', true) ??
+    DEFAULT_SEMANTIC_MIN_CHUNK_TOKENS;
+  let parentChunkSize =
+    parseTokenCount(override?.parentChunkSize, 'parentChunkSize', true) ??
+    getTokenSetting('PARENT_CHUNK_SIZE', true) ??
+    0;
+  const breakpointPercentile =
+    parsePercentile(override?.breakpointPercentile, 'breakpointPercentile') ??
+    parsePercentile(
+      getSetting('SEMANTIC_BREAKPOINT_PERCENTILE'),
+      'SEMANTIC_BREAKPOINT_PERCENTILE'
+    ) ??
+    DEFAULT_BREAKPOINT_PERCENTILE;
+
+  if (chunkOverlap >= chunkSize) {
+    const scaledOverlap = Math.floor(
+      (chunkSize * DEFAULT_CHUNK_OVERLAP_TOKENS) / DEFAULT_CHUNK_TOKEN_SIZE
+    );
+    logger.warn(
+      `[Document Processor] Chunk overlap ${chunkOverlap} is not smaller than chunk size ${chunkSize} for ${filename}, using ${scaledOverlap}`
+    );
+    chunkOverlap = scaledOverlap;
+  }
+  if (minChunkSize >= chunkSize) {
+    const halfChunkSize = Math.floor(chunkSize / 2);
+    if (strategy === 'semantic') {
+      logger.warn(
+        `[Document Processor] Minimum chunk size ${minChunkSize} is not smaller than chunk size ${chunkSize} for ${filename}, using ${halfChunkSize}`
+      );
+    }
+    minChunkSize = halfChunkSize;
+  }
+
+  if (parentChunkSize > 0 && parentChunkSize <= chunkSize) {
+    logger.warn(
+      `[Document Processor] Parent chunk size ${parentChunkSize} is not larger than chunk size ${chunkSize} for ${filename}, storing fragments without parents`
+    );
+    parentChunkSize = 0;
+  }
+
+  return {
+    strategy,
+    chunkSize,
+    chunkOverlap,
+    minChunkSize,
+    breakpointPercentile,
+    parentChunkSize,
+    profile,
+  };
+}
+
+function parseStrategy(value: unknown, name: string): ChunkingStrategy | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const strategy = String(value).trim().toLowerCase();
+  if (strategy !== 'fixed' && strategy !== 'semantic') {
+    logger.warn(`[Document Processor] Ignoring invalid ${name}: '${value}'`);
+    return undefined;
+  }
+  return strategy;
+}
+
+function parsePercentile(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const percentile = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isFinite(percentile) || percentile < 0 || percentile > 100) {
+    logger.warn(`[Document Processor] Ignoring invalid ${name}: '${value}'`);
+    return undefined;
+  }
+  return percentile;
+}
+
+/**
+ * Parses a token count from a setting or option, warning about and ignoring invalid values
+ */
+function parseTokenCount(value: unknown, name: string, allowZero = false): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const count = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isInteger(count) || count < 0 || (count === 0 && !allowZero)) {
+    logger.warn(`[Document Processor] Ignoring invalid ${name}: '${value}'`);
+    return undefined;
+  }
+  return count;
+}
@@ -0,0 +1,215 @@
+import { logger } from '@elizaos/core';
+import { DEFAULT_CHARS_PER_TOKEN, DEFAULT_CHUNK_TOKEN_SIZE } from './ctx-embeddings.ts';
+import type { DocumentSection, ExtractedDocument } from './types.ts';
+
+export const CSV_CONTENT_TYPES = ['text/csv', 'application/csv', 'text/tab-separated-values'];
+
+// Delimiters recognized in the header line of a .csv file (semicolons come from European locales)
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * A record of a CSV file: its raw text (which may span lines when a quoted cell contains line
+ * breaks), its parsed cells and its 1-based row number, the header being row 1
+ */
+interface CsvRecord {
+  rowNumber: number;
+  text: string;
+  cells: string[];
+}
+
+/**
+ * Checks whether a file is comma- or tab-separated values
+ */
+export function isCsvFile(contentType: string, filename: string): boolean {
+  return CSV_CONTENT_TYPES.includes(contentType.toLowerCase()) || /\.(csv|tsv)$/i.test(filename);
+}
+
+/**
+ * Splits a CSV or TSV file into sections of whole rows, each starting with the header row
+ * so that every fragment knows its column names. Rows keep their original text, including
+ * quoted cells spanning several lines. Sections record the `rowStart` and `rowEnd` they hold
+ * (row 1 being the header); a row too long for one fragment is written as `Column: value`
+ * lines and split across several sections.
+ * @param chunkSize The fragment size in tokens that sections are kept within
+ */
+export function extractCsvFromText(
+  text: string,
+  contentType: string,
+  originalFilename: string,
+  chunkSize = DEFAULT_CHUNK_TOKEN_SIZE
+): ExtractedDocument {
+  const content = text.replace(/^\uFEFF/, '');
+  const isTsv =
+    contentType.toLowerCase() === 'text/tab-separated-values' ||
+    originalFilename.toLowerCase().endsWith('.tsv');
+  const delimiter = isTsv ? '\t' : detectDelimiter(content);
+  const records = parseRecords(content, delimiter).filter((record) =>
+    record.cells.some((cell) => cell.trim() !== '')
+  );
+  if (records.length === 0) {
+    return { text };
+  }
+
+  const [header, ...rows] = records;
+  const columns = header.cells.map((cell, index) => cell.trim() || `Column ${index + 1}`);
+  if (rows.length === 0) {
+    return {
+      text,
+      sections: [{ text: header.text, metadata: { rowStart: 1, rowEnd: 1 } }],
+      metadata: { columns, rowCount: 0 },
+    };
+  }
+
+  const maxSectionChars = Math.round(chunkSize * DEFAULT_CHARS_PER_TOKEN);
+  const sections: DocumentSection[] = [];
+  let currentRows: CsvRecord[] = [];
+  let currentLength = header.text.length;
+
+  const flush = () => {
+    if (currentRows.length === 0) {
+      return;
+    }
+    sections.push({
+      text: [header.text, ...currentRows.map((row) => row.text)].join('\n'),
+      metadata: {
+        rowStart: currentRows[0].rowNumber,
+        rowEnd: currentRows[currentRows.length - 1].rowNumber,
+      },
+    });
+    currentRows = [];
+    currentLength = header.text.length;
+  };
+
+  for (const row of rows) {
+    if (header.text.length + row.text.length + 1 > maxSectionChars) {
+      flush();
+      sections.push(...splitOversizedRow(columns, row, maxSectionChars));
+      continue;
+    }
+    if (currentRows.length > 0 && currentLength + row.text.length + 1 > maxSectionChars) {
+      flush();
+    }
+    currentRows.push(row);
+    currentLength += row.text.length + 1;
+  }
+  flush();
+
+  logger.debug(
+    `[CSV] ${originalFilename}: ${rows.length} rows, ${columns.length} columns in ${sections.length} sections`
+  );
+  return { text, sections, metadata: { columns, rowCount: rows.length } };
+}
+
+/**
+ * Picks the candidate delimiter occurring most often in the header line, outside quotes
+ */
+function detectDelimiter(content: string): string {
+  const headerLine = content.slice(0, content.search(/\r?\n|$/)).replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = headerLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parses CSV records as described in RFC 4180: cells may be quoted, quotes inside a quoted
+ * cell are doubled, and quoted cells may contain delimiters and line breaks. An unterminated
+ * quote runs to the end of the file.
+ */
+function parseRecords(content: string, delimiter: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let recordStart = 0;
+
+  for (let i = 0; i <= content.length; i++) {
+    const char = content[i];
+    if (inQuotes && i < content.length) {
+      if (char !== '"') {
+        cell += char;
+      } else if (content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r' || i === content.length) {
+      cells.push(cell);
+      records.push({
+        rowNumber: records.length + 1,
+        text: content.slice(recordStart, i),
+        cells,
+      });
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      recordStart = i + 1;
+      cells = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  return records;
+}
+
+/**
+ * Writes a row as `Column: value` lines and groups them into sections of at most `maxChars`,
+ * cutting a value that does not fit in the current section at the section boundary
+ */
+function splitOversizedRow(columns: string[], row: CsvRecord, maxChars: number): DocumentSection[] {
+  const heading = `Row ${row.rowNumber}`;
+  const budget = maxChars - heading.length;
+  const sections: DocumentSection[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+  const flush = () => {
+    sections.push({
+      text: [heading, ...current].join('\n'),
+      metadata: { rowStart: row.rowNumber, rowEnd: row.rowNumber },
+    });
+    current = [];
+    currentLength = 0;
+  };
+
+  for (const [index, value] of row.cells.entries()) {
+    const cellText = value.replace(/\s+/g, ' ').trim();
+    if (!cellText) {
+      continue;
+    }
+    let rest = `${columns[index] ?? `Column ${index + 1}`}: ${cellText}`;
+    while (rest) {
+      const room = budget - currentLength - 1;
+      if (rest.length <= room) {
+        current.push(rest);
+        currentLength += rest.length + 1;
+        break;
+      }
+      // Fill the section when a good part of it is left, otherwise start the value afresh
+      if (room > budget / 4) {
+        current.push(rest.slice(0, room));
+        rest = rest.slice(room);
+      }
+      flush();
+    }
+  }
+  if (current.length > 0) {
+    flush();
+  }
+  return sections;
+}
@@ -48,24 +48,24 @@ export const CONTEXT_TARGETS = {
  * This system prompt is more concise and focused on the specific task.
  */
 export const SYSTEM_PROMPT =
-  'You are a precision text augmentation tool. Your task is to expand a given text chunk with its direct context from a larger document. You must: 1) Keep the original chunk intact; 2) Add critical context from surrounding text; 3) Never summarize or rephrase the original chunk; 4) Create contextually rich output for improved semantic retrieval.';
+  'You are a precision text contextualization tool. Your task is to situate a given text chunk within the larger document it comes from. You must: 1) Write only the context, never the chunk itself; 2) Draw on critical information from the surrounding text; 3) Never summarize or rephrase the chunk; 4) Write context that improves semantic retrieval of the chunk.';
 
 /**
  * System prompts optimized for different content types with caching support
  */
 export const SYSTEM_PROMPTS = {
   DEFAULT:
-    'You are a precision text augmentation tool. Your task is to expand a given text chunk with its direct context from a larger document. You must: 1) Keep the original chunk intact; 2) Add critical context from surrounding text; 3) Never summarize or rephrase the original chunk; 4) Create contextually rich output for improved semantic retrieval.',
+    'You are a precision text contextualization tool. Your task is to situate a given text chunk within the larger document it comes from. You must: 1) Write only the context, never the chunk itself; 2) Draw on critical information from the surrounding text; 3) Never summarize or rephrase the chunk; 4) Write context that improves semantic retrieval of the chunk.',
 
-  CODE: 'You are a precision code augmentation tool. Your task is to expand a given code chunk with necessary context from the larger codebase. You must: 1) Keep the original code chunk intact with exact syntax and indentation; 2) Add relevant imports, function signatures, or class definitions; 3) Include critical surrounding code context; 4) Create contextually rich output that maintains correct syntax.',
+  CODE: 'You are a precision code contextualization tool. Your task is to situate a given code chunk within the larger codebase it comes from. You must: 1) Write only the context, never the code chunk itself; 2) Name the relevant imports, function signatures, or class definitions; 3) Describe the critical surrounding code; 4) Write context that improves semantic retrieval of the chunk.',
 
-  PDF: "You are a precision document augmentation tool. Your task is to expand a given PDF text chunk with its direct context from the larger document. You must: 1) Keep the original chunk intact; 2) Add section headings, references, or figure captions; 3) Include text that immediately precedes and follows the chunk; 4) Create contextually rich output that maintains the document's original structure.",
+  PDF: "You are a precision document contextualization tool. Your task is to situate a given PDF text chunk within the larger document it comes from. You must: 1) Write only the context, never the chunk itself; 2) Name section headings, references, or figure captions; 3) Summarize the text that immediately precedes and follows the chunk; 4) Write context that reflects the document's original structure.",
 
   MATH_PDF:
-    'You are a precision mathematical content augmentation tool. Your task is to expand a given mathematical text chunk with essential context. You must: 1) Keep original mathematical notations and expressions exactly as they appear; 2) Add relevant definitions, theorems, or equations from elsewhere in the document; 3) Preserve all LaTeX or mathematical formatting; 4) Create contextually rich output for improved mathematical comprehension.',
+    'You are a precision mathematical content contextualization tool. Your task is to situate a given mathematical text chunk within the larger document it comes from. You must: 1) Write only the context, never the chunk itself; 2) Give relevant definitions, theorems, or equations from elsewhere in the document; 3) Write mathematical notations and expressions exactly as they appear, including LaTeX formatting; 4) Write context that improves mathematical comprehension.',
 
   TECHNICAL:
-    'You are a precision technical documentation augmentation tool. Your task is to expand a technical document chunk with critical context. You must: 1) Keep the original chunk intact including all technical terminology; 2) Add relevant configuration examples, parameter definitions, or API references; 3) Include any prerequisite information; 4) Create contextually rich output that maintains technical accuracy.',
+    'You are a precision technical documentation contextualization tool. Your task is to situate a technical document chunk within the larger document it comes from. You must: 1) Write only the context, never the chunk itself; 2) Give relevant configuration details, parameter definitions, or API references; 3) Include any prerequisite information; 4) Write context that maintains technical accuracy.',
 };
 
 /**
@@ -82,19 +82,19 @@ Here is the chunk we want to situate within the whole document:
 {chunk_content}
 </chunk>
 
-Create an enriched version of this chunk by adding critical surrounding context. Follow these guidelines:
+Write a short context that situates this chunk within the whole document, to improve search retrieval of the chunk. Follow these guidelines:
 
 1. Identify the document's main topic and key information relevant to understanding this chunk
-2. Include 2-3 sentences before the chunk that provide essential context
-3. Include 2-3 sentences after the chunk that complete thoughts or provide resolution
+2. Summarize what comes before the chunk when it is needed to understand it
+3. Summarize what follows the chunk when it completes the chunk's thoughts
 4. For technical documents, include any definitions or explanations of terms used in the chunk
 5. For narrative content, include character or setting information needed to understand the chunk
-6. Keep the original chunk text COMPLETELY INTACT and UNCHANGED in your response
+6. Do NOT repeat the chunk text; it is stored alongside your context
 7. Do not use phrases like "this chunk discusses" - directly present the context
-8. The total length should be between {min_tokens} and {max_tokens} tokens
+8. The context should be between {min_tokens} and {max_tokens} tokens
 9. Format the response as a single coherent paragraph
 
-Provide ONLY the enriched chunk text in your response:`;
+Provide ONLY the context in your response:`;
 
 /**
  * Caching-optimized chunk prompt - separates document from instructions
@@ -106,19 +106,19 @@ Here is the chunk we want to situate within the whole document:
 {chunk_content}
 </chunk>
 
-Create an enriched version of this chunk by adding critical surrounding context. Follow these guidelines:
+Write a short context that situates this chunk within the whole document, to improve search retrieval of the chunk. Follow these guidelines:
 
 1. Identify the document's main topic and key information relevant to understanding this chunk
-2. Include 2-3 sentences before the chunk that provide essential context
-3. Include 2-3 sentences after the chunk that complete thoughts or provide resolution
+2. Summarize what comes before the chunk when it is needed to understand it
+3. Summarize what follows the chunk when it completes the chunk's thoughts
 4. For technical documents, include any definitions or explanations of terms used in the chunk
 5. For narrative content, include character or setting information needed to understand the chunk
-6. Keep the original chunk text COMPLETELY INTACT and UNCHANGED in your response
+6. Do NOT repeat the chunk text; it is stored alongside your context
 7. Do not use phrases like "this chunk discusses" - directly present the context
-8. The total length should be between {min_tokens} and {max_tokens} tokens
+8. The context should be between {min_tokens} and {max_tokens} tokens
 9. Format the response as a single coherent paragraph
 
-Provide ONLY the enriched chunk text in your response:`;
+Provide ONLY the context in your response:`;
 
 /**
  * Caching-optimized code chunk prompt
@@ -129,18 +129,18 @@ Here is the chunk of code we want to situate within the whole document:
 {chunk_content}
 </chunk>
 
-Create an enriched version of this code chunk by adding critical surrounding context. Follow these guidelines:
+Write a short context that situates this code chunk within the whole document, to improve search retrieval of the chunk. Follow these guidelines:
 
-1. Preserve ALL code syntax, indentation, and comments exactly as they appear
-2. Include any import statements, function definitions, or class declarations that this code depends on
-3. Add necessary type definitions or interfaces that are referenced in this chunk
+1. Name the module, class, or function that this code belongs to
+2. Mention any import statements, function definitions, or class declarations that this code depends on
+3. Mention type definitions or interfaces that are referenced in this chunk
 4. Include any crucial comments from elsewhere in the document that explain this code
-5. If there are key variable declarations or initializations earlier in the document, include those
-6. Keep the original chunk COMPLETELY INTACT and UNCHANGED in your response
-7. The total length should be between {min_tokens} and {max_tokens} tokens
+5. If there are key variable declarations or initializations earlier in the document, mention those
+6. Do NOT repeat the code chunk; it is stored alongside your context
+7. The context should be between {min_tokens} and {max_tokens} tokens
 8. Do NOT include implementation details for functions that are only called but not defined in this chunk
 
-Provide ONLY the enriched code chunk in your response:`;
+Provide ONLY the context in your response:`;
 
 /**
  * Caching-optimized math PDF chunk prompt
@@ -151,18 +151,18 @@ Here is the chunk we want to situate within the whole document:
 {chunk_content}
 </chunk>
 
-Create an enriched version of this chunk by adding critical surrounding context. This document contains mathematical content that requires special handling. Follow these guidelines:
+Write a short context that situates this chunk within the whole document, to improve search retrieval of the chunk. This document contains mathematical content that requires special handling. Follow these guidelines:
 
-1. Preserve ALL mathematical notation exactly as it appears in the chunk
+1. Write ALL mathematical notation exactly as it appears in the document
 2. Include any defining equations, variables, or parameters mentioned earlier in the document that relate to this chunk
 3. Add section/subsection names or figure references if they help situate the chunk
 4. If variables or symbols are defined elsewhere in the document, include these definitions
 5. If mathematical expressions appear corrupted, try to infer their meaning from context
-6. Keep the original chunk text COMPLETELY INTACT and UNCHANGED in your response
-7. The total length should be between {min_tokens} and {max_tokens} tokens
+6. Do NOT repeat the chunk text; it is stored alongside your context
+7. The context should be between {min_tokens} and {max_tokens} tokens
 8. Format the response as a coherent mathematical explanation
 
-Provide ONLY the enriched chunk text in your response:`;
+Provide ONLY the context in your response:`;
 
 /**
  * Caching-optimized technical documentation chunk prompt
@@ -173,18 +173,18 @@ Here is the chunk we want to situate within the whole document:
 {chunk_content}
 </chunk>
 
-Create an enriched version of this chunk by adding critical surrounding context. This appears to be technical documentation that requires special handling. Follow these guidelines:
+Write a short context that situates this chunk within the whole document, to improve search retrieval of the chunk. This appears to be technical documentation that requires special handling. Follow these guidelines:
 
-1. Preserve ALL technical terminology, product names, and version numbers exactly as they appear
+1. Write ALL technical terminology, product names, and version numbers exactly as they appear
 2. Include any prerequisite information or requirements mentioned earlier in the document
 3. Add section/subsection headings or navigation path to situate this chunk within the document structure
 4. Include any definitions of technical terms, acronyms, or jargon used in this chunk
 5. If this chunk references specific configurations, include relevant parameter explanations
-6. Keep the original chunk text COMPLETELY INTACT and UNCHANGED in your response
-7. The total length should be between {min_tokens} and {max_tokens} tokens
-8. Format the response maintaining any hierarchical structure present in the original
+6. Do NOT repeat the chunk text; it is stored alongside your context
+7. The context should be between {min_tokens} and {max_tokens} tokens
+8. Format the response as a single coherent paragraph
 
-Provide ONLY the enriched chunk text in your response:`;
+Provide ONLY the context in your response:`;
 
 /**
  * Specialized prompt for PDF documents with mathematical content
@@ -199,18 +199,18 @@ Here is the chunk we want to situate within the whole document:
 {chunk_content}
 </chunk>
 
-Create an enriched version of this chunk by adding critical surrounding context. This document contains mathematical content that requires special handling. Follow these guidelines:
+Write a short context that situates this chunk within the whole document, to improve search retrieval of the chunk. This document contains mathematical content that requires special handling. Follow these guidelines:
 
-1. Preserve ALL mathematical notation exactly as it appears in the chunk
+1. Write ALL mathematical notation exactly as it appears in the document
 2. Include any defining equations, variables, or parameters mentioned earlier in the document that relate to this chunk
 3. Add section/subsection names or figure references if they help situate the chunk
 4. If variables or symbols are defined elsewhere in the document, include these definitions
 5. If mathematical expressions appear corrupted, try to infer their meaning from context
-6. Keep the original chunk text COMPLETELY INTACT and UNCHANGED in your response
-7. The total length should be between {min_tokens} and {max_tokens} tokens
+6. Do NOT repeat the chunk text; it is stored alongside your context
+7. The context should be between {min_tokens} and {max_tokens} tokens
 8. Format the response as a coherent mathematical explanation
 
-Provide ONLY the enriched chunk text in your response:`;
+Provide ONLY the context in your response:`;
 
 /**
  * Specialized prompt for code documents
@@ -225,18 +225,18 @@ Here is the chunk of code we want to situate within the whole document:
 {chunk_content}
 </chunk>
 
-Create an enriched version of this code chunk by adding critical surrounding context. Follow these guidelines:
+Write a short context that situates this code chunk within the whole document, to improve search retrieval of the chunk. Follow these guidelines:
 
-1. Preserve ALL code syntax, indentation, and comments exactly as they appear
-2. Include any import statements, function definitions, or class declarations that this code depends on
-3. Add necessary type definitions or interfaces that are referenced in this chunk
+1. Name the module, class, or function that this code belongs to
+2. Mention any import statements, function definitions, or class declarations that this code depends on
+3. Mention type definitions or interfaces that are referenced in this chunk
 4. Include any crucial comments from elsewhere in the document that explain this code
-5. If there are key variable declarations or initializations earlier in the document, include those
-6. Keep the original chunk COMPLETELY INTACT and UNCHANGED in your response
-7. The total length should be between {min_tokens} and {max_tokens} tokens
+5. If there are key variable declarations or initializations earlier in the document, mention those
+6. Do NOT repeat the code chunk; it is stored alongside your context
+7. The context should be between {min_tokens} and {max_tokens} tokens
 8. Do NOT include implementation details for functions that are only called but not defined in this chunk
 
-Provide ONLY the enriched code chunk in your response:`;
+Provide ONLY the context in your response:`;
 
 /**
  * Specialized prompt for technical documentation
@@ -251,26 +251,26 @@ Here is the chunk we want to situate within the whole document:
 {chunk_content}
 </chunk>
 
-Create an enriched version of this chunk by adding critical surrounding context. This appears to be technical documentation that requires special handling. Follow these guidelines:
+Write a short context that situates this chunk within the whole document, to improve search retrieval of the chunk. This appears to be technical documentation that requires special handling. Follow these guidelines:
 
-1. Preserve ALL technical terminology, product names, and version numbers exactly as they appear
+1. Write ALL technical terminology, product names, and version numbers exactly as they appear
 2. Include any prerequisite information or requirements mentioned earlier in the document
 3. Add section/subsection headings or navigation path to situate this chunk within the document structure
 4. Include any definitions of technical terms, acronyms, or jargon used in this chunk
 5. If this chunk references specific configurations, include relevant parameter explanations
-6. Keep the original chunk text COMPLETELY INTACT and UNCHANGED in your response
-7. The total length should be between {min_tokens} and {max_tokens} tokens
-8. Format the response maintaining any hierarchical structure present in the original
+6. Do NOT repeat the chunk text; it is stored alongside your context
+7. The context should be between {min_tokens} and {max_tokens} tokens
+8. Format the response as a single coherent paragraph
 
-Provide ONLY the enriched chunk text in your response:`;
+Provide ONLY the context in your response:`;
 
 /**
  * Generates the full prompt string for requesting contextual enrichment from an LLM.
  *
  * @param docContent - The full content of the document.
  * @param chunkContent - The content of the specific chunk to be contextualized.
- * @param minTokens - Minimum target token length for the result.
- * @param maxTokens - Maximum target token length for the result.
+ * @param minTokens - Minimum target token length for the context.
+ * @param maxTokens - Maximum target token length for the context.
  * @returns The formatted prompt string.
  */
 export function getContextualizationPrompt(
@@ -285,16 +285,6 @@ export function getContextualizationPrompt(
     return 'Error: Document or chunk content missing.';
   }
 
-  // Estimate if the chunk is already large relative to our target size
-  const chunkTokens = Math.ceil(chunkContent.length / DEFAULT_CHARS_PER_TOKEN);
-
-  // If the chunk is already large, adjust the target max tokens to avoid excessive growth
-  if (chunkTokens > maxTokens * 0.7) {
-    // Allow for only ~30% growth for large chunks
-    maxTokens = Math.ceil(chunkTokens * 1.3);
-    minTokens = chunkTokens;
-  }
-
   return promptTemplate
     .replace('{doc_content}', docContent)
     .replace('{chunk_content}', chunkContent)
@@ -308,8 +298,8 @@ export function getContextualizationPrompt(
  *
  * @param chunkContent - The content of the specific chunk to be contextualized.
  * @param contentType - Optional content type to determine specialized prompts.
- * @param minTokens - Minimum target token length for the result.
- * @param maxTokens - Maximum target token length for the result.
+ * @param minTokens - Minimum target token length for the context.
+ * @param maxTokens - Maximum target token length for the context.
  * @returns Object containing the prompt and appropriate system message.
  */
 export function getCachingContextualizationPrompt(
@@ -326,16 +316,6 @@ export function getCachingContextualizationPrompt(
     };
   }
 
-  // Estimate if the chunk is already large relative to our target size
-  const chunkTokens = Math.ceil(chunkContent.length / DEFAULT_CHARS_PER_TOKEN);
-
-  // If the chunk is already large, adjust the target max tokens to avoid excessive growth
-  if (chunkTokens > maxTokens * 0.7) {
-    // Allow for only ~30% growth for large chunks
-    maxTokens = Math.ceil(chunkTokens * 1.3);
-    minTokens = chunkTokens;
-  }
-
   // Determine content type and corresponding templates
   let promptTemplate = CACHED_CHUNK_PROMPT_TEMPLATE;
   let systemPrompt = SYSTEM_PROMPTS.DEFAULT;
@@ -598,17 +578,16 @@ function isTechnicalDocumentation(content: string): boolean {
 }
 
 /**
- * Combines the original chunk content with its generated contextual enrichment.
+ * Combines the original chunk content with its generated context, which comes first.
  *
  * @param chunkContent - The original content of the chunk.
- * @param generatedContext - The contextual enrichment generated by the LLM.
- * @returns The enriched chunk, or the original chunkContent if the enrichment is empty.
+ * @param generatedContext - The context generated by the LLM to situate the chunk.
+ * @returns The context followed by the chunk, or the original chunkContent if the context is empty.
  */
-export function getChunkWithContext(chunkContent: string, generatedContext: string): string {
+export function getChunkWithContext(chunkContent: string, generatedContext?: string): string {
   if (!generatedContext || generatedContext.trim() === '') {
-    console.warn('Generated context is empty. Falling back to original chunk content.');
     return chunkContent;
   }
 
-  return generatedContext.trim();
+  return `${generatedContext.trim()}\n\n${chunkContent}`;
 }
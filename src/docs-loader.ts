@@ -3,6 +3,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { KnowledgeService } from './service.ts';
 import { AddKnowledgeOptions } from './types.ts';
+import { isArchiveFile } from './archive.ts';
+import { decodeTextBuffer } from './encoding.ts';
 import { isBinaryContentType } from './utils.ts';
 
 /**
@@ -63,13 +65,16 @@ export async function loadDocsFromPath(
 
   logger.info(`Found ${files.length} files to process`);
 
+  let total = files.length;
   let successful = 0;
   let failed = 0;
 
   for (const filePath of files) {
     try {
       const fileName = path.basename(filePath);
-      const fileExt = path.extname(filePath).toLowerCase();
+      const fileExt = fileName.toLowerCase().endsWith('.tar.gz')
+        ? '.tar.gz'
+        : path.extname(filePath).toLowerCase();
 
       // Skip hidden files and directories
       if (fileName.startsWith('.')) {
@@ -88,12 +93,33 @@ export async function loadDocsFromPath(
       // Read file
       const fileBuffer = fs.readFileSync(filePath);
 
+      // Archives count as the files they contain
+      if (isArchiveFile(contentType, fileName)) {
+        const results = await service.addArchiveKnowledge({
+          clientDocumentId: '' as UUID,
+          contentType,
+          originalFilename: fileName,
+          worldId: worldId || agentId,
+          content: fileBuffer.toString('base64'),
+          roomId: agentId,
+          entityId: agentId,
+        });
+        const added = results.filter((result) => result.status === 'success').length;
+        const errors = results.filter((result) => result.status === 'error_processing').length;
+        logger.info(`✅ "${fileName}": ${added} of ${results.length} archive entries added`);
+        total += added + errors - 1;
+        successful += added;
+        failed += errors;
+        continue;
+      }
+
       // Check if file is binary using the same logic as the service
       const isBinary = isBinaryContentType(contentType, fileName);
 
-      // For text files, read as UTF-8 string directly
+      // For text files, decode in the detected character encoding
       // For binary files, convert to base64
-      const content = isBinary ? fileBuffer.toString('base64') : fileBuffer.toString('utf-8');
+      const decoded = isBinary ? null : decodeTextBuffer(fileBuffer, contentType);
+      const content = decoded ? decoded.text : fileBuffer.toString('base64');
 
       // Create knowledge options
       const knowledgeOptions: AddKnowledgeOptions = {
@@ -104,6 +130,7 @@ export async function loadDocsFromPath(
         content,
         roomId: agentId,
         entityId: agentId,
+        ...(decoded ? { metadata: { encoding: decoded.encoding } } : {}),
       };
 
       // Process the document
@@ -119,11 +146,11 @@ export async function loadDocsFromPath(
   }
 
   logger.info(
-    `Document loading complete: ${successful} successful, ${failed} failed out of ${files.length} total`
+    `Document loading complete: ${successful} successful, ${failed} failed out of ${total} total`
   );
 
   return {
-    total: files.length,
+    total,
     successful,
     failed,
   };
@@ -156,19 +183,23 @@ function getAllFiles(dirPath: string, files: string[] = []): string[] {
 }
 
 /**
- * Get content type based on file extension
+ * Get content type based on file extension (including the leading dot), or null if unsupported
  */
-function getContentType(extension: string): string | null {
+export function getContentType(extension: string): string | null {
   const contentTypes: Record<string, string> = {
     // Text documents
     '.txt': 'text/plain',
     '.md': 'text/markdown',
     '.markdown': 'text/markdown',
+    '.mdx': 'text/mdx',
     '.tson': 'text/plain',
     '.xml': 'application/xml',
+    '.ipynb': 'application/x-ipynb+json',
     '.csv': 'text/csv',
     '.tsv': 'text/tab-separated-values',
     '.log': 'text/plain',
+    '.srt': 'application/x-subrip',
+    '.vtt': 'text/vtt',
 
     // Web files
     '.html': 'text/html',
@@ -272,6 +303,36 @@ function getContentType(extension: string): string | null {
     '.pdf': 'application/pdf',
     '.doc': 'application/msword',
     '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+
+    // Spreadsheets
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.ods': 'application/vnd.oasis.opendocument.spreadsheet',
+
+    // Presentations
+    '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+
+    // E-books
+    '.epub': 'application/epub+zip',
+
+    // Archives (expanded into their files)
+    '.zip': 'application/zip',
+    '.tar': 'application/x-tar',
+    '.tgz': 'application/gzip',
+    '.tar.gz': 'application/gzip',
+
+    // Email
+    '.eml': 'message/rfc822',
+    '.mbox': 'application/mbox',
+
+    // Images (read with OCR)
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.bmp': 'image/bmp',
+    '.tif': 'image/tiff',
+    '.tiff': 'image/tiff',
+    '.webp': 'image/webp',
   };
 
   return contentTypes[extension] || null;
@@ -9,19 +9,29 @@ import {
 } from '@elizaos/core';
 import { Buffer } from 'node:buffer';
 import { v4 as uuidv4 } from 'uuid';
-import { getProviderRateLimits, validateModelConfig } from './config.ts';
+import { getChunkingConfig, getProviderRateLimits, validateModelConfig } from './config.ts';
 import {
   DEFAULT_CHARS_PER_TOKEN,
-  DEFAULT_CHUNK_OVERLAP_TOKENS,
-  DEFAULT_CHUNK_TOKEN_SIZE,
   getCachingContextualizationPrompt,
   getCachingPromptForMimeType,
   getChunkWithContext,
   getContextualizationPrompt,
   getPromptForMimeType,
 } from './ctx-embeddings.ts';
+import { ChunkOffset, createLineLocator, getChunkOffsets } from './chunk-offsets.ts';
+import { decodeTextBuffer } from './encoding.ts';
 import { generateText } from './llm.ts';
-import { convertPdfToTextFromBuffer, extractTextFromFileBuffer } from './utils.ts';
+import { extractPdfFromBuffer } from './pdf.ts';
+import { splitTextSemantically } from './semantic-chunking.ts';
+import type {
+  ChunkingConfig,
+  DocumentChunk,
+  DocumentHeading,
+  DocumentPage,
+  DocumentSection,
+  ExtractedDocument,
+} from './types.ts';
+import { extractDocumentFromFileBuffer } from './utils.ts';
 
 /**
  * Estimates token count for a text string (rough approximation)
@@ -93,6 +103,20 @@ function shouldUseCustomLLM(): boolean {
 
 const useCustomLLM = shouldUseCustomLLM();
 
+/**
+ * Table holding the parent windows of parent-document retrieval. They have no embeddings
+ * and are looked up by the `parentId` of the fragments that matched a query.
+ */
+export const PARENT_FRAGMENTS_TABLE = 'knowledge_parents';
+
+/**
+ * A parent window with the ID its fragments point to and its position in the document
+ */
+interface ParentChunk extends DocumentChunk {
+  id: UUID;
+  position: number;
+}
+
 // =============================================================================
 // MAIN DOCUMENT PROCESSING FUNCTIONS
 // =============================================================================
@@ -100,10 +124,13 @@ const useCustomLLM = shouldUseCustomLLM();
 /**
  * Process document fragments synchronously
  * This function:
- * 1. Splits the document text into chunks
+ * 1. Splits the document text into chunks located by their offsets in the text (and stores
+ *    their parent windows when parent-document retrieval is on)
  * 2. Enriches chunks with context if contextual Knowledge is enabled
- * 3. Generates embeddings for each chunk
- * 4. Stores fragments with embeddings in the database
+ * 3. Generates embeddings for each chunk (of its generated context followed by the chunk, when
+ *    there is one)
+ * 4. Stores fragments with embeddings in the database, keeping the original chunk as
+ *    `content.text` and its generated context as `content.context`
  *
  * @param params Fragment parameters
  * @returns Number of fragments processed
@@ -118,6 +145,11 @@ export async function processFragmentsSynchronously({
   entityId,
   worldId,
   documentTitle,
+  sections,
+  pages,
+  headings,
+  chunking,
+  lineNumbers = false,
 }: {
   runtime: IAgentRuntime;
   documentId: UUID;
@@ -128,24 +160,23 @@ export async function processFragmentsSynchronously({
   entityId?: UUID;
   worldId?: UUID;
   documentTitle?: string;
+  /** Optional document structure; chunks never span sections and inherit their metadata */
+  sections?: DocumentSection[];
+  /** Optional page ranges within the text; fragments record the pages they span */
+  pages?: DocumentPage[];
+  /** Optional headings within the text; fragments record the section path they start in */
+  headings?: DocumentHeading[];
+  /** Chunking strategy and sizes; resolved from the agent's settings when omitted */
+  chunking?: ChunkingConfig;
+  /** Whether fragments also record the 1-based `startLine`/`endLine` of their offsets */
+  lineNumbers?: boolean;
 }): Promise<number> {
   if (!fullDocumentText || fullDocumentText.trim() === '') {
     logger.warn(`No text content available to chunk for document ${documentId}.`);
     return 0;
   }
 
-  // Split the text into chunks using standard parameters
-  const chunks = await splitDocumentIntoChunks(fullDocumentText);
-
-  if (chunks.length === 0) {
-    logger.warn(`No chunks generated from text for ${documentId}. No fragments to save.`);
-    return 0;
-  }
-
-  const docName = documentTitle || documentId.substring(0, 8);
-  logger.info(`[Document Processor] "${docName}": Split into ${chunks.length} chunks`);
-
-  // Get provider limits for rate limiting
+  // Get provider limits for rate limiting (semantic chunking already makes embedding requests)
   const providerLimits = await getProviderRateLimits();
   const CONCURRENCY_LIMIT = Math.min(30, providerLimits.maxConcurrentRequests || 30);
   const rateLimiter = createRateLimiter(
@@ -157,6 +188,78 @@ export async function processFragmentsSynchronously({
     `[Document Processor] Rate limits: ${providerLimits.requestsPerMinute} RPM, ${providerLimits.tokensPerMinute} TPM (${providerLimits.provider}, concurrency: ${CONCURRENCY_LIMIT})`
   );
 
+  // Split the text into chunks using the configured strategy and sizes
+  const chunkingConfig =
+    chunking ?? getChunkingConfig(runtime, contentType || 'text/plain', documentTitle || '');
+  let chunks: DocumentChunk[];
+  let parents: ParentChunk[] = [];
+  if (chunkingConfig.parentChunkSize > 0) {
+    ({ parents, children: chunks } = await splitDocumentIntoParentsAndChildren(
+      runtime,
+      fullDocumentText,
+      chunkingConfig,
+      rateLimiter,
+      sections,
+      pages,
+      headings
+    ));
+  } else {
+    chunks = await splitDocumentIntoChunks(
+      runtime,
+      fullDocumentText,
+      chunkingConfig,
+      rateLimiter,
+      sections,
+      pages,
+      headings
+    );
+  }
+
+  if (chunks.length === 0) {
+    logger.warn(`No chunks generated from text for ${documentId}. No fragments to save.`);
+    return 0;
+  }
+
+  if (lineNumbers) {
+    const getLineRange = createLineLocator(fullDocumentText);
+    const withLineRange = <T extends DocumentChunk>(chunk: T): T => {
+      const { startOffset, endOffset } = chunk.metadata || {};
+      return typeof startOffset === 'number' && typeof endOffset === 'number'
+        ? { ...chunk, metadata: { ...chunk.metadata, ...getLineRange({ startOffset, endOffset }) } }
+        : chunk;
+    };
+    chunks = chunks.map(withLineRange);
+    parents = parents.map(withLineRange);
+  }
+
+  const docName = documentTitle || documentId.substring(0, 8);
+  logger.info(
+    `[Document Processor] "${docName}": Split into ${chunks.length} chunks` +
+      (parents.length > 0 ? ` within ${parents.length} parent windows` : '')
+  );
+
+  for (const parent of parents) {
+    await runtime.createMemory(
+      {
+        id: parent.id,
+        agentId,
+        roomId: roomId || agentId,
+        worldId: worldId || agentId,
+        entityId: entityId || agentId,
+        content: { text: parent.text },
+        metadata: {
+          ...(parent.metadata || {}),
+          type: MemoryType.FRAGMENT,
+          documentId,
+          position: parent.position,
+          timestamp: Date.now(),
+          source: 'rag-service-parent-fragment',
+        },
+      },
+      PARENT_FRAGMENTS_TABLE
+    );
+  }
+
   // Process and save fragments
   const { savedCount, failedCount } = await processAndSaveFragments({
     runtime,
@@ -216,6 +319,24 @@ export async function extractTextFromDocument(
   contentType: string,
   originalFilename: string
 ): Promise<string> {
+  const extracted = await extractDocumentContent(fileBuffer, contentType, originalFilename);
+  return extracted.text;
+}
+
+/**
+ * Extract text plus any document structure (sections, document metadata) from a document buffer
+ * @param fileBuffer Document buffer
+ * @param contentType MIME type of the document
+ * @param originalFilename Original filename
+ * @param chunkSize The fragment size in tokens that size-aware extractors keep sections within
+ * @returns Extracted document
+ */
+export async function extractDocumentContent(
+  fileBuffer: Buffer,
+  contentType: string,
+  originalFilename: string,
+  chunkSize?: number
+): Promise<ExtractedDocument> {
   // Validate buffer
   if (!fileBuffer || fileBuffer.length === 0) {
     throw new Error(`Empty file buffer provided for ${originalFilename}. Cannot extract text.`);
@@ -224,27 +345,33 @@ export async function extractTextFromDocument(
   try {
     if (contentType === 'application/pdf') {
       logger.debug(`Extracting text from PDF: ${originalFilename}`);
-      return await convertPdfToTextFromBuffer(fileBuffer, originalFilename);
+      return await extractPdfFromBuffer(fileBuffer, originalFilename);
     } else {
       logger.debug(`Extracting text from non-PDF: ${originalFilename} (Type: ${contentType})`);
 
-      // For plain text files, try UTF-8 decoding first
+      // For plain text files, decode in the detected character encoding
       if (
         contentType.includes('text/') ||
         contentType.includes('application/json') ||
         contentType.includes('application/xml')
       ) {
         try {
-          return fileBuffer.toString('utf8');
+          const { text, encoding } = decodeTextBuffer(fileBuffer, contentType);
+          return { text, metadata: { encoding } };
         } catch (textError) {
           logger.warn(
-            `Failed to decode ${originalFilename} as UTF-8, falling back to binary extraction`
+            `Failed to decode ${originalFilename} as text, falling back to binary extraction`
           );
         }
       }
 
       // For other files, use general extraction
-      return await extractTextFromFileBuffer(fileBuffer, contentType, originalFilename);
+      return await extractDocumentFromFileBuffer(
+        fileBuffer,
+        contentType,
+        originalFilename,
+        chunkSize
+      );
     }
   } catch (error: any) {
     logger.error(`Error extracting text from ${originalFilename}: ${error.message}`);
@@ -312,26 +439,215 @@ export function createDocumentMemory({
 // =============================================================================
 
 /**
- * Split document text into chunks using standard parameters
+ * Split document text into chunks with the configured strategy.
+ * Every chunk that can be located in the document text records its `startOffset` and
+ * `endOffset` there, so that matches can be highlighted in the source.
+ * @param runtime The agent runtime, used for sentence embeddings by semantic chunking
  * @param documentText The full document text to split
- * @returns Array of text chunks
+ * @param chunking Chunking strategy and sizes in tokens
+ * @param rateLimiter Rate limiter for the embedding requests of semantic chunking
+ * @param sections Optional document sections; each is chunked on its own, and sections that
+ * already fit the chunk size are kept whole
+ * @param pages Optional page ranges within the document text
+ * @param headings Optional headings within the document text
+ * @returns Array of chunks with their offsets and the metadata of the section (or pages and
+ * heading) they came from
  */
-async function splitDocumentIntoChunks(documentText: string): Promise<string[]> {
-  // Use the standardized constants
-  const tokenChunkSize = DEFAULT_CHUNK_TOKEN_SIZE;
-  const tokenChunkOverlap = DEFAULT_CHUNK_OVERLAP_TOKENS;
+async function splitDocumentIntoChunks(
+  runtime: IAgentRuntime,
+  documentText: string,
+  chunking: ChunkingConfig,
+  rateLimiter: (estimatedTokens?: number) => Promise<void>,
+  sections?: DocumentSection[],
+  pages?: DocumentPage[],
+  headings?: DocumentHeading[]
+): Promise<DocumentChunk[]> {
+  const { chunkSize: tokenChunkSize, chunkOverlap: tokenChunkOverlap } = chunking;
 
   // Calculate character-based chunking sizes from token sizes for compatibility with splitChunks
   const targetCharChunkSize = Math.round(tokenChunkSize * DEFAULT_CHARS_PER_TOKEN);
   const targetCharChunkOverlap = Math.round(tokenChunkOverlap * DEFAULT_CHARS_PER_TOKEN);
 
   logger.debug(
-    `Using core splitChunks with settings: tokenChunkSize=${tokenChunkSize}, tokenChunkOverlap=${tokenChunkOverlap}, ` +
+    `Using ${chunking.strategy} chunking with settings: tokenChunkSize=${tokenChunkSize}, tokenChunkOverlap=${tokenChunkOverlap}, ` +
       `charChunkSize=${targetCharChunkSize}, charChunkOverlap=${targetCharChunkOverlap}`
   );
 
-  // Split the text into chunks
-  return await splitChunks(documentText, tokenChunkSize, tokenChunkOverlap);
+  const splitText = (text: string) => splitTextIntoChunks(runtime, text, chunking, rateLimiter);
+
+  let chunks: DocumentChunk[];
+  if (!sections || sections.length === 0) {
+    // Split the text into chunks
+    chunks = (await splitText(documentText)).map((text) => ({ text }));
+  } else {
+    // Chunk within section boundaries so every fragment maps back to a single section
+    chunks = [];
+    for (const section of sections) {
+      if (!section.text || section.text.trim() === '') {
+        continue;
+      }
+      const sectionChunks = keepsSectionWhole(section.text, chunking)
+        ? [section.text]
+        : await splitText(section.text);
+      chunks.push(...sectionChunks.map((text) => ({ text, metadata: section.metadata })));
+    }
+  }
+
+  const offsets = getChunkOffsets(
+    documentText,
+    chunks.map((chunk) => chunk.text)
+  );
+  return chunks.map((chunk, index) => {
+    const offset = offsets[index];
+    const metadata = {
+      ...(offset && pages && getPageRange(pages, offset)),
+      ...(offset && headings && getSectionPath(headings, offset.startOffset)),
+      ...chunk.metadata,
+      ...offset,
+    };
+    return Object.keys(metadata).length > 0 ? { text: chunk.text, metadata } : { text: chunk.text };
+  });
+}
+
+/**
+ * Whether a section becomes a fragment as it is. Structure-aware extractors already size their
+ * sections by the chunk size, so a section that fits is not split again (at the size limit or
+ * at topic changes). Table sections are always kept whole: splitting them would cut rows off
+ * from their header and leave the pieces with the row range of the whole section.
+ */
+function keepsSectionWhole(text: string, chunking: ChunkingConfig): boolean {
+  return (
+    chunking.profile === 'table' ||
+    text.length <= Math.round(chunking.chunkSize * DEFAULT_CHARS_PER_TOKEN)
+  );
+}
+
+/**
+ * Splits a document for parent-document retrieval: first into parent windows of
+ * `parentChunkSize` tokens without overlap (still within section boundaries), then each
+ * parent into child chunks with the regular chunking settings. Children carry their parent's
+ * metadata plus its `parentId` and their own offsets; parents are stored as they are and only
+ * children are embedded.
+ */
+async function splitDocumentIntoParentsAndChildren(
+  runtime: IAgentRuntime,
+  documentText: string,
+  chunking: ChunkingConfig,
+  rateLimiter: (estimatedTokens?: number) => Promise<void>,
+  sections?: DocumentSection[],
+  pages?: DocumentPage[],
+  headings?: DocumentHeading[]
+): Promise<{ parents: ParentChunk[]; children: DocumentChunk[] }> {
+  const parentChunks = await splitDocumentIntoChunks(
+    runtime,
+    documentText,
+    { ...chunking, strategy: 'fixed', chunkSize: chunking.parentChunkSize, chunkOverlap: 0 },
+    rateLimiter,
+    sections,
+    pages,
+    headings
+  );
+
+  const parents: ParentChunk[] = [];
+  const children: DocumentChunk[] = [];
+  for (const [position, parentChunk] of parentChunks.entries()) {
+    const parent = { ...parentChunk, id: uuidv4() as UUID, position };
+    parents.push(parent);
+    // A section that fits a child is its own child, so it keeps its boundaries and metadata
+    const childTexts =
+      sections?.length && keepsSectionWhole(parent.text, chunking)
+        ? [parent.text]
+        : await splitTextIntoChunks(runtime, parent.text, chunking, rateLimiter);
+    // Children are searched for from their parent's place in the document
+    const {
+      startOffset: parentStart,
+      endOffset: _parentEnd,
+      ...parentMetadata
+    } = parent.metadata || {};
+    const childOffsets =
+      typeof parentStart === 'number' ? getChunkOffsets(documentText, childTexts, parentStart) : [];
+    children.push(
+      ...childTexts.map((text, index) => ({
+        text,
+        metadata: { ...parentMetadata, parentId: parent.id, ...childOffsets[index] },
+      }))
+    );
+  }
+  return { parents, children };
+}
+
+/**
+ * Splits text with the configured strategy: fixed-size overlapping chunks, or semantic
+ * chunks that break at topic changes. Semantic chunking falls back to fixed-size chunks
+ * when the sentence embeddings cannot be generated.
+ * @param runtime The agent runtime, used for sentence embeddings by semantic chunking
+ * @param text The text to split
+ * @param chunking Chunking strategy and sizes in tokens
+ * @param rateLimiter Optional rate limiter for the embedding requests of semantic chunking
+ * @returns The chunks in text order
+ */
+export async function splitTextIntoChunks(
+  runtime: IAgentRuntime,
+  text: string,
+  chunking: ChunkingConfig,
+  rateLimiter?: (estimatedTokens?: number) => Promise<void>
+): Promise<string[]> {
+  if (chunking.strategy === 'semantic') {
+    try {
+      return await splitTextSemantically(runtime, text, {
+        maxChunkSize: chunking.chunkSize,
+        minChunkSize: chunking.minChunkSize,
+        breakpointPercentile: chunking.breakpointPercentile,
+        rateLimiter,
+      });
+    } catch (error: any) {
+      logger.warn(
+        `[Document Processor] Semantic chunking failed, using fixed-size chunks: ${error.message}`
+      );
+    }
+  }
+  return splitChunks(text, chunking.chunkSize, chunking.chunkOverlap);
+}
+
+/**
+ * Returns the first and last page a character range falls on, plus the lowest OCR
+ * confidence among them when some of those pages were read with OCR
+ */
+function getPageRange(
+  pages: DocumentPage[],
+  { startOffset, endOffset }: ChunkOffset
+): { pageStart: number; pageEnd: number; ocrConfidence?: number } | null {
+  const spanned = pages.filter(
+    (page) => page.startOffset < endOffset && page.endOffset > startOffset
+  );
+  if (spanned.length === 0) {
+    return null;
+  }
+  const ocrConfidences = spanned
+    .map((page) => page.ocrConfidence)
+    .filter((confidence): confidence is number => confidence !== undefined);
+  return {
+    pageStart: spanned[0].pageNumber,
+    pageEnd: spanned[spanned.length - 1].pageNumber,
+    ...(ocrConfidences.length > 0 ? { ocrConfidence: Math.min(...ocrConfidences) } : {}),
+  };
+}
+
+/**
+ * Returns the path of the last heading at or before an offset, i.e. the section it falls in
+ */
+function getSectionPath(
+  headings: DocumentHeading[],
+  offset: number
+): { sectionPath: string[] } | null {
+  let current: DocumentHeading | null = null;
+  for (const heading of headings) {
+    if (heading.startOffset > offset) {
+      break;
+    }
+    current = heading;
+  }
+  return current ? { sectionPath: current.path } : null;
 }
 
 /**
@@ -355,7 +671,7 @@ async function processAndSaveFragments({
 }: {
   runtime: IAgentRuntime;
   documentId: UUID;
-  chunks: string[];
+  chunks: DocumentChunk[];
   fullDocumentText: string;
   contentType?: string;
   agentId: UUID;
@@ -400,6 +716,10 @@ async function processAndSaveFragments({
       rateLimiter
     );
 
+    const contextsByIndex = new Map(
+      contextualizedChunks.map((chunk) => [chunk.index, chunk.context])
+    );
+
     // Save fragments with embeddings
     for (const result of embeddingResults) {
       const originalChunkIndex = result.index;
@@ -411,7 +731,7 @@ async function processAndSaveFragments({
         continue;
       }
 
-      const contextualizedChunkText = result.text;
+      const context = contextsByIndex.get(originalChunkIndex);
       const embedding = result.embedding;
 
       if (!embedding || embedding.length === 0) {
@@ -430,9 +750,14 @@ async function processAndSaveFragments({
           roomId: roomId || agentId,
           worldId: worldId || agentId,
           entityId: entityId || agentId,
-          embedding,
-          content: { text: contextualizedChunkText },
+          embedding, // Of the context followed by the chunk when CTX enrichment is on
+          content: {
+            text: chunks[originalChunkIndex].text,
+            // Kept apart so the original chunk stays available for display and citation
+            ...(context && { context }),
+          },
           metadata: {
+            ...(chunks[originalChunkIndex].metadata || {}),
             type: MemoryType.FRAGMENT,
             documentId,
             position: originalChunkIndex,
@@ -567,11 +892,13 @@ async function generateEmbeddingsForChunks(
 async function getContextualizedChunks(
   runtime: IAgentRuntime,
   fullDocumentText: string | undefined,
-  chunks: string[],
+  chunks: DocumentChunk[],
   contentType: string | undefined,
   batchOriginalIndices: number[],
   documentTitle?: string
-): Promise<Array<{ contextualizedText: string; index: number; success: boolean }>> {
+): Promise<
+  Array<{ contextualizedText: string; context?: string; index: number; success: boolean }>
+> {
   const ctxEnabled = getCtxKnowledgeEnabled(runtime);
 
   // Log configuration state once per document (not per batch)
@@ -601,8 +928,8 @@ async function getContextualizedChunks(
   }
 
   // If contextual Knowledge is disabled, prepare the chunks without modification
-  return chunks.map((chunkText, idx) => ({
-    contextualizedText: chunkText,
+  return chunks.map((chunk, idx) => ({
+    contextualizedText: chunk.text,
     index: batchOriginalIndices[idx],
     success: true,
   }));
@@ -614,11 +941,13 @@ async function getContextualizedChunks(
 async function generateContextsInBatch(
   runtime: IAgentRuntime,
   fullDocumentText: string,
-  chunks: string[],
+  chunks: DocumentChunk[],
   contentType?: string,
   batchIndices?: number[],
   documentTitle?: string
-): Promise<Array<{ contextualizedText: string; success: boolean; index: number }>> {
+): Promise<
+  Array<{ contextualizedText: string; context?: string; success: boolean; index: number }>
+> {
   if (!chunks || chunks.length === 0) {
     return [];
   }
@@ -705,7 +1034,15 @@ async function generateContextsInBatch(
           `context generation for chunk ${item.originalIndex}`
         );
 
-        const generatedContext = typeof llmResponse === 'string' ? llmResponse : llmResponse.text;
+        const generatedContext = (
+          typeof llmResponse === 'string' ? llmResponse : llmResponse.text
+        )?.trim();
+        if (!generatedContext) {
+          logger.warn(
+            `[Document Processor] Empty context generated for chunk ${item.originalIndex}, embedding the chunk alone`
+          );
+        }
+        // The context is stored on its own; the embedding is of the context and the chunk
         const contextualizedText = getChunkWithContext(item.chunkText, generatedContext);
 
         // Track context generation progress without spam
@@ -721,6 +1058,7 @@ async function generateContextsInBatch(
 
         return {
           contextualizedText,
+          ...(generatedContext && { context: generatedContext }),
           success: true,
           index: item.originalIndex,
         };
@@ -742,24 +1080,32 @@ async function generateContextsInBatch(
 }
 
 /**
- * Prepare prompts for contextualization
+ * Prepare prompts for contextualization.
+ * Chunks that know their section (e.g. Markdown or HTML headings) are shown to the model
+ * with a "Section: A > B" line so the generated context can name where they belong.
  */
 function prepareContextPrompts(
-  chunks: string[],
+  chunks: DocumentChunk[],
   fullDocumentText: string,
   contentType?: string,
   batchIndices?: number[],
   isUsingCacheCapableModel = false
 ): Array<any> {
-  return chunks.map((chunkText, idx) => {
+  return chunks.map((chunk, idx) => {
     const originalIndex = batchIndices ? batchIndices[idx] : idx;
+    const chunkText = chunk.text;
+    const sectionPath = chunk.metadata?.sectionPath;
+    const promptChunkText =
+      Array.isArray(sectionPath) && sectionPath.length > 0
+        ? `Section: ${sectionPath.join(' > ')}\n\n${chunkText}`
+        : chunkText;
     try {
       // If we're using OpenRouter with Claude/Gemini, use the newer caching approach
       if (isUsingCacheCapableModel) {
         // Get optimized caching prompt from ctx-embeddings.ts
         const cachingPromptInfo = contentType
-          ? getCachingPromptForMimeType(contentType, chunkText)
-          : getCachingContextualizationPrompt(chunkText);
+          ? getCachingPromptForMimeType(contentType, promptChunkText)
+          : getCachingContextualizationPrompt(promptChunkText);
 
         // If there was an error in prompt generation
         if (cachingPromptInfo.prompt.startsWith('Error:')) {
@@ -786,8 +1132,8 @@ function prepareContextPrompts(
       } else {
         // Original approach - embed document in the prompt
         const prompt = contentType
-          ? getPromptForMimeType(contentType, fullDocumentText, chunkText)
-          : getContextualizationPrompt(fullDocumentText, chunkText);
+          ? getPromptForMimeType(contentType, fullDocumentText, promptChunkText)
+          : getContextualizationPrompt(fullDocumentText, promptChunkText);
 
         if (prompt.startsWith('Error:')) {
           logger.warn(`Skipping contextualization for chunk ${originalIndex} due to: ${prompt}`);
@@ -0,0 +1,202 @@
+import { Buffer } from 'node:buffer';
+import { logger } from '@elizaos/core';
+import PostalMime, { type Address } from 'postal-mime';
+import { htmlToText } from './html.ts';
+import type { DocumentSection, ExtractedDocument } from './types.ts';
+
+export const EML_CONTENT_TYPE = 'message/rfc822';
+export const MBOX_CONTENT_TYPE = 'application/mbox';
+
+// Attachment types indexed as child documents besides text/*
+const TEXT_ATTACHMENT_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/x-yaml',
+  'application/yaml',
+  'application/x-ipynb+json',
+];
+// Reply and forward prefixes stripped from subjects when no message ids tie a thread together
+const SUBJECT_PREFIX = /^\s*((re|fw|fwd|aw|sv|wg|antw)\s*(\[\d+\])?\s*:\s*)+/i;
+
+/**
+ * A text attachment of an email, to be indexed as its own document
+ */
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * An email extracted as a document, along with its text attachments
+ */
+export interface ExtractedEmail {
+  document: ExtractedDocument;
+  attachments: EmailAttachment[];
+}
+
+/**
+ * Checks whether a file is a single email (.eml) or a mailbox (.mbox)
+ */
+export function isEmailFile(contentType: string, filename: string): boolean {
+  const lowerContentType = contentType.toLowerCase();
+  const lowerFilename = filename.toLowerCase();
+  return (
+    lowerContentType === EML_CONTENT_TYPE ||
+    lowerContentType === MBOX_CONTENT_TYPE ||
+    lowerFilename.endsWith('.eml') ||
+    lowerFilename.endsWith('.mbox')
+  );
+}
+
+/**
+ * Extracts every email of an .eml or .mbox file.
+ * Files starting with an mbox "From " separator line are split into their messages;
+ * anything else is read as a single message.
+ */
+export async function extractEmailsFromBuffer(
+  fileBuffer: Buffer,
+  originalFilename: string
+): Promise<ExtractedEmail[]> {
+  const messages = splitMbox(fileBuffer);
+  const emails: ExtractedEmail[] = [];
+  for (const [index, message] of messages.entries()) {
+    try {
+      emails.push(await extractEmail(message));
+    } catch (error: any) {
+      logger.warn(
+        `[Email] ${originalFilename}: skipping message ${index + 1} that could not be parsed: ${error.message}`
+      );
+    }
+  }
+
+  logger.debug(
+    `[Email] ${originalFilename}: extracted ${emails.length}/${messages.length} messages`
+  );
+  if (emails.length === 0) {
+    throw new Error('No email messages could be parsed');
+  }
+  return emails;
+}
+
+/**
+ * Extracts an .eml or .mbox file as one document with a section per message.
+ * Used where a file maps to a single document; the knowledge service instead stores
+ * each message as its own document with `extractEmailsFromBuffer`.
+ */
+export async function extractMailboxFromBuffer(
+  fileBuffer: Buffer,
+  originalFilename: string
+): Promise<ExtractedDocument> {
+  const emails = await extractEmailsFromBuffer(fileBuffer, originalFilename);
+  const sections: DocumentSection[] = emails.map(({ document }) => ({
+    text: document.text,
+    metadata: document.metadata,
+  }));
+  return {
+    text: sections.map((section) => section.text).join('\n\n'),
+    sections,
+    metadata: emails.length === 1 ? emails[0].document.metadata : { messageCount: emails.length },
+  };
+}
+
+/**
+ * Parses a single RFC 822 message.
+ * The text is a short header block (subject, from, to, cc, date) followed by the body, which
+ * comes from the text/plain part or, for HTML-only mail, from the HTML part converted to text.
+ * Metadata carries the sender, recipients, date, subject and a thread id: the root message id
+ * from References, else In-Reply-To, else the message's own id.
+ */
+export async function extractEmail(rawMessage: Buffer): Promise<ExtractedEmail> {
+  const email = await PostalMime.parse(rawMessage);
+
+  const from = email.from ? formatAddresses([email.from]) : [];
+  const to = formatAddresses(email.to);
+  const cc = formatAddresses(email.cc);
+  const subject = email.subject?.trim() || '';
+  const body = (email.text?.trim() ? email.text : email.html ? htmlToText(email.html) : '').trim();
+
+  const header = [
+    subject && `Subject: ${subject}`,
+    from.length > 0 && `From: ${from.join(', ')}`,
+    to.length > 0 && `To: ${to.join(', ')}`,
+    cc.length > 0 && `Cc: ${cc.join(', ')}`,
+    email.date && `Date: ${email.date}`,
+  ].filter(Boolean);
+
+  const messageId = stripAngleBrackets(email.messageId);
+  const inReplyTo = stripAngleBrackets(email.inReplyTo);
+  const threadRoot = email.references?.match(/<[^>]+>/)?.[0];
+  const threadId =
+    stripAngleBrackets(threadRoot) ||
+    inReplyTo ||
+    messageId ||
+    subject.replace(SUBJECT_PREFIX, '').trim() ||
+    undefined;
+
+  const attachments: EmailAttachment[] = email.attachments
+    .filter((attachment) => isTextAttachment(attachment.mimeType))
+    .map((attachment, index) => ({
+      filename: attachment.filename || `attachment-${index + 1}.txt`,
+      contentType: attachment.mimeType,
+      content: toBuffer(attachment.content),
+    }));
+
+  return {
+    document: {
+      text: [header.join('\n'), body].filter(Boolean).join('\n\n'),
+      metadata: {
+        ...(subject ? { title: subject, subject } : {}),
+        ...(from.length > 0 ? { from: from[0] } : {}),
+        ...(to.length > 0 ? { to } : {}),
+        ...(cc.length > 0 ? { cc } : {}),
+        ...(email.date ? { date: email.date } : {}),
+        ...(messageId ? { messageId } : {}),
+        ...(inReplyTo ? { inReplyTo } : {}),
+        ...(threadId ? { threadId } : {}),
+      },
+    },
+    attachments,
+  };
+}
+
+/**
+ * Splits an mbox file into its raw messages, dropping the "From " separator lines and
+ * unescaping body lines quoted as ">From ". Other files are returned as a single message.
+ * Bytes are handled as Latin-1 so every message part keeps its own charset.
+ */
+function splitMbox(fileBuffer: Buffer): Buffer[] {
+  const content = fileBuffer.toString('latin1');
+  if (!content.startsWith('From ')) {
+    return [fileBuffer];
+  }
+  return content
+    .split(/\r?\n(?=From )/)
+    .map((message) => message.slice(message.indexOf('\n') + 1))
+    .filter((message) => message.trim().length > 0)
+    .map((message) => Buffer.from(message.replace(/^>(>*From )/gm, '$1'), 'latin1'));
+}
+
+function formatAddresses(addresses: Address[] | undefined): string[] {
+  return (addresses || [])
+    .flatMap((address) => (address.group ? address.group : [address]))
+    .map(({ name, address }) => (name && address ? `${name} <${address}>` : address || name))
+    .filter((address): address is string => !!address);
+}
+
+function stripAngleBrackets(messageId: string | undefined): string | undefined {
+  return messageId?.trim().replace(/^<|>$/g, '') || undefined;
+}
+
+function isTextAttachment(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || TEXT_ATTACHMENT_TYPES.includes(mimeType);
+}
+
+function toBuffer(content: ArrayBuffer | Uint8Array | string): Buffer {
+  if (typeof content === 'string') {
+    return Buffer.from(content, 'utf8');
+  }
+  return content instanceof Uint8Array
+    ? Buffer.from(content)
+    : Buffer.from(new Uint8Array(content));
+}
@@ -0,0 +1,215 @@
+import { Buffer } from 'node:buffer';
+
+// Only this many leading bytes are inspected for the UTF-16 zero-byte pattern
+const UTF16_SAMPLE_BYTES = 4096;
+// Share of zero bytes in one column (even/odd positions) that marks ASCII-heavy UTF-16,
+// and the most the other column may have
+const UTF16_ZERO_RATIO = 0.3;
+const UTF16_OTHER_ZERO_RATIO = 0.05;
+// Share of high bytes standing alone between ASCII bytes above which text is single-byte
+const ISOLATED_HIGH_BYTE_RATIO = 0.5;
+// Share of common characters a multibyte candidate needs before it is trusted
+const MIN_COMMON_CHARACTER_RATIO = 0.05;
+const SINGLE_BYTE_FALLBACK = 'windows-1252';
+
+// Characters that are frequent in real text of a language. Decoding a file with the wrong
+// encoding rarely produces them, which makes them a cheap plausibility score.
+const COMMON_JAPANESE = 'のにはをたがでてとしいするなかもれこっ。、';
+const COMMON_KOREAN = '이다는의에하고을를가한지서로기사도있니';
+const COMMON_SIMPLIFIED_CHINESE =
+  '的一是不了在人有我他这个们中来上大为和国地到以说时要就出会可也你对生能而子那得于着下自之年过发后作里。，';
+const COMMON_TRADITIONAL_CHINESE =
+  '的一是不了在人有我他這個們中來上大為和國地到以說時要就出會可也你對生能而子那得於著下自之年過發後作裡。，';
+const COMMON_CJK =
+  COMMON_JAPANESE + COMMON_KOREAN + COMMON_SIMPLIFIED_CHINESE + COMMON_TRADITIONAL_CHINESE;
+
+/**
+ * Legacy double-byte encodings tried for text that is neither UTF-8 nor Latin-1 like
+ */
+const DOUBLE_BYTE_CANDIDATES = [
+  { encoding: 'shift_jis', commonCharacters: COMMON_JAPANESE },
+  { encoding: 'euc-jp', commonCharacters: COMMON_JAPANESE },
+  { encoding: 'euc-kr', commonCharacters: COMMON_KOREAN },
+  { encoding: 'gb18030', commonCharacters: COMMON_SIMPLIFIED_CHINESE },
+  { encoding: 'big5', commonCharacters: COMMON_TRADITIONAL_CHINESE },
+];
+
+/**
+ * UTF-16 without a BOM and with too little ASCII to show the zero-byte pattern (CJK text)
+ */
+const UTF16_CANDIDATES = [
+  { encoding: 'utf-16le', commonCharacters: COMMON_CJK },
+  { encoding: 'utf-16be', commonCharacters: COMMON_CJK },
+];
+
+/**
+ * Text decoded from a buffer along with the encoding it was read as
+ */
+export interface DecodedText {
+  text: string;
+  /** WHATWG encoding name, e.g. 'utf-8', 'utf-16le', 'shift_jis', 'windows-1252' */
+  encoding: string;
+}
+
+/**
+ * Detects the character encoding of a text file.
+ * In order: a byte order mark, the charset declared in the content type (if it decodes
+ * cleanly), the zero-byte pattern of UTF-16 without a BOM, strict UTF-8, and finally the
+ * legacy double-byte encodings and BOM-less UTF-16 scored by how plausible their output
+ * is, with Windows-1252 (a superset of Latin-1) as the single-byte fallback.
+ * Returns null for content with NUL bytes that is not UTF-16, which is most likely binary.
+ */
+export function detectEncoding(buffer: Buffer, contentType?: string): string | null {
+  const bomEncoding = getBomEncoding(buffer);
+  if (bomEncoding) {
+    return bomEncoding;
+  }
+
+  const declared = getDeclaredCharset(contentType);
+  if (declared && tryDecode(buffer, declared) !== null) {
+    return new TextDecoder(declared).encoding;
+  }
+
+  const utf16Encoding = getUtf16Encoding(buffer);
+  if (utf16Encoding) {
+    return utf16Encoding;
+  }
+  if (tryDecode(buffer, 'utf-8') !== null) {
+    return 'utf-8';
+  }
+  if (buffer.includes(0)) {
+    return null;
+  }
+
+  // Isolated high bytes are accented letters of single-byte text, not double-byte characters
+  const candidates =
+    getIsolatedHighByteRatio(buffer) > ISOLATED_HIGH_BYTE_RATIO
+      ? UTF16_CANDIDATES
+      : [...DOUBLE_BYTE_CANDIDATES, ...UTF16_CANDIDATES];
+  let best = { encoding: SINGLE_BYTE_FALLBACK, score: MIN_COMMON_CHARACTER_RATIO };
+  for (const { encoding, commonCharacters } of candidates) {
+    const text = tryDecode(buffer, encoding);
+    const score = text === null ? 0 : getCommonCharacterRatio(text, commonCharacters);
+    if (score > best.score) {
+      best = { encoding, score };
+    }
+  }
+  return best.encoding;
+}
+
+/**
+ * Decodes a text file to a string in its detected encoding; byte order marks are dropped.
+ * Throws when the content looks binary rather than like text in any known encoding.
+ */
+export function decodeTextBuffer(buffer: Buffer, contentType?: string): DecodedText {
+  const encoding = detectEncoding(buffer, contentType);
+  if (!encoding) {
+    throw new Error('Content appears to be binary, not text in a known encoding');
+  }
+  return { text: new TextDecoder(encoding).decode(buffer), encoding };
+}
+
+function getBomEncoding(buffer: Buffer): string | null {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return 'utf-16be';
+  }
+  return null;
+}
+
+/**
+ * Reads the charset parameter of a content type (e.g. `text/plain; charset=Shift_JIS`)
+ * if the platform can decode it
+ */
+function getDeclaredCharset(contentType?: string): string | null {
+  const charset = contentType?.match(/;\s*charset="?([^";\s]+)"?/i)?.[1];
+  if (!charset) {
+    return null;
+  }
+  try {
+    return new TextDecoder(charset).encoding;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Recognizes UTF-16 without a BOM by its zero bytes: mostly-ASCII UTF-16 text has a zero
+ * in every second byte, at odd positions for little endian and even ones for big endian
+ */
+function getUtf16Encoding(buffer: Buffer): string | null {
+  const sample = buffer.subarray(0, Math.min(buffer.length, UTF16_SAMPLE_BYTES));
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs === 0) {
+    return null;
+  }
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let index = 0; index < pairs * 2; index += 2) {
+    if (sample[index] === 0) evenZeros++;
+    if (sample[index + 1] === 0) oddZeros++;
+  }
+  if (oddZeros / pairs > UTF16_ZERO_RATIO && evenZeros / pairs < UTF16_OTHER_ZERO_RATIO) {
+    return 'utf-16le';
+  }
+  if (evenZeros / pairs > UTF16_ZERO_RATIO && oddZeros / pairs < UTF16_OTHER_ZERO_RATIO) {
+    return 'utf-16be';
+  }
+  return null;
+}
+
+/**
+ * Share of bytes >= 0x80 with only ASCII neighbours. Accented letters in Latin-1 text stand
+ * alone between ASCII letters, while multibyte encodings put high bytes next to each other.
+ */
+function getIsolatedHighByteRatio(buffer: Buffer): number {
+  let highBytes = 0;
+  let isolated = 0;
+  for (let index = 0; index < buffer.length; index++) {
+    if (buffer[index] < 0x80) {
+      continue;
+    }
+    highBytes++;
+    const previousIsHigh = index > 0 && buffer[index - 1] >= 0x80;
+    const nextIsHigh = index + 1 < buffer.length && buffer[index + 1] >= 0x80;
+    if (!previousIsHigh && !nextIsHigh) {
+      isolated++;
+    }
+  }
+  return highBytes === 0 ? 0 : isolated / highBytes;
+}
+
+/**
+ * Share of the non-ASCII characters of a text that are among the given common characters
+ */
+function getCommonCharacterRatio(text: string, commonCharacters: string): number {
+  let nonAscii = 0;
+  let common = 0;
+  for (const character of text) {
+    if (character.charCodeAt(0) < 0x80) {
+      continue;
+    }
+    nonAscii++;
+    if (commonCharacters.includes(character)) {
+      common++;
+    }
+  }
+  return nonAscii === 0 ? 0 : common / nonAscii;
+}
+
+/**
+ * Decodes strictly, returning null when the bytes are not valid in the encoding
+ */
+function tryDecode(buffer: Buffer, encoding: string): string | null {
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(buffer);
+  } catch {
+    return null;
+  }
+}
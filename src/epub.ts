@@ -0,0 +1,204 @@
+import { Buffer } from 'node:buffer';
+import { logger } from '@elizaos/core';
+import JSZip from 'jszip';
+import * as path from 'path';
+import { htmlElementToText, parseHtml } from './html.ts';
+import type { DocumentSection, ExtractedDocument } from './types.ts';
+import { getElementsByLocalName, readZipXml } from './xml.ts';
+
+export const EPUB_CONTENT_TYPE = 'application/epub+zip';
+
+const CHAPTER_MEDIA_TYPES = ['application/xhtml+xml', 'text/html'];
+
+/**
+ * An entry of the package manifest, with its href resolved against the zip root
+ */
+interface ManifestItem {
+  path: string;
+  mediaType: string;
+  properties: string[];
+}
+
+/**
+ * Checks whether a file is an EPUB e-book
+ */
+export function isEpubFile(contentType: string, filename: string): boolean {
+  return (
+    contentType.toLowerCase() === EPUB_CONTENT_TYPE || filename.toLowerCase().endsWith('.epub')
+  );
+}
+
+/**
+ * Extracts an EPUB book chapter by chapter.
+ * The container points at the package document, whose spine gives the reading order.
+ * Every spine document becomes its own section titled from the table of contents
+ * (EPUB 3 nav or EPUB 2 NCX), falling back to its first heading; documents without
+ * either continue the previous chapter's title.
+ */
+export async function extractEpubFromBuffer(
+  fileBuffer: Buffer,
+  originalFilename: string
+): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(fileBuffer);
+  const container = await readZipXml(zip, 'META-INF/container.xml');
+  const packagePath = container
+    ? getElementsByLocalName(container, 'rootfile')[0]?.getAttribute('full-path')
+    : null;
+  if (!packagePath) {
+    throw new Error('Missing package document in META-INF/container.xml, not a valid EPUB file');
+  }
+
+  const packageDoc = await readZipXml(zip, packagePath);
+  if (!packageDoc) {
+    throw new Error(`Missing package document ${packagePath}`);
+  }
+
+  const manifest = new Map<string, ManifestItem>();
+  for (const item of getElementsByLocalName(packageDoc, 'item')) {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) {
+      manifest.set(id, {
+        path: resolveHref(packagePath, href),
+        mediaType: item.getAttribute('media-type') || '',
+        properties: (item.getAttribute('properties') || '').split(/\s+/).filter(Boolean),
+      });
+    }
+  }
+
+  const spine = getElementsByLocalName(packageDoc, 'spine')[0];
+  const chapterTitles = await getTableOfContents(zip, manifest, spine);
+
+  // Non-linear spine items are auxiliary content (pop-up footnotes, answer keys)
+  const chapterItems = getElementsByLocalName(packageDoc, 'itemref')
+    .filter((itemref) => itemref.getAttribute('linear') !== 'no')
+    .map((itemref) => manifest.get(itemref.getAttribute('idref') || ''))
+    .filter((item): item is ManifestItem => !!item && CHAPTER_MEDIA_TYPES.includes(item.mediaType));
+
+  const sections: DocumentSection[] = [];
+  let currentTitle: string | undefined;
+  for (const item of chapterItems) {
+    const entry = zip.file(item.path);
+    if (!entry) {
+      logger.warn(`[Epub] ${originalFilename}: spine document ${item.path} is missing`);
+      continue;
+    }
+
+    const root = parseHtml(await entry.async('string'));
+    const heading = root.querySelector('h1, h2, h3')?.text.replace(/\s+/g, ' ').trim();
+    currentTitle = chapterTitles.get(item.path) || heading || currentTitle;
+
+    const text = htmlElementToText(root.querySelector('body') || root);
+    if (!text) {
+      continue; // Cover pages and image-only documents
+    }
+
+    sections.push({
+      text,
+      metadata: {
+        chapterIndex: sections.length + 1,
+        ...(currentTitle ? { chapterTitle: currentTitle } : {}),
+        chapterHref: item.path,
+      },
+    });
+  }
+
+  logger.debug(
+    `[Epub] ${originalFilename}: extracted ${sections.length}/${chapterItems.length} spine documents`
+  );
+
+  return {
+    text: sections.map((section) => section.text).join('\n\n'),
+    sections,
+    metadata: {
+      ...getPackageMetadata(packageDoc),
+      chapterCount: sections.length,
+    },
+  };
+}
+
+/**
+ * Reads the book's Dublin Core title, authors, language and publisher
+ */
+function getPackageMetadata(packageDoc: Document): Record<string, unknown> {
+  const read = (localName: string) =>
+    getElementsByLocalName(packageDoc, localName)
+      .filter((element) => element.namespaceURI === 'http://purl.org/dc/elements/1.1/')
+      .map((element) => (element.textContent || '').replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+
+  const [title] = read('title');
+  const authors = read('creator');
+  const [language] = read('language');
+  const [publisher] = read('publisher');
+
+  return {
+    ...(title ? { title } : {}),
+    ...(authors.length > 0 ? { author: authors.join(', ') } : {}),
+    ...(language ? { language } : {}),
+    ...(publisher ? { publisher } : {}),
+  };
+}
+
+/**
+ * Maps spine document paths to their table of contents label.
+ * EPUB 3 books declare a navigation document in the manifest, EPUB 2 books an NCX
+ * referenced from the spine. Only the first entry pointing into a document is kept.
+ */
+async function getTableOfContents(
+  zip: JSZip,
+  manifest: Map<string, ManifestItem>,
+  spine: Element | undefined
+): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  const addTitle = (basePath: string, href: string | undefined, label: string) => {
+    const title = label.replace(/\s+/g, ' ').trim();
+    if (href && title) {
+      const target = resolveHref(basePath, href);
+      if (!titles.has(target)) {
+        titles.set(target, title);
+      }
+    }
+  };
+
+  const navItem = Array.from(manifest.values()).find((item) => item.properties.includes('nav'));
+  const navEntry = navItem ? zip.file(navItem.path) : null;
+  if (navItem && navEntry) {
+    const nav = parseHtml(await navEntry.async('string'));
+    const navs = nav.querySelectorAll('nav');
+    const tocNav =
+      navs.find((element) => (element.getAttribute('epub:type') || '').includes('toc')) || navs[0];
+    for (const link of tocNav?.querySelectorAll('a') || []) {
+      addTitle(navItem.path, link.getAttribute('href'), link.text);
+    }
+    if (titles.size > 0) {
+      return titles;
+    }
+  }
+
+  const ncxItem = manifest.get(spine?.getAttribute('toc') || '');
+  const ncx = ncxItem ? await readZipXml(zip, ncxItem.path) : null;
+  if (ncxItem && ncx) {
+    for (const navPoint of getElementsByLocalName(ncx, 'navPoint')) {
+      const label = getElementsByLocalName(navPoint, 'text')[0]?.textContent || '';
+      const src = getElementsByLocalName(navPoint, 'content')[0]?.getAttribute('src') || undefined;
+      addTitle(ncxItem.path, src, label);
+    }
+  }
+
+  return titles;
+}
+
+/**
+ * Resolves a (URL-encoded, possibly fragment-bearing) href against the document it appears in
+ */
+function resolveHref(basePath: string, href: string): string {
+  const [hrefPath] = href.split('#');
+  let decoded = hrefPath;
+  try {
+    decoded = decodeURIComponent(hrefPath);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  return path.posix.normalize(path.posix.join(path.posix.dirname(basePath), decoded));
+}
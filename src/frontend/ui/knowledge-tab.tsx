@@ -201,7 +201,7 @@ const getCorrectMimeType = (file: File): string => {
     'txt',
   ];
 
-  const markdownExtensions = ['md', 'markdown'];
+  const markdownExtensions = ['md', 'markdown', 'mdx'];
   const jsonExtensions = ['json'];
   const xmlExtensions = ['xml'];
   const htmlExtensions = ['html', 'htm'];
@@ -226,12 +226,44 @@ const getCorrectMimeType = (file: File): string => {
     return 'text/csv';
   } else if (yamlExtensions.includes(ext)) {
     return 'text/yaml';
+  } else if (ext === 'toml') {
+    return 'application/toml';
   } else if (ext === 'pdf') {
     return 'application/pdf';
   } else if (ext === 'doc') {
     return 'application/msword';
   } else if (ext === 'docx') {
     return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+  } else if (ext === 'xlsx') {
+    return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+  } else if (ext === 'ods') {
+    return 'application/vnd.oasis.opendocument.spreadsheet';
+  } else if (ext === 'pptx') {
+    return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+  } else if (ext === 'epub') {
+    return 'application/epub+zip';
+  } else if (ext === 'ipynb') {
+    return 'application/x-ipynb+json';
+  } else if (ext === 'srt') {
+    return 'application/x-subrip';
+  } else if (ext === 'vtt') {
+    return 'text/vtt';
+  } else if (ext === 'eml') {
+    return 'message/rfc822';
+  } else if (ext === 'mbox') {
+    return 'application/mbox';
+  } else if (ext === 'zip') {
+    return 'application/zip';
+  } else if (ext === 'tar') {
+    return 'application/x-tar';
+  } else if (ext === 'tgz' || ext === 'gz') {
+    return 'application/gzip';
+  } else if (ext === 'jpg' || ext === 'jpeg') {
+    return 'image/jpeg';
+  } else if (ext === 'tif' || ext === 'tiff') {
+    return 'image/tiff';
+  } else if (['png', 'gif', 'bmp', 'webp'].includes(ext)) {
+    return `image/${ext}`;
   }
 
   // Return the original MIME type if not recognized
@@ -318,6 +350,18 @@ const apiClient = {
     return await response.json();
   },
 
+  getKnowledgeDocument: async (agentId: UUID, knowledgeId: UUID) => {
+    const params = new URLSearchParams();
+    params.append('agentId', agentId);
+
+    const response = await fetch(`/api/documents/${knowledgeId}?${params.toString()}`);
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to fetch knowledge document: ${response.status} ${errorText}`);
+    }
+    return await response.json();
+  },
+
   searchKnowledge: async (
     agentId: UUID,
     query: string,
@@ -339,6 +383,31 @@ const apiClient = {
   },
 };
 
+// Builds a data URL to preview an uploaded image from its document, whose content is the
+// original image bytes (base64); returns null for other documents
+const getImageDataUrl = (memory: Memory): string | null => {
+  const metadata = (memory.metadata as MemoryMetadata) || {};
+  const contentType = metadata.contentType || '';
+  const base64Content = memory.content?.text?.trim();
+  return contentType.startsWith('image/') && base64Content
+    ? `data:${contentType};base64,${base64Content}`
+    : null;
+};
+
+// Formats the pages a fragment came from, e.g. "Page 3" or "Pages 3–5"
+const formatPageRange = (pageStart: number, pageEnd?: number) =>
+  pageEnd !== undefined && pageEnd !== pageStart
+    ? `Pages ${pageStart}–${pageEnd}`
+    : `Page ${pageStart}`;
+
+// Formats a transcript time in seconds as m:ss or h:mm:ss
+const formatTimestamp = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const [h, m, s] = [Math.floor(total / 3600), Math.floor((total % 3600) / 60), total % 60];
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+};
+
 const useKnowledgeDocuments = (
   agentId: UUID,
   enabled: boolean = true,
@@ -428,7 +497,14 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
   const [loadingMore, setLoadingMore] = useState(false);
   const [viewMode, setViewMode] = useState<'list' | 'graph'>('list');
   const [selectedMemory, setSelectedMemory] = useState<Memory | null>(null);
+  const [showContextualizedText, setShowContextualizedText] = useState(false);
   const [pdfZoom, setPdfZoom] = useState(1.0);
+  const [pdfPage, setPdfPage] = useState<number | null>(null);
+  // Character range of the fragment a text document was opened from
+  const [highlightRange, setHighlightRange] = useState<{
+    startOffset: number;
+    endOffset: number;
+  } | null>(null);
   const [showUrlDialog, setShowUrlDialog] = useState(false);
   const [urlInput, setUrlInput] = useState('');
   const [isUrlUploading, setIsUrlUploading] = useState(false);
@@ -449,6 +525,7 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -525,6 +602,8 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
       if (event.key === 'Escape' && viewingContent) {
         setViewingContent(null);
         setPdfZoom(1.0); // Reset zoom when closing
+        setPdfPage(null);
+        setHighlightRange(null);
       }
     };
 
@@ -534,6 +613,11 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
     }
   }, [viewingContent]);
 
+  // Scroll the highlighted fragment into view once its document is shown
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [viewingContent, highlightRange]);
+
   useEffect(() => {
     const scrollContainer = scrollContainerRef.current;
     if (scrollContainer) {
@@ -623,6 +707,26 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
     setUrls(urls.filter((url) => url !== urlToRemove));
   };
 
+  // Opens a search result's parent document at the page (PDFs) or passage the fragment came from
+  const handleOpenSource = async (result: any) => {
+    try {
+      const response = await apiClient.getKnowledgeDocument(agentId, result.metadata.documentId);
+      setPdfPage(result.metadata.pageStart ?? null);
+      setHighlightRange(
+        typeof result.metadata.startOffset === 'number'
+          ? { startOffset: result.metadata.startOffset, endOffset: result.metadata.endOffset }
+          : null
+      );
+      setViewingContent(response.data.document);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to open the source document',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleSearch = async () => {
     if (!searchQuery.trim()) {
       setSearchError('Please enter a search query');
@@ -984,6 +1088,7 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
     const displayName = getDocumentName();
     const subtitle = getSubtitle();
     const fileExt = getFileExtension();
+    const imageDataUrl = getImageDataUrl(memory);
 
     return (
       <button
@@ -995,7 +1100,17 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
         <div className="flex items-center px-1 py-2 min-h-[2rem]">
           {/* Left side: Icon + Filename + Pill + Date */}
           <div className="flex items-center gap-2 flex-1 min-w-0">
-            <div className="flex-shrink-0">{getFileIcon(displayName)}</div>
+            <div className="flex-shrink-0">
+              {imageDataUrl ? (
+                <img
+                  src={imageDataUrl}
+                  alt={metadata.description || displayName}
+                  className="h-10 w-10 rounded object-cover border border-border"
+                />
+              ) : (
+                getFileIcon(displayName)
+              )}
+            </div>
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-2 mb-1">
                 <span className="text-xs font-medium truncate">{subtitle}</span>
@@ -1003,6 +1118,11 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
                   {fileExt || 'doc'}
                 </Badge>
               </div>
+              {imageDataUrl && metadata.description && (
+                <div className="text-xs text-muted-foreground truncate mb-0.5">
+                  {metadata.description}
+                </div>
+              )}
               <div className="text-xs text-muted-foreground">
                 {new Date(memory.createdAt || 0).toLocaleString(undefined, {
                   month: 'numeric',
@@ -1044,6 +1164,8 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
   const MemoryDetails = ({ memory }: { memory: Memory }) => {
     const metadata = memory.metadata as MemoryMetadata;
     const isFragment = metadata?.type === 'fragment';
+    // Fragments enriched with contextual knowledge keep their generated context apart
+    const context = memory.content?.context as string | undefined;
 
     return (
       <div className="border-t border-border bg-card text-card-foreground h-full flex flex-col">
@@ -1082,6 +1204,87 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
                 <div>Position: {metadata.position}</div>
               )}
 
+              {isFragment && metadata.range && <div>Range: {metadata.range}</div>}
+
+              {isFragment && !metadata.range && metadata.rowStart !== undefined && (
+                <div>
+                  Rows: {metadata.rowStart}–{metadata.rowEnd}
+                </div>
+              )}
+
+              {isFragment && metadata.slideNumber !== undefined && (
+                <div>Slide: {metadata.slideNumber}</div>
+              )}
+
+              {isFragment && metadata.chapterTitle && <div>Chapter: {metadata.chapterTitle}</div>}
+
+              {isFragment && metadata.cellIndex !== undefined && (
+                <div>
+                  Cell: {metadata.cellIndex} ({metadata.cellType})
+                </div>
+              )}
+
+              {isFragment && metadata.pageStart !== undefined && (
+                <div>{formatPageRange(metadata.pageStart, metadata.pageEnd)}</div>
+              )}
+
+              {isFragment && typeof metadata.startTime === 'number' && (
+                <div>
+                  Time: {formatTimestamp(metadata.startTime)}–{formatTimestamp(metadata.endTime)}
+                </div>
+              )}
+
+              {isFragment && metadata.speaker && <div>Speaker: {metadata.speaker}</div>}
+
+              {isFragment && metadata.symbolName && (
+                <div>
+                  Symbol: {metadata.symbolName} ({metadata.symbolKind})
+                </div>
+              )}
+
+              {isFragment && metadata.startLine !== undefined && (
+                <div>
+                  Lines: {metadata.startLine}–{metadata.endLine}
+                </div>
+              )}
+
+              {isFragment && typeof metadata.startOffset === 'number' && (
+                <div>
+                  Characters: {metadata.startOffset}–{metadata.endOffset}
+                </div>
+              )}
+
+              {isFragment && metadata.jsonPath && (
+                <div className="col-span-2">
+                  Path: {metadata.jsonPath}
+                  {metadata.operationId && ` (${metadata.operationId})`}
+                </div>
+              )}
+
+              {isFragment && Array.isArray(metadata.sectionPath) && (
+                <div className="col-span-2">Section: {metadata.sectionPath.join(' › ')}</div>
+              )}
+
+              {!isFragment && metadata.author && <div>Author: {metadata.author}</div>}
+
+              {!isFragment && Array.isArray(metadata.tags) && metadata.tags.length > 0 && (
+                <div className="col-span-2">Tags: {metadata.tags.join(', ')}</div>
+              )}
+
+              {!isFragment && metadata.from && <div>From: {metadata.from}</div>}
+
+              {!isFragment && Array.isArray(metadata.to) && (
+                <div className="col-span-2">To: {metadata.to.join(', ')}</div>
+              )}
+
+              {!isFragment && metadata.date && (
+                <div>Sent: {new Date(metadata.date).toLocaleString()}</div>
+              )}
+
+              {isFragment && typeof metadata.ocrConfidence === 'number' && (
+                <div>OCR confidence: {Math.round(metadata.ocrConfidence * 100)}%</div>
+              )}
+
               {metadata.source && <div>Source: {metadata.source}</div>}
 
               <div>Created on: {formatDate(memory.createdAt || 0)}</div>
@@ -1099,9 +1302,31 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
         </div>
 
         <div className="px-4 pb-4 flex-1 flex flex-col">
+          {isFragment && context && (
+            <div className="mb-2 flex items-center gap-1 flex-shrink-0">
+              <Button
+                variant={showContextualizedText ? 'ghost' : 'outline'}
+                size="sm"
+                onClick={() => setShowContextualizedText(false)}
+                className="text-xs h-6 px-2"
+              >
+                Original
+              </Button>
+              <Button
+                variant={showContextualizedText ? 'outline' : 'ghost'}
+                size="sm"
+                onClick={() => setShowContextualizedText(true)}
+                className="text-xs h-6 px-2"
+              >
+                With context
+              </Button>
+            </div>
+          )}
           <div className="bg-background rounded border border-border p-3 text-sm overflow-auto flex-1">
             <pre className="whitespace-pre-wrap font-mono text-xs h-full">
-              {memory.content?.text || 'No content available'}
+              {showContextualizedText && context
+                ? `${context}\n\n${memory.content?.text || ''}`
+                : memory.content?.text || 'No content available'}
             </pre>
           </div>
 
@@ -1324,7 +1549,7 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
         ref={fileInputRef}
         type="file"
         multiple
-        accept=".txt,.md,.markdown,.pdf,.doc,.docx,.json,.xml,.yaml,.yml,.csv,.tsv,.log,.ini,.cfg,.conf,.env,.gitignore,.dockerignore,.editorconfig,.js,.jsx,.ts,.tsx,.mjs,.cjs,.py,.pyw,.pyi,.java,.c,.cpp,.cc,.cxx,.h,.hpp,.cs,.php,.rb,.go,.rs,.swift,.kt,.kts,.scala,.clj,.cljs,.ex,.exs,.r,.R,.m,.mm,.sh,.bash,.zsh,.fish,.ps1,.bat,.cmd,.sql,.html,.htm,.css,.scss,.sass,.less,.vue,.svelte,.astro,.lua,.pl,.pm,.dart,.hs,.elm,.ml,.fs,.fsx,.vb,.pas,.d,.nim,.zig,.jl,.tcl,.awk,.sed"
+        accept=".txt,.md,.markdown,.mdx,.pdf,.doc,.docx,.xlsx,.ods,.pptx,.epub,.ipynb,.srt,.vtt,.eml,.mbox,.zip,.tar,.tgz,.gz,.png,.jpg,.jpeg,.gif,.bmp,.tif,.tiff,.webp,.json,.xml,.yaml,.yml,.toml,.csv,.tsv,.log,.ini,.cfg,.conf,.env,.gitignore,.dockerignore,.editorconfig,.js,.jsx,.ts,.tsx,.mjs,.cjs,.py,.pyw,.pyi,.java,.c,.cpp,.cc,.cxx,.h,.hpp,.cs,.php,.rb,.go,.rs,.swift,.kt,.kts,.scala,.clj,.cljs,.ex,.exs,.r,.R,.m,.mm,.sh,.bash,.zsh,.fish,.ps1,.bat,.cmd,.sql,.html,.htm,.css,.scss,.sass,.less,.vue,.svelte,.astro,.lua,.pl,.pm,.dart,.hs,.elm,.ml,.fs,.fsx,.vb,.pas,.d,.nim,.zig,.jl,.tcl,.awk,.sed"
         onChange={handleFileChange}
         className="hidden"
       />
@@ -1371,6 +1596,62 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
                           {result.metadata?.position !== undefined && (
                             <span>Fragment #{result.metadata.position}</span>
                           )}
+                          {result.metadata?.range && <span>{result.metadata.range}</span>}
+                          {!result.metadata?.range && result.metadata?.rowStart !== undefined && (
+                            <span>
+                              Rows {result.metadata.rowStart}–{result.metadata.rowEnd}
+                            </span>
+                          )}
+                          {result.metadata?.slideNumber !== undefined && (
+                            <span>Slide {result.metadata.slideNumber}</span>
+                          )}
+                          {result.metadata?.chapterTitle && (
+                            <span>{result.metadata.chapterTitle}</span>
+                          )}
+                          {typeof result.metadata?.startTime === 'number' && (
+                            <span>
+                              {formatTimestamp(result.metadata.startTime)}
+                              {result.metadata.speaker && ` · ${result.metadata.speaker}`}
+                            </span>
+                          )}
+                          {result.metadata?.startLine !== undefined && (
+                            <span>
+                              {result.metadata.symbolName && `${result.metadata.symbolName} · `}
+                              Lines {result.metadata.startLine}–{result.metadata.endLine}
+                            </span>
+                          )}
+                          {result.metadata?.cellIndex !== undefined && (
+                            <span>
+                              Cell {result.metadata.cellIndex} ({result.metadata.cellType})
+                            </span>
+                          )}
+                          {result.metadata?.pageStart !== undefined && (
+                            <button
+                              type="button"
+                              className="hover:text-foreground hover:underline"
+                              title="Open the source page"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleOpenSource(result);
+                              }}
+                            >
+                              {formatPageRange(result.metadata.pageStart, result.metadata.pageEnd)}
+                            </button>
+                          )}
+                          {result.metadata?.pageStart === undefined &&
+                            typeof result.metadata?.startOffset === 'number' && (
+                              <button
+                                type="button"
+                                className="hover:text-foreground hover:underline"
+                                title="Show this passage in its document"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleOpenSource(result);
+                                }}
+                              >
+                                Show in document
+                              </button>
+                            )}
                         </div>
                         <div className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors">
                           <svg
@@ -1465,7 +1746,14 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
       </div>
 
       {viewingContent && (
-        <Dialog open={!!viewingContent} onOpenChange={() => setViewingContent(null)}>
+        <Dialog
+          open={!!viewingContent}
+          onOpenChange={() => {
+            setViewingContent(null);
+            setPdfPage(null);
+            setHighlightRange(null);
+          }}
+        >
           <DialogContent className="max-w-[95vw] w-full max-h-[95vh] h-full overflow-hidden flex flex-col p-0">
             <DialogHeader className="flex-shrink-0 p-6 pb-2">
               <div className="flex items-center justify-between">
@@ -1553,8 +1841,8 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
                     );
                   }
 
-                  // Create a data URL for the PDF
-                  const pdfDataUrl = `data:application/pdf;base64,${base64Content}`;
+                  // Create a data URL for the PDF, opened at the cited page when coming from a search result
+                  const pdfDataUrl = `data:application/pdf;base64,${base64Content}${pdfPage ? `#page=${pdfPage}` : ''}`;
 
                   return (
                     <div className="w-full h-full rounded-lg overflow-auto bg-card border border-border">
@@ -1583,6 +1871,22 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
                       </div>
                     </div>
                   );
+                } else if (getImageDataUrl(viewingContent)) {
+                  // For images, show the original next to its generated description
+                  return (
+                    <div className="h-full w-full bg-background rounded-lg border border-border p-6 flex flex-col md:flex-row gap-6">
+                      <img
+                        src={getImageDataUrl(viewingContent)!}
+                        alt={metadata?.description || metadata?.title || 'Image'}
+                        className="max-h-[75vh] max-w-full md:max-w-[60%] object-contain rounded-md shadow-md self-start"
+                      />
+                      {metadata?.description && (
+                        <p className="text-sm leading-relaxed text-foreground whitespace-pre-wrap">
+                          {metadata.description}
+                        </p>
+                      )}
+                    </div>
+                  );
                 } else if (isPdf && !viewingContent.content?.text) {
                   // Show error message for PDFs without content
                   return (
@@ -1608,11 +1912,28 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
                     </div>
                   );
                 } else {
-                  // For all other documents, display as plain text
+                  // For all other documents, display as plain text with the cited passage marked
+                  const text = viewingContent.content?.text || '';
+                  const isHighlighted =
+                    highlightRange !== null && highlightRange.endOffset <= text.length;
                   return (
                     <div className="h-full w-full bg-background rounded-lg border border-border p-6">
                       <pre className="whitespace-pre-wrap text-sm font-mono leading-relaxed text-foreground">
-                        {viewingContent.content?.text || 'No content available'}
+                        {!text
+                          ? 'No content available'
+                          : isHighlighted
+                            ? [
+                                text.slice(0, highlightRange.startOffset),
+                                <mark
+                                  key="highlight"
+                                  ref={highlightRef}
+                                  className="bg-primary/20 text-foreground rounded-sm"
+                                >
+                                  {text.slice(highlightRange.startOffset, highlightRange.endOffset)}
+                                </mark>,
+                                text.slice(highlightRange.endOffset),
+                              ]
+                            : text}
                       </pre>
                     </div>
                   );
@@ -1625,6 +1946,8 @@ export function KnowledgeTab({ agentId }: { agentId: UUID }) {
                 onClick={() => {
                   setViewingContent(null);
                   setPdfZoom(1.0); // Reset zoom when closing
+                  setPdfPage(null);
+                  setHighlightRange(null);
                 }}
               >
                 Close
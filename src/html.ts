@@ -0,0 +1,471 @@
+import { logger } from '@elizaos/core';
+import { parse, NodeType, type HTMLElement, type Node, type TextNode } from 'node-html-parser';
+import type { ExtractedDocument } from './types.ts';
+
+export const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+const HTML_EXTENSIONS = ['html', 'htm', 'xhtml'];
+
+// Elements whose content never carries readable text
+const SKIPPED_TAGS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'canvas',
+  'iframe',
+  'object',
+  'head',
+]);
+
+// Elements that start a new paragraph
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'dd',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'section',
+  'summary',
+  'table',
+  'ul',
+]);
+
+// Page chrome that never belongs to the main content
+const BOILERPLATE_TAGS = ['nav', 'aside', 'footer', 'form', 'button', 'dialog', 'select', 'input'];
+
+// Class/id hints used to drop page chrome and weigh content candidates, after Mozilla Readability
+const UNLIKELY_CANDIDATES =
+  /-ad-|ad-break|agegate|banner|breadcrumb|combx|comment|community|consent|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_HINTS = /article|blog|body|content|entry|hentry|h-entry|main|page|post|story|text/i;
+const NEGATIVE_HINTS =
+  /-ad-|hidden|banner|combx|comment|com-|contact|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+
+// Paragraph-like elements whose text length decides which container holds the content
+const SCORED_TAGS = 'p, pre, td, blockquote';
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * Accumulates rendered lines, collapsing inline whitespace the way browsers do
+ */
+class TextCollector {
+  private lines: string[] = [];
+  private inline = '';
+
+  append(text: string): void {
+    this.inline += text;
+  }
+
+  breakLine(): void {
+    const line = this.inline.replace(/\s+/g, ' ').trim();
+    if (line) {
+      this.lines.push(line);
+    }
+    this.inline = '';
+  }
+
+  breakParagraph(): void {
+    this.breakLine();
+    if (this.lines.length > 0 && this.lines[this.lines.length - 1] !== '') {
+      this.lines.push('');
+    }
+  }
+
+  pushRaw(text: string): void {
+    this.breakLine();
+    this.lines.push(...text.replace(/^\n+|\s+$/g, '').split('\n'));
+  }
+
+  toString(): string {
+    this.breakLine();
+    return this.lines.join('\n').trim();
+  }
+}
+
+/**
+ * Parses an HTML or XHTML string into an element tree.
+ * Script and style bodies are kept as raw text so stray `<` characters in them
+ * cannot produce phantom elements.
+ */
+export function parseHtml(html: string): HTMLElement {
+  return parse(html, {
+    comment: false,
+    blockTextElements: { script: true, noscript: true, style: true },
+  });
+}
+
+/**
+ * Converts HTML markup into readable plain text.
+ * Paragraphs and headings are separated by blank lines, list items become `- item`
+ * lines, table rows become `cell | cell` lines and preformatted blocks keep their layout.
+ */
+export function htmlToText(html: string): string {
+  return htmlElementToText(parseHtml(html));
+}
+
+/**
+ * Converts an already parsed element (and its descendants) into readable plain text
+ */
+export function htmlElementToText(element: HTMLElement): string {
+  const collector = new TextCollector();
+  renderNode(element, collector);
+  return collector.toString();
+}
+
+function renderNode(node: Node, collector: TextCollector): void {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    collector.append((node as TextNode).text);
+    return;
+  }
+  if (node.nodeType !== NodeType.ELEMENT_NODE) {
+    return;
+  }
+
+  const element = node as HTMLElement;
+  const tag = element.rawTagName?.toLowerCase() || '';
+
+  if (SKIPPED_TAGS.has(tag)) {
+    return;
+  }
+
+  if (tag === 'br') {
+    collector.breakLine();
+  } else if (tag === 'pre') {
+    collector.breakParagraph();
+    collector.pushRaw(element.text);
+    collector.breakParagraph();
+  } else if (tag === 'li') {
+    collector.breakLine();
+    const parentTag = element.parentNode?.rawTagName?.toLowerCase();
+    const marker =
+      parentTag === 'ol'
+        ? `${element.parentNode.childNodes.filter(isListItem).indexOf(element) + 1}. `
+        : '- ';
+    collector.append(marker);
+    renderChildren(element, collector);
+    collector.breakLine();
+  } else if (tag === 'tr') {
+    collector.breakLine();
+    const cells = element.childNodes
+      .filter((child): child is HTMLElement => isElement(child, 'td') || isElement(child, 'th'))
+      .map((cell) => htmlElementToText(cell).replace(/\s+/g, ' '));
+    if (cells.some(Boolean)) {
+      collector.append(cells.join(' | '));
+    }
+    collector.breakLine();
+  } else if (BLOCK_TAGS.has(tag)) {
+    collector.breakParagraph();
+    renderChildren(element, collector);
+    collector.breakParagraph();
+  } else {
+    renderChildren(element, collector);
+  }
+}
+
+function renderChildren(element: HTMLElement, collector: TextCollector): void {
+  for (const child of element.childNodes) {
+    renderNode(child, collector);
+  }
+}
+
+function isElement(node: Node, tag: string): node is HTMLElement {
+  return (
+    node.nodeType === NodeType.ELEMENT_NODE &&
+    (node as HTMLElement).rawTagName?.toLowerCase() === tag
+  );
+}
+
+function isListItem(node: Node): boolean {
+  return isElement(node, 'li');
+}
+
+/**
+ * Checks whether a file is an HTML page
+ */
+export function isHtmlFile(contentType: string, filename: string): boolean {
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  const fileExt = filename.split('.').pop()?.toLowerCase() || '';
+  return HTML_CONTENT_TYPES.includes(mimeType) || HTML_EXTENSIONS.includes(fileExt);
+}
+
+/**
+ * Extracts the main content of an HTML page, readability style.
+ * Scripts, styles, navigation, cookie banners, sidebars and other page chrome are
+ * removed, the container holding most of the page's prose is picked by scoring its
+ * paragraphs, and the result is rendered with headings, lists, tables and link text kept.
+ * The page title, canonical URL and meta description are returned as metadata.
+ * @param html The page markup
+ * @param pageUrl The URL the page was fetched from, used to resolve a relative canonical link
+ */
+export function extractMainContentFromHtml(html: string, pageUrl?: string): ExtractedDocument {
+  const root = parseHtml(html);
+  const metadata = getPageMetadata(root, pageUrl);
+
+  const body = root.querySelector('body') || root;
+  removeBoilerplate(body);
+
+  const contentElements = findContentElements(body);
+  for (const element of contentElements) {
+    removeLinkLists(element);
+  }
+
+  let text = contentElements
+    .map((element) => htmlElementToText(element))
+    .filter(Boolean)
+    .join('\n\n');
+
+  // The page heading often sits just above the content container
+  const heading = body.querySelector('h1')?.text.replace(/\s+/g, ' ').trim();
+  if (
+    heading &&
+    !contentElements.some((element) => element === body || element.querySelector('h1'))
+  ) {
+    text = text ? `${heading}\n\n${text}` : heading;
+  }
+
+  logger.debug(
+    `[Html] Extracted ${text.length} characters of main content from ${html.length} characters of markup`
+  );
+
+  return { text, metadata };
+}
+
+/**
+ * Reads the page title, canonical URL and meta description from the document head
+ */
+function getPageMetadata(root: HTMLElement, pageUrl?: string): Record<string, unknown> {
+  const metaContent = (...names: string[]) => {
+    for (const name of names) {
+      const meta = root
+        .querySelectorAll('meta')
+        .find(
+          (element) =>
+            (element.getAttribute('name') || element.getAttribute('property') || '')
+              .toLowerCase()
+              .trim() === name
+        );
+      const content = meta?.getAttribute('content')?.replace(/\s+/g, ' ').trim();
+      if (content) {
+        return content;
+      }
+    }
+    return undefined;
+  };
+
+  const title =
+    root.querySelector('title')?.text.replace(/\s+/g, ' ').trim() || metaContent('og:title');
+  const description = metaContent('description', 'og:description', 'twitter:description');
+  const canonicalHref =
+    root
+      .querySelectorAll('link')
+      .find((link) =>
+        (link.getAttribute('rel') || '').toLowerCase().split(/\s+/).includes('canonical')
+      )
+      ?.getAttribute('href')
+      ?.trim() || metaContent('og:url');
+
+  let canonicalUrl = canonicalHref;
+  if (canonicalHref) {
+    try {
+      canonicalUrl = new URL(canonicalHref, pageUrl).toString();
+    } catch {
+      // Relative canonical link without a page URL to resolve it against
+    }
+  }
+
+  return {
+    ...(title ? { title } : {}),
+    ...(canonicalUrl ? { canonicalUrl } : {}),
+    ...(description ? { description } : {}),
+  };
+}
+
+/**
+ * Removes non-content elements: scripts and styles, hidden elements, navigation and other
+ * page chrome, and elements whose class or id marks them as unlikely to hold content
+ */
+function removeBoilerplate(body: HTMLElement): void {
+  for (const element of body.querySelectorAll('*')) {
+    const tag = element.rawTagName?.toLowerCase() || '';
+    const hints = `${element.classNames} ${element.id}`;
+    const role = (element.getAttribute('role') || '').toLowerCase();
+    const style = (element.getAttribute('style') || '').replace(/\s+/g, '').toLowerCase();
+
+    const isHidden =
+      element.hasAttribute('hidden') ||
+      element.getAttribute('aria-hidden') === 'true' ||
+      style.includes('display:none') ||
+      style.includes('visibility:hidden');
+    const isChrome =
+      BOILERPLATE_TAGS.includes(tag) ||
+      ['navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'menu'].includes(role) ||
+      (tag === 'header' && !element.closest('article, main'));
+    const isUnlikely =
+      !['body', 'article', 'main', 'a'].includes(tag) &&
+      UNLIKELY_CANDIDATES.test(hints) &&
+      !MAYBE_CANDIDATE.test(hints);
+
+    if (SKIPPED_TAGS.has(tag) || isHidden || isChrome || isUnlikely) {
+      element.remove();
+    }
+  }
+}
+
+/**
+ * Picks the element(s) holding the main content.
+ * Every paragraph-like element scores its parent and, with decaying weight, further
+ * ancestors; scores are adjusted by class/id hints and link density. The best container
+ * is returned together with siblings that score close to it, or the whole body when the
+ * page has no prose to score.
+ */
+function findContentElements(body: HTMLElement): HTMLElement[] {
+  const scores = new Map<HTMLElement, number>();
+  const initialScore = (element: HTMLElement) => {
+    const tag = element.rawTagName?.toLowerCase() || '';
+    let score = getClassWeight(element);
+    if (tag === 'div' || tag === 'article' || tag === 'main' || tag === 'section') {
+      score += 5;
+    } else if (['pre', 'td', 'blockquote'].includes(tag)) {
+      score += 3;
+    } else if (['address', 'ol', 'ul', 'dl', 'dd', 'dt', 'li', 'form'].includes(tag)) {
+      score -= 3;
+    } else if (/^h[1-6]$/.test(tag) || tag === 'th') {
+      score -= 5;
+    }
+    return score;
+  };
+
+  for (const paragraph of body.querySelectorAll(SCORED_TAGS)) {
+    const text = paragraph.text.replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      continue;
+    }
+    const contentScore = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+
+    let ancestor = paragraph.parentNode;
+    for (let level = 0; ancestor && level < 5; level++) {
+      if (!ancestor.rawTagName) {
+        break; // Reached the parser's root node
+      }
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, initialScore(ancestor));
+      }
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + contentScore / divider);
+      if (ancestor === body) {
+        break;
+      }
+      ancestor = ancestor.parentNode;
+    }
+  }
+
+  let topCandidate: HTMLElement | null = null;
+  let topScore = 0;
+  for (const [element, score] of scores) {
+    const finalScore = score * (1 - getLinkDensity(element));
+    scores.set(element, finalScore);
+    if (finalScore > topScore) {
+      topCandidate = element;
+      topScore = finalScore;
+    }
+  }
+
+  if (!topCandidate) {
+    return [body.querySelector('article, main, [role="main"]') || body];
+  }
+
+  const parent = topCandidate.parentNode;
+  if (!parent || topCandidate === body) {
+    return [topCandidate];
+  }
+
+  // Content is sometimes split across sibling containers (e.g. intro and body divs)
+  const siblingThreshold = Math.max(10, topScore * 0.2);
+  return parent.childNodes.filter((sibling): sibling is HTMLElement => {
+    if (sibling === topCandidate) {
+      return true;
+    }
+    if (sibling.nodeType !== NodeType.ELEMENT_NODE) {
+      return false;
+    }
+    const element = sibling as HTMLElement;
+    if ((scores.get(element) ?? 0) >= siblingThreshold) {
+      return true;
+    }
+    const text = element.text.replace(/\s+/g, ' ').trim();
+    return (
+      element.rawTagName?.toLowerCase() === 'p' &&
+      text.length > 80 &&
+      getLinkDensity(element) < 0.25
+    );
+  });
+}
+
+/**
+ * Removes link-dominated blocks (related links, tag clouds, in-content menus) from the content
+ */
+function removeLinkLists(content: HTMLElement): void {
+  for (const element of content.querySelectorAll('ul, ol, div, section, table')) {
+    if (element.querySelector('p') || !element.text.trim()) {
+      continue;
+    }
+    if (getLinkDensity(element) > 0.5) {
+      element.remove();
+    }
+  }
+}
+
+/**
+ * Returns +25/-25 when an element's class or id suggests content or page chrome
+ */
+function getClassWeight(element: HTMLElement): number {
+  let weight = 0;
+  for (const hint of [element.classNames, element.id]) {
+    if (!hint) {
+      continue;
+    }
+    if (NEGATIVE_HINTS.test(hint)) {
+      weight -= 25;
+    }
+    if (POSITIVE_HINTS.test(hint)) {
+      weight += 25;
+    }
+  }
+  return weight;
+}
+
+/**
+ * Returns the share of an element's text that sits inside links
+ */
+function getLinkDensity(element: HTMLElement): number {
+  const textLength = element.text.replace(/\s+/g, ' ').trim().length;
+  if (textLength === 0) {
+    return 0;
+  }
+  const linkLength = element
+    .querySelectorAll('a')
+    .reduce((total, link) => total + link.text.replace(/\s+/g, ' ').trim().length, 0);
+  return linkLength / textLength;
+}
@@ -0,0 +1,80 @@
+import { Buffer } from 'node:buffer';
+import { IAgentRuntime, ModelType, logger } from '@elizaos/core';
+import { extractImageFromBuffer } from './ocr.ts';
+import type { ExtractedDocument } from './types.ts';
+
+const IMAGE_DESCRIPTION_PROMPT =
+  'Describe this image for a searchable knowledge base. For diagrams, charts and screenshots, ' +
+  'explain what they show, including labels, axes, values, UI elements and any visible text.';
+
+/**
+ * Produces searchable text for an uploaded image (diagram, screenshot, photo).
+ * The runtime's image-description model supplies a title and description; text read
+ * with OCR is appended when an OCR adapter is available. Either source alone is enough,
+ * so the image is only rejected when neither produces any text.
+ */
+export async function extractImageDocument(
+  runtime: IAgentRuntime,
+  fileBuffer: Buffer,
+  contentType: string,
+  originalFilename: string
+): Promise<ExtractedDocument> {
+  const [described, recognized] = await Promise.all([
+    describeImage(runtime, fileBuffer, contentType, originalFilename),
+    extractImageFromBuffer(fileBuffer, contentType, originalFilename).catch((error: any) => {
+      logger.debug(`[Image] No OCR text for ${originalFilename}: ${error.message}`);
+      return null;
+    }),
+  ]);
+
+  const parts: string[] = [];
+  if (described) {
+    parts.push([described.title, described.description].filter(Boolean).join('\n\n'));
+  }
+  if (recognized?.text) {
+    parts.push(`Text in the image:\n${recognized.text}`);
+  }
+  if (parts.length === 0) {
+    throw new Error('Neither the image-description model nor OCR produced any text');
+  }
+
+  return {
+    text: parts.join('\n\n'),
+    metadata: {
+      ...(described?.description ? { description: described.description } : {}),
+      ...(described?.title ? { imageTitle: described.title } : {}),
+      ...(recognized?.metadata || {}),
+    },
+  };
+}
+
+/**
+ * Asks the runtime's IMAGE_DESCRIPTION model to describe an image passed as a data URL.
+ * Returns null when no model is registered or the call fails.
+ */
+async function describeImage(
+  runtime: IAgentRuntime,
+  fileBuffer: Buffer,
+  contentType: string,
+  originalFilename: string
+): Promise<{ title: string; description: string } | null> {
+  try {
+    const imageUrl = `data:${contentType};base64,${fileBuffer.toString('base64')}`;
+    const result = await runtime.useModel(ModelType.IMAGE_DESCRIPTION, {
+      imageUrl,
+      prompt: IMAGE_DESCRIPTION_PROMPT,
+    });
+
+    // Some providers return the description as a plain string
+    const { title = '', description = '' } =
+      typeof result === 'string' ? { description: result } : result || {};
+    if (!title.trim() && !description.trim()) {
+      logger.warn(`[Image] The image-description model returned nothing for ${originalFilename}`);
+      return null;
+    }
+    return { title: title.trim(), description: description.trim() };
+  } catch (error: any) {
+    logger.warn(`[Image] Could not describe ${originalFilename}: ${error.message}`);
+    return null;
+  }
+}
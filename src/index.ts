@@ -28,3 +28,4 @@ export const knowledgePlugin: Plugin = {
 export default knowledgePlugin;
 
 export * from './types';
+export { createTesseractOcrAdapter, registerOcrAdapter } from './ocr';
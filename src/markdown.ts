@@ -0,0 +1,325 @@
+import { logger } from '@elizaos/core';
+import { parse as parseYaml } from 'yaml';
+import { DEFAULT_CHARS_PER_TOKEN, DEFAULT_CHUNK_TOKEN_SIZE } from './ctx-embeddings.ts';
+import type { DocumentSection, ExtractedDocument } from './types.ts';
+
+export const MARKDOWN_CONTENT_TYPES = ['text/markdown', 'text/x-markdown', 'text/mdx'];
+
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+// Metadata the knowledge service sets itself; front matter may not override these
+const RESERVED_METADATA_KEYS = new Set([
+  'type',
+  'source',
+  'sourceId',
+  'documentId',
+  'originalFilename',
+  'contentType',
+  'fileType',
+  'fileExt',
+  'fileSize',
+  'timestamp',
+]);
+// JSX/HTML tags, including ones whose attributes span several lines
+const MDX_TAG = /<\/?[A-Za-z][\w.:-]*(?:\s[^<>]*?)?\/?>/g;
+// JSX expressions and comments, e.g. {props.version} or {/* note */}
+const MDX_EXPRESSION = /\{[^{}\n]*\}/g;
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const CODE_FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_DELIMITER_ROW = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Checks whether a file is Markdown or MDX
+ */
+export function isMarkdownFile(contentType: string, filename: string): boolean {
+  return (
+    MARKDOWN_CONTENT_TYPES.includes(contentType.toLowerCase()) ||
+    /\.(md|markdown|mdx)$/i.test(filename)
+  );
+}
+
+/**
+ * Checks whether a file is MDX (Markdown with JSX)
+ */
+export function isMdxFile(contentType: string, filename: string): boolean {
+  return contentType.toLowerCase() === 'text/mdx' || filename.toLowerCase().endsWith('.mdx');
+}
+
+/**
+ * Extracts a Markdown or MDX document.
+ * YAML front matter is parsed into document metadata and removed from the text; keys the
+ * knowledge service manages itself (type, source, ...) are ignored and `tags` is always a
+ * list. Front matter that is not valid YAML is left in the text. For MDX, import/export
+ * statements, JSX tags and expressions are stripped while the Markdown between tags is kept.
+ * The text is split into sections at headings (see `splitMarkdownSections`), each recording
+ * its heading breadcrumb as `sectionPath`.
+ * @param chunkSize The fragment size in tokens that sections are kept within
+ */
+export function extractMarkdownFromText(
+  text: string,
+  contentType: string,
+  originalFilename: string,
+  chunkSize = DEFAULT_CHUNK_TOKEN_SIZE
+): ExtractedDocument {
+  let body = text;
+  let metadata: Record<string, unknown> | undefined;
+
+  const frontMatter = text.match(FRONT_MATTER);
+  if (frontMatter) {
+    try {
+      metadata = toFrontMatterMetadata(parseYaml(frontMatter[1]), originalFilename);
+      body = text.slice(frontMatter[0].length);
+    } catch (error: any) {
+      logger.warn(
+        `[Markdown] ${originalFilename}: ignoring invalid front matter: ${error.message}`
+      );
+    }
+  }
+
+  if (isMdxFile(contentType, originalFilename)) {
+    body = stripMdxSyntax(body);
+  }
+
+  body = body.trim();
+  // Sections up to this size become a single fragment, so code blocks and tables stay whole
+  const maxSectionChars = Math.floor(chunkSize * DEFAULT_CHARS_PER_TOKEN * 0.9);
+  const sections = splitMarkdownSections(body, maxSectionChars);
+  return metadata && Object.keys(metadata).length > 0
+    ? { text: body, sections, metadata }
+    : { text: body, sections };
+}
+
+/**
+ * Splits Markdown into sections at ATX headings (`#` to `######`), ignoring `#` lines inside
+ * fenced code. Each section starts with its heading line and records the titles from the
+ * outermost heading down as `sectionPath`; a heading directly followed by a subheading is
+ * kept with it rather than becoming a section of its own. Sections longer than `maxChars` are
+ * packed from whole blocks (paragraphs, lists, fenced code, tables); a code block or table
+ * that is too long by itself is split by lines, re-fencing the code or repeating the table
+ * header in every piece.
+ */
+function splitMarkdownSections(markdown: string, maxChars: number): DocumentSection[] {
+  const headingSections: Array<{ path: string[]; lines: string[]; hasBody: boolean }> = [
+    { path: [], lines: [], hasBody: false },
+  ];
+  const headingStack: Array<{ level: number; title: string }> = [];
+  let fence: string | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const current = headingSections[headingSections.length - 1];
+    const fenceMatch = line.match(CODE_FENCE);
+    if (fenceMatch) {
+      fence = fence === null ? fenceMatch[1] : isClosingFence(line, fence) ? null : fence;
+    }
+
+    const heading = fence === null && !fenceMatch ? line.match(ATX_HEADING) : null;
+    if (!heading) {
+      current.lines.push(line);
+      current.hasBody ||= line.trim() !== '';
+      continue;
+    }
+
+    const level = heading[1].length;
+    while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+      headingStack.pop();
+    }
+    headingStack.push({ level, title: heading[2].trim() });
+    const path = headingStack.map((entry) => entry.title);
+
+    if (current.hasBody) {
+      headingSections.push({ path, lines: [line], hasBody: false });
+    } else {
+      current.path = path;
+      current.lines.push(line);
+    }
+  }
+
+  return headingSections.flatMap(({ path, lines }) => {
+    const text = lines.join('\n').trim();
+    if (!text) {
+      return [];
+    }
+    const pieces = text.length <= maxChars ? [text] : packBlocks(splitBlocks(text), maxChars);
+    return pieces.map((piece) =>
+      path.length > 0 ? { text: piece, metadata: { sectionPath: path } } : { text: piece }
+    );
+  });
+}
+
+function isClosingFence(line: string, openingFence: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length >= openingFence.length && [...trimmed].every((char) => char === openingFence[0])
+  );
+}
+
+/**
+ * Splits Markdown into blocks separated by blank lines, keeping fenced code blocks whole
+ */
+function splitBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = line.match(CODE_FENCE);
+    if (fenceMatch) {
+      fence = fence === null ? fenceMatch[1] : isClosingFence(line, fence) ? null : fence;
+    }
+    if (fence === null && line.trim() === '') {
+      if (current.length > 0) {
+        blocks.push(current.join('\n'));
+        current = [];
+      }
+      continue;
+    }
+    current.push(line);
+  }
+  if (current.length > 0) {
+    blocks.push(current.join('\n'));
+  }
+  return blocks;
+}
+
+/**
+ * Joins consecutive blocks into pieces of at most `maxChars`. Oversized code blocks
+ * and tables are split first; oversized prose is left for the regular text splitter.
+ */
+function packBlocks(blocks: string[], maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const block of blocks.flatMap((block) => splitOversizedBlock(block, maxChars))) {
+    if (current && current.length + 2 + block.length > maxChars) {
+      pieces.push(current);
+      current = block;
+    } else {
+      current = current ? `${current}\n\n${block}` : block;
+    }
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+function splitOversizedBlock(block: string, maxChars: number): string[] {
+  if (block.length <= maxChars) {
+    return [block];
+  }
+  const lines = block.split('\n');
+  const fenceMatch = lines[0].match(CODE_FENCE);
+  if (fenceMatch) {
+    const closed = lines.length > 1 && isClosingFence(lines[lines.length - 1], fenceMatch[1]);
+    const body = lines.slice(1, closed ? -1 : undefined);
+    return groupLines(
+      body,
+      [lines[0]],
+      [closed ? lines[lines.length - 1] : fenceMatch[1]],
+      maxChars
+    );
+  }
+  if (lines.length > 2 && lines[0].includes('|') && TABLE_DELIMITER_ROW.test(lines[1])) {
+    return groupLines(lines.slice(2), lines.slice(0, 2), [], maxChars);
+  }
+  return [block];
+}
+
+/**
+ * Groups lines into pieces of at most `maxChars`, each wrapped in the given header
+ * and footer lines
+ */
+function groupLines(
+  lines: string[],
+  header: string[],
+  footer: string[],
+  maxChars: number
+): string[] {
+  const frameLength = [...header, ...footer].join('\n').length + 1;
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let length = frameLength;
+  for (const line of lines) {
+    if (current.length > 0 && length + line.length + 1 > maxChars) {
+      pieces.push([...header, ...current, ...footer].join('\n'));
+      current = [];
+      length = frameLength;
+    }
+    current.push(line);
+    length += line.length + 1;
+  }
+  if (current.length > 0) {
+    pieces.push([...header, ...current, ...footer].join('\n'));
+  }
+  return pieces;
+}
+
+function toFrontMatterMetadata(
+  frontMatter: unknown,
+  originalFilename: string
+): Record<string, unknown> {
+  if (!frontMatter || typeof frontMatter !== 'object' || Array.isArray(frontMatter)) {
+    return {};
+  }
+
+  const metadata: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(frontMatter)) {
+    if (RESERVED_METADATA_KEYS.has(key)) {
+      logger.debug(`[Markdown] ${originalFilename}: front matter key "${key}" is reserved`);
+      continue;
+    }
+    // Dates stay JSON-friendly
+    metadata[key] = value instanceof Date ? value.toISOString() : value;
+  }
+
+  // Tags are written as a list or as a comma-separated string
+  if (typeof metadata.tags === 'string') {
+    metadata.tags = metadata.tags
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+  return metadata;
+}
+
+/**
+ * Removes MDX-only syntax outside fenced code blocks, keeping the Markdown content
+ */
+function stripMdxSyntax(mdx: string): string {
+  // Odd parts are fenced code blocks, which are kept verbatim
+  return mdx
+    .split(/(^(?:```|~~~)[^\n]*\n[\s\S]*?^(?:```|~~~)[ \t]*$)/m)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : stripEsmStatements(part)
+            .replace(MDX_TAG, '')
+            .replace(MDX_EXPRESSION, '')
+            .replace(/(\S)[ \t]{2,}/g, '$1 ')
+            .replace(/^[ \t]+$/gm, '')
+            .replace(/\n{3,}/g, '\n\n')
+    )
+    .join('');
+}
+
+/**
+ * Removes top-level import/export statements, following multi-line ones until their
+ * brackets are balanced again
+ */
+function stripEsmStatements(mdx: string): string {
+  const kept: string[] = [];
+  let depth = 0;
+  let inStatement = false;
+  for (const line of mdx.split('\n')) {
+    if (!inStatement && /^(?:import|export)\s/.test(line)) {
+      inStatement = true;
+      depth = 0;
+    }
+    if (!inStatement) {
+      kept.push(line);
+      continue;
+    }
+    depth += (line.match(/[{([]/g)?.length ?? 0) - (line.match(/[})\]]/g)?.length ?? 0);
+    if (depth <= 0) {
+      inStatement = false;
+    }
+  }
+  return kept.join('\n');
+}
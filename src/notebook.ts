@@ -0,0 +1,147 @@
+import { logger } from '@elizaos/core';
+import type { DocumentSection, ExtractedDocument } from './types.ts';
+
+export const NOTEBOOK_CONTENT_TYPE = 'application/x-ipynb+json';
+
+// Text outputs longer than this (dataframes, training logs) are dropped rather than indexed
+const MAX_OUTPUT_CHARS = 2000;
+// Output MIME types kept as text, in order of preference
+const TEXT_OUTPUT_TYPES = ['text/markdown', 'text/plain'];
+
+/**
+ * A notebook cell as stored in nbformat 4 (and the `input` of nbformat 3 code cells)
+ */
+interface NotebookCell {
+  cell_type?: string;
+  source?: string | string[];
+  input?: string | string[];
+  outputs?: NotebookOutput[];
+}
+
+interface NotebookOutput {
+  output_type?: string;
+  text?: string | string[];
+  data?: Record<string, unknown>;
+  ename?: string;
+  evalue?: string;
+}
+
+/**
+ * Checks whether a file is a Jupyter notebook
+ */
+export function isNotebookFile(contentType: string, filename: string): boolean {
+  return (
+    contentType.toLowerCase() === NOTEBOOK_CONTENT_TYPE || filename.toLowerCase().endsWith('.ipynb')
+  );
+}
+
+/**
+ * Extracts a Jupyter notebook cell by cell.
+ * Markdown and raw cells are kept as written and code cells become fenced blocks in the
+ * kernel's language, followed by their short text outputs; images, HTML and other rich
+ * outputs are dropped. Every non-empty cell becomes its own section, so fragments stay
+ * within one cell and record its index (position in the notebook, from 0) and type.
+ */
+export function extractNotebookFromJson(json: string, originalFilename: string): ExtractedDocument {
+  let notebook: any;
+  try {
+    notebook = JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`Invalid notebook JSON: ${error.message}`);
+  }
+
+  // nbformat 3 keeps the cells in worksheets
+  const cells: NotebookCell[] | undefined = Array.isArray(notebook?.cells)
+    ? notebook.cells
+    : notebook?.worksheets?.[0]?.cells;
+  if (!Array.isArray(cells)) {
+    throw new Error('Missing cells, not a valid Jupyter notebook');
+  }
+
+  const language: string | undefined =
+    notebook.metadata?.kernelspec?.language ||
+    notebook.metadata?.language_info?.name ||
+    notebook.metadata?.language;
+
+  const sections: DocumentSection[] = [];
+  let title: string | undefined;
+  cells.forEach((cell, cellIndex) => {
+    const cellType = cell.cell_type || 'raw';
+    const source = joinLines(cell.source ?? cell.input).trim();
+    if (cellType === 'markdown' && !title) {
+      title = source.match(/^#\s+(.+)$/m)?.[1].trim();
+    }
+
+    const text = cellType === 'code' ? getCodeCellText(source, cell.outputs, language) : source;
+    if (!text) {
+      return;
+    }
+    sections.push({ text, metadata: { cellIndex, cellType } });
+  });
+
+  logger.debug(
+    `[Notebook] ${originalFilename}: extracted ${sections.length}/${cells.length} non-empty cells`
+  );
+
+  return {
+    text: sections.map((section) => section.text).join('\n\n'),
+    sections,
+    metadata: {
+      ...(title ? { title } : {}),
+      ...(language ? { language } : {}),
+      cellCount: cells.length,
+    },
+  };
+}
+
+/**
+ * Renders a code cell as a fenced block followed by its text outputs, if any
+ */
+function getCodeCellText(
+  source: string,
+  outputs: NotebookOutput[] | undefined,
+  language: string | undefined
+): string {
+  const outputTexts = (outputs || [])
+    .map(getOutputText)
+    .filter((text): text is string => !!text && text.length <= MAX_OUTPUT_CHARS);
+
+  const parts: string[] = [];
+  if (source) {
+    parts.push(`\`\`\`${language || ''}\n${source}\n\`\`\``);
+  }
+  if (outputTexts.length > 0) {
+    parts.push(`Output:\n${outputTexts.join('\n')}`);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Returns the readable text of a cell output, or null for binary and rich outputs.
+ * Tracebacks are reduced to the exception line since they are full of terminal escapes.
+ */
+function getOutputText(output: NotebookOutput): string | null {
+  switch (output.output_type) {
+    case 'stream':
+      return joinLines(output.text).trim() || null;
+    case 'error':
+      return [output.ename, output.evalue].filter(Boolean).join(': ') || null;
+    case 'execute_result':
+    case 'display_data':
+    case 'pyout': {
+      // nbformat 3 puts the MIME bundle directly on the output, under short keys
+      const data = output.data || { 'text/plain': output.text };
+      const mimeType = TEXT_OUTPUT_TYPES.find((type) => data[type] !== undefined);
+      return mimeType ? joinLines(data[mimeType] as string | string[]).trim() || null : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Notebook text fields are either a string or a list of lines that keep their newlines
+ */
+function joinLines(value: string | string[] | undefined): string {
+  return Array.isArray(value) ? value.join('') : value || '';
+}
@@ -0,0 +1,257 @@
+import { Buffer } from 'node:buffer';
+import { spawn } from 'node:child_process';
+import { logger, type IAgentRuntime } from '@elizaos/core';
+import type { ExtractedDocument, OcrAdapter, OcrOptions, OcrResult } from './types.ts';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  webp: 'image/webp',
+};
+
+// Tesseract is killed when it takes longer than this on a single image
+const DEFAULT_OCR_TIMEOUT_MS = 120_000;
+
+let registeredAdapter: OcrAdapter | null = null;
+let defaultAdapter: OcrAdapter | null = null;
+
+/**
+ * Sets up the default Tesseract adapter from the agent's OCR_COMMAND, OCR_LANGUAGE and
+ * OCR_TIMEOUT_MS settings, falling back to the environment
+ */
+export function configureOcr(runtime?: IAgentRuntime): void {
+  const getSetting = (key: string): string | undefined =>
+    runtime?.getSetting(key) || process.env[key] || undefined;
+
+  const timeoutSetting = getSetting('OCR_TIMEOUT_MS');
+  const timeoutMs = parseInt(timeoutSetting || '', 10);
+  if (timeoutSetting && !(timeoutMs > 0)) {
+    logger.warn(`[OCR] Ignoring invalid OCR_TIMEOUT_MS "${timeoutSetting}"`);
+  }
+
+  defaultAdapter = createTesseractOcrAdapter({
+    command: getSetting('OCR_COMMAND'),
+    language: getSetting('OCR_LANGUAGE'),
+    timeoutMs: timeoutMs > 0 ? timeoutMs : undefined,
+  });
+}
+
+/**
+ * Registers the OCR adapter used for scanned PDF pages and image uploads,
+ * replacing the default Tesseract adapter. Pass null to restore the default.
+ */
+export function registerOcrAdapter(adapter: OcrAdapter | null): void {
+  registeredAdapter = adapter;
+  logger.info(
+    adapter
+      ? `[OCR] Registered OCR adapter "${adapter.name}"`
+      : '[OCR] Restored the default OCR adapter'
+  );
+}
+
+/**
+ * Returns the registered OCR adapter, or the default Tesseract adapter when none was registered
+ */
+export function getOcrAdapter(): OcrAdapter {
+  if (registeredAdapter) {
+    return registeredAdapter;
+  }
+  if (!defaultAdapter) {
+    configureOcr();
+  }
+  return defaultAdapter!;
+}
+
+/**
+ * Returns the OCR adapter if it can be used on this machine, otherwise null
+ */
+export async function getAvailableOcrAdapter(): Promise<OcrAdapter | null> {
+  const adapter = getOcrAdapter();
+  try {
+    if (!adapter.isAvailable || (await adapter.isAvailable())) {
+      return adapter;
+    }
+  } catch (error: any) {
+    logger.debug(`[OCR] Availability check of "${adapter.name}" failed: ${error.message}`);
+  }
+  logger.warn(`[OCR] OCR adapter "${adapter.name}" is not available, skipping OCR`);
+  return null;
+}
+
+/**
+ * Checks whether a file is an image that OCR can read
+ */
+export function isImageFile(contentType: string, filename: string): boolean {
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  return contentType.toLowerCase().startsWith('image/') || extension in IMAGE_EXTENSIONS;
+}
+
+/**
+ * Recognizes the text of an uploaded image with the OCR adapter.
+ * The recognition confidence and the adapter name are returned as metadata.
+ */
+export async function extractImageFromBuffer(
+  fileBuffer: Buffer,
+  contentType: string,
+  originalFilename: string
+): Promise<ExtractedDocument> {
+  const adapter = await getAvailableOcrAdapter();
+  if (!adapter) {
+    throw new Error('No OCR adapter is available to read images');
+  }
+
+  const extension = originalFilename.split('.').pop()?.toLowerCase() || '';
+  const mimeType = contentType.toLowerCase().startsWith('image/')
+    ? contentType
+    : IMAGE_EXTENSIONS[extension] || 'application/octet-stream';
+  const result = await adapter.recognize(fileBuffer, { mimeType, filename: originalFilename });
+  logger.debug(
+    `[OCR] ${originalFilename}: recognized ${result.text.length} characters with "${adapter.name}"`
+  );
+
+  return {
+    text: result.text.trim(),
+    metadata: {
+      ocrEngine: adapter.name,
+      ...(result.confidence !== undefined ? { ocrConfidence: result.confidence } : {}),
+    },
+  };
+}
+
+/**
+ * Creates an OCR adapter that runs a locally installed Tesseract binary.
+ * The image is piped to `tesseract stdin stdout tsv`; the word boxes are rebuilt into
+ * lines and paragraphs and the mean word confidence becomes the result's confidence.
+ * A Tesseract run that takes longer than `timeoutMs` is killed and fails.
+ */
+export function createTesseractOcrAdapter({
+  command = 'tesseract',
+  language = 'eng',
+  timeoutMs = DEFAULT_OCR_TIMEOUT_MS,
+}: { command?: string; language?: string; timeoutMs?: number } = {}): OcrAdapter {
+  let availability: Promise<boolean> | null = null;
+
+  return {
+    name: 'tesseract',
+    isAvailable() {
+      availability ??= runCommand(command, ['--version'], timeoutMs)
+        .then(() => true)
+        .catch(() => false);
+      return availability;
+    },
+    async recognize(image: Buffer, options: OcrOptions): Promise<OcrResult> {
+      const tsv = await runCommand(
+        command,
+        ['stdin', 'stdout', '-l', options.language || language, 'tsv'],
+        timeoutMs,
+        image
+      );
+      return parseTesseractTsv(tsv);
+    },
+  };
+}
+
+/**
+ * Rebuilds text and confidence from Tesseract's TSV output.
+ * Words (level 5) carry the text and a 0-100 confidence; their block, paragraph and line
+ * numbers decide where line and paragraph breaks go.
+ */
+export function parseTesseractTsv(tsv: string): OcrResult {
+  const paragraphs: string[][][] = [];
+  const confidences: number[] = [];
+  let paragraphKey = '';
+  let lineKey = '';
+
+  for (const row of tsv.split(/\r?\n/).slice(1)) {
+    const columns = row.split('\t');
+    if (columns.length < 12 || columns[0] !== '5') {
+      continue;
+    }
+    const [, page, block, paragraph, line] = columns;
+    const confidence = parseFloat(columns[10]);
+    const word = columns.slice(11).join('\t').trim();
+    if (!word) {
+      continue;
+    }
+
+    const nextParagraphKey = `${page}.${block}.${paragraph}`;
+    const nextLineKey = `${nextParagraphKey}.${line}`;
+    if (nextParagraphKey !== paragraphKey) {
+      paragraphs.push([]);
+      paragraphKey = nextParagraphKey;
+    }
+    const lines = paragraphs[paragraphs.length - 1];
+    if (nextLineKey !== lineKey) {
+      lines.push([]);
+      lineKey = nextLineKey;
+    }
+    lines[lines.length - 1].push(word);
+    if (confidence >= 0) {
+      confidences.push(confidence);
+    }
+  }
+
+  const text = paragraphs
+    .map((lines) => lines.map((words) => words.join(' ')).join('\n'))
+    .join('\n\n');
+  if (confidences.length === 0) {
+    return { text };
+  }
+  const meanConfidence = confidences.reduce((sum, value) => sum + value, 0) / confidences.length;
+  return { text, confidence: Math.round(meanConfidence * 10) / 1000 };
+}
+
+/**
+ * Runs a command, optionally writing to its stdin, and resolves with its stdout.
+ * The command is killed and the promise rejected when it runs longer than `timeoutMs`.
+ */
+function runCommand(
+  command: string,
+  args: string[],
+  timeoutMs: number,
+  input?: Buffer
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let settled = false;
+    const settle = (error: Error | null, output?: string) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timer);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(output!);
+        }
+      }
+    };
+    // Settle right away: a wrapper's own children can keep the pipes open after the kill
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      settle(new Error(`${command} timed out after ${timeoutMs} ms`));
+    }, timeoutMs);
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.on('error', (error) => settle(error));
+    child.on('close', (code) => {
+      if (code === 0) {
+        settle(null, Buffer.concat(stdout).toString('utf8'));
+      } else {
+        const message = Buffer.concat(stderr).toString('utf8').trim();
+        settle(new Error(`${command} exited with code ${code}${message ? `: ${message}` : ''}`));
+      }
+    });
+
+    // The process may exit before reading all of its input (e.g. on a bad image)
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
+}
@@ -0,0 +1,440 @@
+import { Buffer } from 'node:buffer';
+import { logger } from '@elizaos/core';
+import {
+  getDocument,
+  PDFDateString,
+  PDFDocumentProxy,
+  PDFPageProxy,
+} from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import { getAvailableOcrAdapter } from './ocr.ts';
+import type {
+  DocumentHeading,
+  DocumentOutlineItem,
+  DocumentPage,
+  ExtractedDocument,
+  OcrAdapter,
+  OcrResult,
+} from './types.ts';
+
+// A gap this much larger than the page's usual line spacing starts a new paragraph
+const PARAGRAPH_GAP_RATIO = 1.5;
+// Without enough lines to measure spacing, compare the gap against the font height instead
+const PARAGRAPH_GAP_TO_HEIGHT_RATIO = 1.8;
+// Font size changes beyond this ratio (e.g. heading to body text) also start a new paragraph
+const FONT_SIZE_CHANGE_RATIO = 1.2;
+// Pages without a text layer are rendered at this resolution for OCR
+const OCR_RENDER_DPI = 300;
+
+/**
+ * A line of text on a PDF page, positioned by its baseline
+ */
+interface PdfLine {
+  y: number;
+  height: number;
+  text: string;
+}
+
+/**
+ * A paragraph of a PDF page with the baseline of its first line, used to place outline entries
+ */
+interface PdfParagraph {
+  y: number;
+  text: string;
+}
+
+/**
+ * Where a paragraph starts in the extracted text
+ */
+interface PdfTextAnchor {
+  pageNumber: number;
+  y: number;
+  offset: number;
+}
+
+/**
+ * An outline entry resolved to its page and, when the destination has one, its top position
+ */
+interface PdfOutlineTarget {
+  path: string[];
+  pageNumber?: number;
+  top?: number;
+}
+
+/**
+ * An outline entry with its destination resolved
+ */
+interface PdfOutlineNode extends PdfOutlineTarget {
+  title: string;
+  items: PdfOutlineNode[];
+}
+
+type RawOutlineItem = { title: string; dest: string | any[] | null; items: RawOutlineItem[] };
+
+/**
+ * Extracts the text of a PDF page by page.
+ * Lines are rebuilt from the positioned text items, lines are grouped into paragraphs
+ * by their vertical spacing, and pages are separated by blank lines. The character
+ * range of every page within the text is returned so fragments can cite their pages.
+ * The info dictionary (title, author, subject, creation date) and the outline become
+ * document metadata, and outline entries are placed in the text as headings.
+ * Pages without a text layer (scanned pages) are rendered and read with the OCR adapter;
+ * their recognition confidence is kept on the page and in the `ocrPages` metadata.
+ * Requires pdfjs-dist to be properly configured, especially its worker.
+ */
+export async function extractPdfFromBuffer(
+  pdfBuffer: Buffer,
+  filename?: string
+): Promise<ExtractedDocument> {
+  const docName = filename || 'unnamed-document';
+  logger.debug(`[PdfService] Starting conversion for ${docName}`);
+
+  try {
+    const uint8Array = new Uint8Array(pdfBuffer);
+    const pdf: PDFDocumentProxy = await getDocument({ data: uint8Array }).promise;
+    const numPages = pdf.numPages;
+    const pages: DocumentPage[] = [];
+    const anchors: PdfTextAnchor[] = [];
+    const ocrPages: Array<{ pageNumber: number; confidence?: number }> = [];
+    // Resolved on the first page without a text layer; null when OCR is unavailable
+    let ocrAdapter: OcrAdapter | null | undefined;
+    let text = '';
+
+    for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+      logger.debug(`[PdfService] Processing page ${pageNum}/${numPages}`);
+      const page = await pdf.getPage(pageNum);
+      const textContent = await page.getTextContent();
+      let paragraphs = getParagraphs(getLines(textContent.items.filter(isTextItem)));
+      let ocrConfidence: number | undefined;
+      if (paragraphs.length === 0) {
+        if (ocrAdapter === undefined) {
+          ocrAdapter = await getAvailableOcrAdapter();
+        }
+        const ocr = ocrAdapter && (await recognizePage(pdf, page, ocrAdapter, docName, pageNum));
+        // OCR text has no positions, so outline entries resolve to the page's first paragraph
+        paragraphs = (ocr?.text || '')
+          .split(/\n\s*\n/)
+          .map((paragraph) => paragraph.trim())
+          .filter((paragraph) => paragraph !== '')
+          .map((paragraph) => ({ y: Number.NEGATIVE_INFINITY, text: paragraph }));
+        if (paragraphs.length === 0) {
+          continue;
+        }
+        ocrConfidence = ocr!.confidence;
+        ocrPages.push({
+          pageNumber: pageNum,
+          ...(ocrConfidence !== undefined ? { confidence: ocrConfidence } : {}),
+        });
+      }
+
+      if (text) {
+        text += '\n\n';
+      }
+      const startOffset = text.length;
+      paragraphs.forEach((paragraph, index) => {
+        if (index > 0) {
+          text += '\n\n';
+        }
+        anchors.push({ pageNumber: pageNum, y: paragraph.y, offset: text.length });
+        text += paragraph.text;
+      });
+      pages.push({
+        pageNumber: pageNum,
+        startOffset,
+        endOffset: text.length,
+        ...(ocrConfidence !== undefined ? { ocrConfidence } : {}),
+      });
+    }
+
+    const info = await getDocumentInfo(pdf, docName);
+    const outline = await getOutline(pdf, docName);
+    const headings = getHeadings(getOutlineTargets(outline), anchors, text.length);
+
+    logger.debug(
+      `[PdfService] Conversion complete for ${docName}, length: ${text.length}, pages with text: ${pages.length}/${numPages} (${ocrPages.length} from OCR), outline headings: ${headings.length}`
+    );
+    return {
+      text,
+      pages,
+      ...(headings.length > 0 ? { headings } : {}),
+      metadata: {
+        ...info,
+        pageCount: numPages,
+        ...(outline.length > 0 ? { outline: outline.map(toOutlineItem) } : {}),
+        ...(ocrPages.length > 0 ? { ocrEngine: ocrAdapter!.name, ocrPages } : {}),
+      },
+    };
+  } catch (error: any) {
+    logger.error(`[PdfService] Error converting PDF ${docName}:`, error.message);
+    throw new Error(`Failed to convert PDF to text: ${error.message}`);
+  }
+}
+
+/**
+ * Renders a page to a PNG image and reads its text with the OCR adapter.
+ * Failures are logged and leave the page without text rather than failing the document.
+ */
+async function recognizePage(
+  pdf: PDFDocumentProxy,
+  page: PDFPageProxy,
+  adapter: OcrAdapter,
+  docName: string,
+  pageNum: number
+): Promise<OcrResult | null> {
+  // The factory creates @napi-rs/canvas canvases under Node
+  const canvasFactory = pdf.canvasFactory as any;
+  let canvasAndContext: { canvas: any; context: CanvasRenderingContext2D } | null = null;
+  try {
+    const viewport = page.getViewport({ scale: OCR_RENDER_DPI / 72 });
+    canvasAndContext = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    await page.render({ canvasContext: canvasAndContext!.context, viewport }).promise;
+    const image: Buffer = canvasAndContext!.canvas.toBuffer('image/png');
+
+    const result = await adapter.recognize(image, {
+      mimeType: 'image/png',
+      filename: `${docName}#page=${pageNum}`,
+    });
+    logger.debug(
+      `[PdfService] OCR of page ${pageNum} of ${docName}: ${result.text.length} characters, confidence ${result.confidence ?? 'unknown'}`
+    );
+    return result;
+  } catch (error: any) {
+    logger.warn(`[PdfService] OCR failed for page ${pageNum} of ${docName}: ${error.message}`);
+    return null;
+  } finally {
+    if (canvasAndContext) {
+      canvasFactory.destroy(canvasAndContext);
+    }
+  }
+}
+
+/**
+ * Reads the title, author, subject and creation date from the PDF's info dictionary.
+ * Missing or blank entries are left out; a broken dictionary yields no metadata.
+ */
+async function getDocumentInfo(
+  pdf: PDFDocumentProxy,
+  docName: string
+): Promise<Record<string, string>> {
+  try {
+    const info = (await pdf.getMetadata()).info as Record<string, unknown>;
+    const infoString = (key: string) =>
+      typeof info?.[key] === 'string' ? (info[key] as string).replace(/\s+/g, ' ').trim() : '';
+
+    const title = infoString('Title');
+    const author = infoString('Author');
+    const subject = infoString('Subject');
+    const creationDate = PDFDateString.toDateObject(infoString('CreationDate'));
+    return {
+      ...(title ? { title } : {}),
+      ...(author ? { author } : {}),
+      ...(subject ? { subject } : {}),
+      ...(creationDate && !isNaN(creationDate.getTime())
+        ? { creationDate: creationDate.toISOString() }
+        : {}),
+    };
+  } catch (error: any) {
+    logger.warn(`[PdfService] Could not read document info of ${docName}: ${error.message}`);
+    return {};
+  }
+}
+
+/**
+ * Reads the outline (bookmarks) tree and resolves every entry's destination to a page
+ */
+async function getOutline(pdf: PDFDocumentProxy, docName: string): Promise<PdfOutlineNode[]> {
+  try {
+    const outline = await pdf.getOutline();
+    return outline ? await resolveOutline(pdf, outline, []) : [];
+  } catch (error: any) {
+    logger.warn(`[PdfService] Could not read outline of ${docName}: ${error.message}`);
+    return [];
+  }
+}
+
+async function resolveOutline(
+  pdf: PDFDocumentProxy,
+  items: RawOutlineItem[],
+  parentPath: string[]
+): Promise<PdfOutlineNode[]> {
+  const nodes: PdfOutlineNode[] = [];
+  for (const item of items) {
+    const title = (item.title || '').replace(/\s+/g, ' ').trim();
+    const path = title ? [...parentPath, title] : parentPath;
+    const children = await resolveOutline(pdf, item.items || [], path);
+    if (!title) {
+      nodes.push(...children);
+      continue;
+    }
+    nodes.push({ title, path, ...(await resolveDestination(pdf, item.dest)), items: children });
+  }
+  return nodes;
+}
+
+/**
+ * Resolves a named or explicit destination to its 1-based page number and top position.
+ * Destinations that cannot be resolved (e.g. links to other files) have no page.
+ */
+async function resolveDestination(
+  pdf: PDFDocumentProxy,
+  dest: string | any[] | null
+): Promise<{ pageNumber?: number; top?: number }> {
+  try {
+    const explicitDest = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicitDest) || explicitDest.length === 0) {
+      return {};
+    }
+
+    const [pageRef, fit] = explicitDest;
+    const pageIndex =
+      typeof pageRef === 'number'
+        ? pageRef
+        : pageRef && typeof pageRef === 'object'
+          ? await pdf.getPageIndex(pageRef)
+          : -1;
+    if (pageIndex < 0 || pageIndex >= pdf.numPages) {
+      return {};
+    }
+
+    // Only XYZ and the horizontal fits say where on the page the destination starts
+    const topIndex =
+      fit?.name === 'XYZ' ? 3 : fit?.name === 'FitH' || fit?.name === 'FitBH' ? 2 : -1;
+    const top = topIndex > 0 ? explicitDest[topIndex] : null;
+    return { pageNumber: pageIndex + 1, ...(typeof top === 'number' ? { top } : {}) };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Flattens the outline tree in document order
+ */
+function getOutlineTargets(nodes: PdfOutlineNode[]): PdfOutlineTarget[] {
+  return nodes.flatMap((node) => [node, ...getOutlineTargets(node.items)]);
+}
+
+/**
+ * Places outline entries in the text. An entry starts at the first paragraph on its page
+ * at or below its destination's top, or at the page's first paragraph when there is no top.
+ * Entries pointing past the last paragraph of their page start with the next page's text.
+ */
+function getHeadings(
+  targets: PdfOutlineTarget[],
+  anchors: PdfTextAnchor[],
+  textLength: number
+): DocumentHeading[] {
+  return targets
+    .filter((target) => target.pageNumber !== undefined)
+    .map((target) => {
+      const anchor = anchors.find(
+        (candidate) =>
+          candidate.pageNumber > target.pageNumber! ||
+          (candidate.pageNumber === target.pageNumber &&
+            (target.top === undefined || candidate.y <= target.top))
+      );
+      return { path: target.path, startOffset: anchor ? anchor.offset : textLength };
+    })
+    .filter((heading) => heading.startOffset < textLength)
+    .sort((a, b) => a.startOffset - b.startOffset);
+}
+
+function toOutlineItem(node: PdfOutlineNode): DocumentOutlineItem {
+  return {
+    title: node.title,
+    ...(node.pageNumber !== undefined ? { pageNumber: node.pageNumber } : {}),
+    ...(node.items.length > 0 ? { items: node.items.map(toOutlineItem) } : {}),
+  };
+}
+
+/**
+ * Groups a page's text items into lines by their y-position, top to bottom
+ */
+function getLines(items: TextItem[]): PdfLine[] {
+  const lineMap = new Map<number, TextItem[]>();
+
+  items.forEach((item) => {
+    // Round y-position to account for small variations in the same line
+    const yPos = Math.round(item.transform[5]);
+    if (!lineMap.has(yPos)) {
+      lineMap.set(yPos, []);
+    }
+    lineMap.get(yPos)!.push(item);
+  });
+
+  // Sort lines by y-position (top to bottom) and items within lines by x-position (left to right)
+  return Array.from(lineMap.entries())
+    .sort((a, b) => b[0] - a[0])
+    .map(([y, lineItems]) => ({
+      y,
+      height: Math.max(...lineItems.map((item) => item.height || Math.abs(item.transform[3]))),
+      text: lineItems
+        .sort((a, b) => a.transform[4] - b.transform[4])
+        .map((item) => item.str)
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim(),
+    }))
+    .filter((line) => line.text !== '');
+}
+
+/**
+ * Groups consecutive lines into paragraphs, keeping the line breaks inside each paragraph.
+ * A new paragraph starts after an unusually large vertical gap or a change of font size.
+ */
+function getParagraphs(lines: PdfLine[]): PdfParagraph[] {
+  const gaps = lines.slice(1).map((line, index) => lines[index].y - line.y);
+  const usualGap = median(gaps.filter((gap) => gap > 0));
+
+  const paragraphs: PdfLine[][] = [];
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    if (!previous || startsParagraph(previous, line, usualGap, gaps.length)) {
+      paragraphs.push([]);
+    }
+    paragraphs[paragraphs.length - 1].push(line);
+  });
+
+  return paragraphs.map((paragraph) => ({
+    y: paragraph[0].y,
+    text: paragraph.map((line) => line.text).join('\n'),
+  }));
+}
+
+function startsParagraph(
+  previous: PdfLine,
+  line: PdfLine,
+  usualGap: number,
+  gapCount: number
+): boolean {
+  const gap = previous.y - line.y;
+  const heights = [previous.height, line.height].filter((height) => height > 0);
+  if (
+    heights.length === 2 &&
+    Math.max(...heights) / Math.min(...heights) > FONT_SIZE_CHANGE_RATIO
+  ) {
+    return true;
+  }
+  if (gapCount >= 3 && usualGap > 0) {
+    return gap > usualGap * PARAGRAPH_GAP_RATIO;
+  }
+  return heights.length > 0 && gap > Math.max(...heights) * PARAGRAPH_GAP_TO_HEIGHT_RATIO;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Check if the input is a TextItem.
+ *
+ * @param item - The input item to check.
+ * @returns A boolean indicating if the input is a TextItem.
+ */
+function isTextItem(item: TextItem | TextMarkedContent): item is TextItem {
+  return 'str' in item;
+}
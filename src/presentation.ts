@@ -0,0 +1,183 @@
+import { Buffer } from 'node:buffer';
+import { logger } from '@elizaos/core';
+import JSZip from 'jszip';
+import type { DocumentSection, ExtractedDocument } from './types.ts';
+import { getChildElements, getElements, readZipRelationships, readZipXml } from './xml.ts';
+
+export const PPTX_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+// Placeholders that only carry slide chrome (numbers, dates, footers)
+const IGNORED_PLACEHOLDER_TYPES = ['sldNum', 'dt', 'ftr', 'hdr'];
+const TITLE_PLACEHOLDER_TYPES = ['title', 'ctrTitle'];
+
+/**
+ * Text collected from a single slide
+ */
+interface SlideContent {
+  title?: string;
+  body: string[];
+}
+
+/**
+ * Checks whether a file is a PowerPoint (PPTX) presentation
+ */
+export function isPresentationFile(contentType: string, filename: string): boolean {
+  return (
+    contentType.toLowerCase() === PPTX_CONTENT_TYPE || filename.toLowerCase().endsWith('.pptx')
+  );
+}
+
+/**
+ * Extracts a PPTX presentation slide by slide.
+ * Slide titles, body text, tables and speaker notes are kept, and every slide
+ * becomes its own section so fragments can record which slide they came from.
+ */
+export async function extractPresentationFromBuffer(
+  fileBuffer: Buffer,
+  originalFilename: string
+): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(fileBuffer);
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = await readZipXml(zip, presentationPath);
+  if (!presentation) {
+    throw new Error('Missing ppt/presentation.xml, not a valid PPTX file');
+  }
+
+  // Slide order comes from the presentation's slide id list, not from file names
+  const presentationRels = await readZipRelationships(zip, presentationPath);
+  const slidePaths = getElements(presentation, 'p:sldId')
+    .map((slideId) => presentationRels.get(slideId.getAttribute('r:id') || '')?.target)
+    .filter((target): target is string => !!target);
+
+  const sections: DocumentSection[] = [];
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const slideNumber = index + 1;
+    const slide = await readZipXml(zip, slidePath);
+    if (!slide) {
+      logger.warn(`[Presentation] ${originalFilename}: slide ${slideNumber} is missing`);
+      continue;
+    }
+
+    const content: SlideContent = { body: [] };
+    for (const shapeTree of getElements(slide, 'p:spTree')) {
+      collectShapeTreeText(shapeTree, content);
+    }
+    const notes = await getSlideNotes(zip, slidePath);
+
+    const lines = [
+      content.title ? `Slide ${slideNumber}: ${content.title}` : `Slide ${slideNumber}`,
+    ];
+    lines.push(...content.body);
+    if (notes) {
+      lines.push(`Speaker notes: ${notes}`);
+    }
+    if (lines.length === 1) {
+      continue; // Nothing but the slide heading
+    }
+
+    sections.push({
+      text: lines.join('\n'),
+      metadata: {
+        slideNumber,
+        ...(content.title ? { slideTitle: content.title } : {}),
+        hasSpeakerNotes: !!notes,
+      },
+    });
+  }
+
+  logger.debug(
+    `[Presentation] ${originalFilename}: extracted ${sections.length}/${slidePaths.length} slides`
+  );
+
+  return {
+    text: sections.map((section) => section.text).join('\n\n'),
+    sections,
+    metadata: {
+      slideCount: slidePaths.length,
+    },
+  };
+}
+
+/**
+ * Walks a slide's shape tree in document order, collecting titles, text and tables
+ */
+function collectShapeTreeText(node: Element, content: SlideContent): void {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType !== 1) {
+      continue;
+    }
+    const element = child as Element;
+
+    if (element.tagName === 'p:sp') {
+      const placeholderType = getElements(element, 'p:ph')[0]?.getAttribute('type') || '';
+      if (IGNORED_PLACEHOLDER_TYPES.includes(placeholderType)) {
+        continue;
+      }
+      const paragraphs = getParagraphs(element);
+      if (paragraphs.length === 0) {
+        continue;
+      }
+      if (TITLE_PLACEHOLDER_TYPES.includes(placeholderType) && !content.title) {
+        content.title = paragraphs.join(' ');
+      } else {
+        content.body.push(...paragraphs);
+      }
+    } else if (element.tagName === 'p:graphicFrame') {
+      for (const table of getElements(element, 'a:tbl')) {
+        content.body.push(...getTableRows(table));
+      }
+    } else if (element.tagName === 'p:grpSp') {
+      collectShapeTreeText(element, content);
+    }
+  }
+}
+
+/**
+ * Returns the non-empty paragraphs of a shape's text body
+ */
+function getParagraphs(node: Element): string[] {
+  return getElements(node, 'a:p')
+    .map((paragraph) =>
+      getElements(paragraph, 'a:t')
+        .map((text) => text.textContent || '')
+        .join('')
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+/**
+ * Renders a table as one `cell | cell` line per row
+ */
+function getTableRows(table: Element): string[] {
+  return getChildElements(table, 'a:tr')
+    .map((row) =>
+      getChildElements(row, 'a:tc')
+        .map((cell) => getParagraphs(cell).join(' '))
+        .join(' | ')
+    )
+    .filter((row) => row.replace(/[|\s]/g, '') !== '');
+}
+
+/**
+ * Reads the speaker notes attached to a slide, if any
+ */
+async function getSlideNotes(zip: JSZip, slidePath: string): Promise<string> {
+  const slideRels = await readZipRelationships(zip, slidePath);
+  const notesRel = Array.from(slideRels.values()).find((rel) => rel.type.endsWith('/notesSlide'));
+  if (!notesRel) {
+    return '';
+  }
+
+  const notesSlide = await readZipXml(zip, notesRel.target);
+  if (!notesSlide) {
+    return '';
+  }
+
+  // Only the body placeholder holds the notes; the rest is the slide image and number
+  return getElements(notesSlide, 'p:sp')
+    .filter((shape) => getElements(shape, 'p:ph')[0]?.getAttribute('type') === 'body')
+    .flatMap((shape) => getParagraphs(shape))
+    .join('\n');
+}
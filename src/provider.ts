@@ -1,5 +1,6 @@
-import type { IAgentRuntime, Memory, Provider } from '@elizaos/core';
+import type { IAgentRuntime, KnowledgeItem, Memory, Provider } from '@elizaos/core';
 import { addHeader, logger } from '@elizaos/core';
+import { getChunkWithContext } from './ctx-embeddings.ts';
 import { KnowledgeService } from './service.ts';
 
 /**
@@ -24,11 +25,22 @@ export const knowledgeProvider: Provider = {
 
     const firstFiveKnowledgeItems = knowledgeData?.slice(0, 5);
 
+    // Fragments enriched with CTX_KNOWLEDGE_ENABLED keep their generated context apart from
+    // their text; KNOWLEDGE_PROVIDER_TEXT=raw shows the text without that context
+    const showRawText =
+      String(runtime.getSetting('KNOWLEDGE_PROVIDER_TEXT') || '').toLowerCase() === 'raw';
+    const getKnowledgeText = (item: KnowledgeItem) =>
+      showRawText
+        ? item.content.text
+        : getChunkWithContext(item.content.text || '', item.content.context as string | undefined);
+
     let knowledge =
       (firstFiveKnowledgeItems && firstFiveKnowledgeItems.length > 0
         ? addHeader(
             '# Knowledge',
-            firstFiveKnowledgeItems.map((knowledge) => `- ${knowledge.content.text}`).join('\n')
+            firstFiveKnowledgeItems
+              .map((knowledge) => `- ${getKnowledgeText(knowledge)}`)
+              .join('\n')
           )
         : '') + '\n';
 
@@ -43,13 +55,49 @@ export const knowledgeProvider: Provider = {
     if (knowledgeData && knowledgeData.length > 0) {
       ragMetadata = {
         retrievedFragments: knowledgeData.map((fragment) => ({
-          fragmentId: fragment.id,
+          // For parent windows, the best-matching fragment within them
+          fragmentId: (fragment.metadata as any)?.fragmentId || fragment.id,
+          // Parent window returned in place of the matching fragments (parent-document retrieval)
+          ...((fragment.metadata as any)?.parentId && {
+            parentId: (fragment.metadata as any).parentId,
+            matchedFragmentIds: (fragment.metadata as any).matchedFragmentIds,
+          }),
           documentTitle:
             (fragment.metadata as any)?.filename ||
             (fragment.metadata as any)?.title ||
             'Unknown Document',
           similarityScore: (fragment as any).similarity,
+          // The original text, even when it was shown with its context
           contentPreview: (fragment.content?.text || 'No content').substring(0, 100) + '...',
+          // Source pages, for fragments of paginated documents such as PDFs
+          ...((fragment.metadata as any)?.pageStart !== undefined && {
+            pageStart: (fragment.metadata as any).pageStart,
+            pageEnd: (fragment.metadata as any).pageEnd,
+          }),
+          // Time range in seconds, for fragments of transcripts such as SRT and WebVTT files
+          ...((fragment.metadata as any)?.startTime !== undefined && {
+            startTime: (fragment.metadata as any).startTime,
+            endTime: (fragment.metadata as any).endTime,
+          }),
+          // Character range within the document text, for highlighting where the match came from
+          ...((fragment.metadata as any)?.startOffset !== undefined && {
+            startOffset: (fragment.metadata as any).startOffset,
+            endOffset: (fragment.metadata as any).endOffset,
+          }),
+          // Line range, for fragments of text files
+          ...((fragment.metadata as any)?.startLine !== undefined && {
+            startLine: (fragment.metadata as any).startLine,
+            endLine: (fragment.metadata as any).endLine,
+          }),
+          // Enclosing function, class or method, for fragments of source code
+          ...((fragment.metadata as any)?.symbolName && {
+            symbolName: (fragment.metadata as any).symbolName,
+            symbolKind: (fragment.metadata as any).symbolKind,
+          }),
+          // Outline section, for fragments of documents with bookmarks such as PDFs
+          ...((fragment.metadata as any)?.sectionPath && {
+            sectionPath: (fragment.metadata as any).sectionPath,
+          }),
         })),
         queryText: message.content?.text || 'Unknown query',
         totalFragments: knowledgeData.length,
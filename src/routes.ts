@@ -1,6 +1,8 @@
 import type { IAgentRuntime, Route, UUID, Memory, KnowledgeItem } from '@elizaos/core';
 import { MemoryType, createUniqueUuid, logger, ModelType } from '@elizaos/core';
 import { KnowledgeService } from './service';
+import { isArchiveFile } from './archive.ts';
+import type { ArchiveEntryResult, ChunkingOptions } from './types.ts';
 import fs from 'node:fs'; // For file operations in upload
 import path from 'node:path'; // For path operations
 import multer from 'multer'; // For handling multipart uploads
@@ -14,13 +16,37 @@ const createUploadMiddleware = (runtime: IAgentRuntime) => {
   const allowedMimeTypes = runtime.getSetting('KNOWLEDGE_ALLOWED_MIME_TYPES')?.split(',') || [
     'text/plain',
     'text/markdown',
+    'text/mdx',
     'application/pdf',
     'application/msword',
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     'text/html',
     'application/json',
+    'text/yaml',
+    'application/toml',
+    'application/x-ipynb+json',
     'application/xml',
     'text/csv',
+    'text/tab-separated-values',
+    'text/vtt',
+    'application/x-subrip',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/epub+zip',
+    'message/rfc822',
+    'application/mbox',
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/x-tar',
+    'application/gzip',
+    'application/x-gzip',
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/bmp',
+    'image/tiff',
+    'image/webp',
   ];
 
   return multer({
@@ -86,6 +112,37 @@ const cleanupFiles = (files: MulterFile[]) => {
   }
 };
 
+// Helper to summarize the per-file results of an archive upload; any failed file fails the archive
+function getArchiveStatus(entries: ArchiveEntryResult[]): { status: string; error?: string } {
+  const failed = entries.filter((entry) => entry.status === 'error_processing').length;
+  return failed === 0
+    ? { status: 'success' }
+    : {
+        status: 'error_processing',
+        error: `${failed} of ${entries.length} archive entries failed`,
+      };
+}
+
+// Reads optional chunking fields sent with an upload, as form fields or JSON; sizes are in tokens
+function getChunkingOptions(body: any): ChunkingOptions | undefined {
+  const chunking: ChunkingOptions = {};
+  if (body?.chunkingStrategy) {
+    chunking.strategy = body.chunkingStrategy;
+  }
+  for (const key of [
+    'chunkSize',
+    'chunkOverlap',
+    'minChunkSize',
+    'breakpointPercentile',
+    'parentChunkSize',
+  ] as const) {
+    if (body?.[key] !== undefined && body[key] !== '') {
+      chunking[key] = Number(body[key]);
+    }
+  }
+  return Object.keys(chunking).length > 0 ? chunking : undefined;
+}
+
 // Main upload handler (without multer, multer is applied by wrapper)
 async function uploadKnowledgeHandler(req: any, res: any, runtime: IAgentRuntime) {
   const service = runtime.getService<KnowledgeService>(KnowledgeService.serviceType);
@@ -159,6 +216,7 @@ async function uploadKnowledgeHandler(req: any, res: any, runtime: IAgentRuntime
       }
 
       const worldId = (req.body.worldId as UUID) || agentId;
+      const chunking = getChunkingOptions(req.body);
       logger.info(`[Document Processor] 📤 Processing file upload for agent: ${agentId}`);
 
       const processingPromises = files.map(async (file, index) => {
@@ -184,8 +242,23 @@ async function uploadKnowledgeHandler(req: any, res: any, runtime: IAgentRuntime
             worldId,
             roomId: agentId, // Use the correct agent ID
             entityId: agentId, // Use the correct agent ID
+            chunking,
           };
 
+          // Archives are expanded and report the outcome of every file they contain
+          if (isArchiveFile(file.mimetype, originalFilename)) {
+            const entries = await service.addArchiveKnowledge(addKnowledgeOpts);
+            cleanupFile(filePath);
+            return {
+              filename: originalFilename,
+              type: file.mimetype,
+              size: file.size,
+              uploadedAt: Date.now(),
+              ...getArchiveStatus(entries),
+              entries,
+            };
+          }
+
           const result = await service.addKnowledge(addKnowledgeOpts);
 
           cleanupFile(filePath);
@@ -257,14 +330,21 @@ async function uploadKnowledgeHandler(req: any, res: any, runtime: IAgentRuntime
           const urlObject = new URL(fileUrl);
           const pathSegments = urlObject.pathname.split('/');
           // Decode URL-encoded characters and handle empty filename
-          const encodedFilename = pathSegments[pathSegments.length - 1] || 'document.pdf';
-          const originalFilename = decodeURIComponent(encodedFilename);
+          const encodedFilename = pathSegments[pathSegments.length - 1];
 
           logger.debug(`[Document Processor] 🌐 Fetching content from URL: ${fileUrl}`);
 
           // Fetch the content from the URL
           const { content, contentType: fetchedContentType } = await fetchUrlContent(fileUrl);
 
+          // Pages without a file name in their path (e.g. https://example.com/docs/) are HTML, not PDFs
+          const defaultFilename = fetchedContentType.includes('text/html')
+            ? `${urlObject.hostname}.html`
+            : 'document.pdf';
+          const originalFilename = encodedFilename
+            ? decodeURIComponent(encodedFilename)
+            : defaultFilename;
+
           // Determine content type, using the one from the server response or inferring from extension
           let contentType = fetchedContentType;
 
@@ -278,14 +358,53 @@ async function uploadKnowledgeHandler(req: any, res: any, runtime: IAgentRuntime
                 contentType = 'text/plain';
               } else if (['md', 'markdown'].includes(fileExtension)) {
                 contentType = 'text/markdown';
+              } else if (['mdx'].includes(fileExtension)) {
+                contentType = 'text/mdx';
               } else if (['doc', 'docx'].includes(fileExtension)) {
                 contentType = 'application/msword';
               } else if (['html', 'htm'].includes(fileExtension)) {
                 contentType = 'text/html';
               } else if (['json'].includes(fileExtension)) {
                 contentType = 'application/json';
+              } else if (['yaml', 'yml'].includes(fileExtension)) {
+                contentType = 'text/yaml';
+              } else if (['toml'].includes(fileExtension)) {
+                contentType = 'application/toml';
+              } else if (['ipynb'].includes(fileExtension)) {
+                contentType = 'application/x-ipynb+json';
               } else if (['xml'].includes(fileExtension)) {
                 contentType = 'application/xml';
+              } else if (['xlsx'].includes(fileExtension)) {
+                contentType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+              } else if (['ods'].includes(fileExtension)) {
+                contentType = 'application/vnd.oasis.opendocument.spreadsheet';
+              } else if (['pptx'].includes(fileExtension)) {
+                contentType =
+                  'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+              } else if (['epub'].includes(fileExtension)) {
+                contentType = 'application/epub+zip';
+              } else if (['srt'].includes(fileExtension)) {
+                contentType = 'application/x-subrip';
+              } else if (['vtt'].includes(fileExtension)) {
+                contentType = 'text/vtt';
+              } else if (['eml'].includes(fileExtension)) {
+                contentType = 'message/rfc822';
+              } else if (['mbox'].includes(fileExtension)) {
+                contentType = 'application/mbox';
+              } else if (['zip'].includes(fileExtension)) {
+                contentType = 'application/zip';
+              } else if (['tar'].includes(fileExtension)) {
+                contentType = 'application/x-tar';
+              } else if (['tgz', 'gz'].includes(fileExtension)) {
+                contentType = 'application/gzip';
+              } else if (['png'].includes(fileExtension)) {
+                contentType = 'image/png';
+              } else if (['jpg', 'jpeg'].includes(fileExtension)) {
+                contentType = 'image/jpeg';
+              } else if (['tif', 'tiff'].includes(fileExtension)) {
+                contentType = 'image/tiff';
+              } else if (['gif', 'bmp', 'webp'].includes(fileExtension)) {
+                contentType = `image/${fileExtension}`;
               }
             }
           }
@@ -304,11 +423,24 @@ async function uploadKnowledgeHandler(req: any, res: any, runtime: IAgentRuntime
             metadata: {
               url: normalizedUrl,
             },
+            chunking: getChunkingOptions(req.body),
           };
 
           logger.debug(
             `[Document Processor] 📄 Processing knowledge from URL: ${originalFilename} (type: ${contentType})`
           );
+
+          if (isArchiveFile(contentType, originalFilename)) {
+            const entries = await service.addArchiveKnowledge(addKnowledgeOpts);
+            return {
+              fileUrl: fileUrl,
+              filename: originalFilename,
+              createdAt: Date.now(),
+              ...getArchiveStatus(entries),
+              entries,
+            };
+          }
+
           const result = await service.addKnowledge(addKnowledgeOpts);
 
           return {
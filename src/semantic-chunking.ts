@@ -0,0 +1,175 @@
+import { IAgentRuntime, ModelType, logger } from '@elizaos/core';
+import { DEFAULT_CHARS_PER_TOKEN } from './ctx-embeddings.ts';
+
+export const DEFAULT_SEMANTIC_MIN_CHUNK_TOKENS = 100;
+export const DEFAULT_BREAKPOINT_PERCENTILE = 10;
+// Sentences embedded at the same time
+const EMBEDDING_BATCH_SIZE = 10;
+
+/**
+ * Options for splitting text at topic changes
+ */
+export interface SemanticChunkingOptions {
+  /** Largest chunk in tokens; a chunk is closed before it grows past this */
+  maxChunkSize: number;
+  /** Smallest chunk in tokens; no boundary is placed before a chunk reaches this */
+  minChunkSize: number;
+  /**
+   * Boundaries go where the similarity of adjacent sentences is below this percentile of all
+   * adjacent-sentence similarities in the text (0-100; lower means fewer, sharper breaks)
+   */
+  breakpointPercentile: number;
+  /** Called before each embedding request with its estimated token count */
+  rateLimiter?: (estimatedTokens?: number) => Promise<void>;
+}
+
+/**
+ * A sentence as a character range of the text it came from (end exclusive)
+ */
+interface SentenceSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits text into chunks along topic changes. The text is split into sentences, each
+ * sentence is embedded with the runtime's TEXT_EMBEDDING model, and a chunk boundary is
+ * placed between adjacent sentences whose cosine similarity falls below the configured
+ * percentile, as long as the chunk has reached the minimum size. Chunks never exceed the
+ * maximum size, and sentences longer than that are cut at whitespace. Chunks are verbatim
+ * slices of the text and do not overlap.
+ *
+ * @param runtime The agent runtime used for embeddings
+ * @param text The text to split
+ * @param options Chunk sizes and breakpoint percentile
+ * @returns The chunks in text order
+ * @throws When an embedding cannot be generated
+ */
+export async function splitTextSemantically(
+  runtime: IAgentRuntime,
+  text: string,
+  options: SemanticChunkingOptions
+): Promise<string[]> {
+  const maxChars = Math.round(options.maxChunkSize * DEFAULT_CHARS_PER_TOKEN);
+  const minChars = Math.round(options.minChunkSize * DEFAULT_CHARS_PER_TOKEN);
+  const sentences = splitSentences(text, maxChars);
+  if (sentences.length <= 1) {
+    return sentences.map(({ start, end }) => text.slice(start, end));
+  }
+
+  const embeddings: number[][] = [];
+  for (let i = 0; i < sentences.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = sentences.slice(i, i + EMBEDDING_BATCH_SIZE);
+    embeddings.push(
+      ...(await Promise.all(
+        batch.map(({ start, end }) => embedSentence(runtime, text.slice(start, end), options))
+      ))
+    );
+  }
+
+  const similarities = embeddings
+    .slice(1)
+    .map((embedding, index) => cosineSimilarity(embeddings[index], embedding));
+  const threshold = getPercentile(similarities, options.breakpointPercentile);
+
+  const groups: SentenceSpan[] = [];
+  let current: SentenceSpan = { ...sentences[0] };
+  for (let i = 1; i < sentences.length; i++) {
+    const sentence = sentences[i];
+    const currentLength = current.end - current.start;
+    const isTopicChange = similarities[i - 1] < threshold && currentLength >= minChars;
+    if (isTopicChange || sentence.end - current.start > maxChars) {
+      groups.push(current);
+      current = { ...sentence };
+    } else {
+      current.end = sentence.end;
+    }
+  }
+  // A short tail joins the previous chunk when there is room for it
+  const previous = groups[groups.length - 1];
+  if (
+    previous &&
+    current.end - current.start < minChars &&
+    current.end - previous.start <= maxChars
+  ) {
+    previous.end = current.end;
+  } else {
+    groups.push(current);
+  }
+
+  logger.debug(
+    `[Semantic Chunking] ${sentences.length} sentences in ${groups.length} chunks (similarity threshold ${threshold.toFixed(3)})`
+  );
+  return groups.map(({ start, end }) => text.slice(start, end));
+}
+
+/**
+ * Finds the sentences of a text: runs ending in `.`, `!` or `?` (and their CJK forms) followed
+ * by whitespace, or ending at a blank line. Surrounding whitespace is left out, and sentences
+ * longer than `maxChars` are cut at the last whitespace that fits.
+ */
+function splitSentences(text: string, maxChars: number): SentenceSpan[] {
+  const spans: SentenceSpan[] = [];
+  const boundary = /(?<=[.!?。！？])\s+|\n\s*\n/g;
+  let start = 0;
+  const addSpan = (spanStart: number, spanEnd: number) => {
+    while (spanStart < spanEnd && /\s/.test(text[spanStart])) spanStart++;
+    while (spanEnd > spanStart && /\s/.test(text[spanEnd - 1])) spanEnd--;
+    while (spanEnd - spanStart > maxChars) {
+      const cut = text.lastIndexOf(' ', spanStart + maxChars);
+      const pieceEnd = cut > spanStart ? cut : spanStart + maxChars;
+      spans.push({ start: spanStart, end: pieceEnd });
+      spanStart = pieceEnd;
+      while (spanStart < spanEnd && /\s/.test(text[spanStart])) spanStart++;
+    }
+    if (spanEnd > spanStart) {
+      spans.push({ start: spanStart, end: spanEnd });
+    }
+  };
+
+  for (const match of text.matchAll(boundary)) {
+    addSpan(start, match.index!);
+    start = match.index! + match[0].length;
+  }
+  addSpan(start, text.length);
+  return spans;
+}
+
+async function embedSentence(
+  runtime: IAgentRuntime,
+  sentence: string,
+  { rateLimiter }: SemanticChunkingOptions
+): Promise<number[]> {
+  await rateLimiter?.(Math.ceil(sentence.length / DEFAULT_CHARS_PER_TOKEN));
+  const result = await runtime.useModel(ModelType.TEXT_EMBEDDING, { text: sentence });
+  const embedding = Array.isArray(result)
+    ? result
+    : (result as { embedding: number[] } | undefined)?.embedding;
+  if (!embedding || embedding.length === 0) {
+    throw new Error('Empty embedding returned for sentence');
+  }
+  return embedding;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Returns the given percentile of the values, interpolating between neighbouring ranks
+ */
+function getPercentile(values: number[], percentile: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(percentile, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
@@ -1,6 +1,5 @@
 import {
   Content,
-  createUniqueUuid,
   FragmentMetadata,
   IAgentRuntime,
   KnowledgeItem,
@@ -11,20 +10,37 @@ import {
   ModelType,
   Semaphore,
   Service,
-  splitChunks,
   UUID,
   Metadata,
 } from '@elizaos/core';
 import {
   createDocumentMemory,
-  extractTextFromDocument,
+  extractDocumentContent,
+  PARENT_FRAGMENTS_TABLE,
   processFragmentsSynchronously,
 } from './document-processor.ts';
-import { validateModelConfig } from './config';
-import { AddKnowledgeOptions } from './types.ts';
+import { getChunkingConfig, validateModelConfig } from './config';
+import {
+  AddKnowledgeOptions,
+  ArchiveEntryResult,
+  DocumentHeading,
+  DocumentPage,
+  DocumentSection,
+} from './types.ts';
 import type { KnowledgeConfig, LoadResult } from './types';
-import { loadDocsFromPath } from './docs-loader';
-import { isBinaryContentType, looksLikeBase64, generateContentBasedId } from './utils.ts';
+import * as path from 'path';
+import { extractArchiveEntries, isArchiveFile } from './archive.ts';
+import { getContentType, loadDocsFromPath } from './docs-loader';
+import { extractEmailsFromBuffer, isEmailFile } from './email.ts';
+import { decodeTextBuffer } from './encoding.ts';
+import { extractImageDocument } from './image.ts';
+import { configureOcr, isImageFile } from './ocr.ts';
+import {
+  extractDocumentFromText,
+  isBinaryContentType,
+  looksLikeBase64,
+  generateContentBasedId,
+} from './utils.ts';
 
 const parseBooleanEnv = (value: any): boolean => {
   if (typeof value === 'boolean') return value;
@@ -110,6 +126,7 @@ export class KnowledgeService extends Service {
       );
 
       validatedConfig = validateModelConfig(runtime);
+      configureOcr(runtime);
 
       // Help inform how this was detected
       const ctxEnabledFromEnv = parseBooleanEnv(process.env.CTX_KNOWLEDGE_ENABLED);
@@ -229,6 +246,23 @@ export class KnowledgeService extends Service {
     clientDocumentId: string;
     storedDocumentMemoryId: UUID;
     fragmentCount: number;
+  }> {
+    // Email files hold one or more messages, each stored as its own document
+    if (isEmailFile(options.contentType, options.originalFilename)) {
+      return this.addEmailKnowledge(options);
+    }
+    return this.addDocumentKnowledge(options);
+  }
+
+  /**
+   * Adds a single document under an ID derived from its content, unless it is stored already
+   * @param options Knowledge options
+   * @returns Promise with document processing result
+   */
+  private async addDocumentKnowledge(options: AddKnowledgeOptions): Promise<{
+    clientDocumentId: string;
+    storedDocumentMemoryId: UUID;
+    fragmentCount: number;
   }> {
     // Use agentId from options if provided (from frontend), otherwise fall back to runtime
     const agentId = options.agentId || (this.runtime.agentId as UUID);
@@ -281,7 +315,128 @@ export class KnowledgeService extends Service {
   }
 
   /**
-   * Process a document regardless of type - Called by public addKnowledge
+   * Expands a zip or tar(.gz) archive and adds each supported file as its own document,
+   * with its path inside the archive in the `archivePath` metadata. Files are processed one
+   * at a time and a failing file does not stop the others.
+   * @param options Options for the archive itself; `content` is the base64 encoded archive
+   * @returns One result per file in the archive
+   */
+  async addArchiveKnowledge(options: AddKnowledgeOptions): Promise<ArchiveEntryResult[]> {
+    const { originalFilename } = options;
+    const entries = await extractArchiveEntries(
+      Buffer.from(options.content, 'base64'),
+      options.contentType,
+      originalFilename
+    );
+
+    const results: ArchiveEntryResult[] = [];
+    for (const entry of entries) {
+      if (!entry.content) {
+        results.push({ path: entry.path, status: 'error_processing', error: entry.error });
+        continue;
+      }
+
+      const fileName = path.posix.basename(entry.path);
+      const contentType = getContentType(path.extname(fileName).toLowerCase());
+      if (!contentType || isArchiveFile(contentType, fileName)) {
+        results.push({ path: entry.path, status: 'skipped', error: 'Unsupported file type' });
+        continue;
+      }
+
+      try {
+        // Text files are passed as base64 too, like uploads, so processDocument decodes them
+        // exactly once and detects their character encoding
+        const result = await this.addKnowledge({
+          ...options,
+          contentType,
+          originalFilename: fileName,
+          content: entry.content.toString('base64'),
+          metadata: {
+            archivePath: entry.path,
+            archiveFilename: originalFilename,
+            ...options.metadata,
+          },
+        });
+        results.push({
+          path: entry.path,
+          status: 'success',
+          clientDocumentId: result.clientDocumentId,
+          fragmentCount: result.fragmentCount,
+        });
+      } catch (error: any) {
+        logger.warn(
+          `KnowledgeService: Failed to add ${entry.path} from ${originalFilename}: ${error.message}`
+        );
+        results.push({ path: entry.path, status: 'error_processing', error: error.message });
+      }
+    }
+
+    const successful = results.filter((result) => result.status === 'success').length;
+    logger.info(`"${originalFilename}": added ${successful}/${results.length} archive entries`);
+    return results;
+  }
+
+  /**
+   * Adds every message of an .eml or .mbox file as a plain-text document carrying its
+   * from/to/date/subject/thread metadata. Text attachments are added as child documents
+   * that point back at their message with `parentDocumentId`.
+   * @returns The first message's document, with the fragment count of all added documents
+   */
+  private async addEmailKnowledge(options: AddKnowledgeOptions): Promise<{
+    clientDocumentId: string;
+    storedDocumentMemoryId: UUID;
+    fragmentCount: number;
+  }> {
+    const { originalFilename } = options;
+    const emails = await extractEmailsFromBuffer(
+      Buffer.from(options.content, 'base64'),
+      originalFilename
+    );
+    const baseName = originalFilename.replace(/\.(eml|mbox)$/i, '');
+
+    let firstResult: { clientDocumentId: string; storedDocumentMemoryId: UUID } | null = null;
+    let fragmentCount = 0;
+    for (const [index, { document, attachments }] of emails.entries()) {
+      // Messages are plain text now, so they skip the email check of addKnowledge
+      const result = await this.addDocumentKnowledge({
+        ...options,
+        contentType: 'text/plain',
+        originalFilename: emails.length === 1 ? `${baseName}.eml` : `${baseName}-${index + 1}.eml`,
+        content: Buffer.from(document.text, 'utf8').toString('base64'),
+        metadata: { ...document.metadata, ...options.metadata },
+      });
+      firstResult ??= result;
+      fragmentCount += result.fragmentCount;
+
+      for (const attachment of attachments) {
+        try {
+          const attachmentResult = await this.addKnowledge({
+            ...options,
+            contentType: attachment.contentType,
+            originalFilename: attachment.filename,
+            content: attachment.content.toString('base64'),
+            metadata: {
+              parentDocumentId: result.clientDocumentId,
+              ...(document.metadata?.threadId ? { threadId: document.metadata.threadId } : {}),
+              ...options.metadata,
+            },
+          });
+          fragmentCount += attachmentResult.fragmentCount;
+        } catch (error: any) {
+          logger.warn(
+            `KnowledgeService: Skipping attachment ${attachment.filename} of ${originalFilename}: ${error.message}`
+          );
+        }
+      }
+    }
+
+    logger.info(`"${originalFilename}": added ${emails.length} email(s)`);
+    return { ...firstResult!, fragmentCount };
+  }
+
+  /**
+   * Process a document regardless of type - Called by public addKnowledge and by
+   * _internalAddKnowledge for character knowledge
    * @param options Document options
    * @returns Promise with document processing result
    */
@@ -295,6 +450,7 @@ export class KnowledgeService extends Service {
     roomId,
     entityId,
     metadata,
+    chunking: chunkingOverride,
   }: AddKnowledgeOptions): Promise<{
     clientDocumentId: string;
     storedDocumentMemoryId: UUID;
@@ -308,9 +464,23 @@ export class KnowledgeService extends Service {
         `KnowledgeService: Processing document ${originalFilename} (type: ${contentType}) via processDocument for agent: ${agentId}`
       );
 
+      // Extractors that split along the document's structure size their sections by it
+      const chunking = getChunkingConfig(
+        this.runtime,
+        contentType,
+        originalFilename,
+        chunkingOverride
+      );
+
       let fileBuffer: Buffer | null = null;
       let extractedText: string;
       let documentContentToStore: string;
+      let extractedSections: DocumentSection[] | undefined;
+      let extractedPages: DocumentPage[] | undefined;
+      let extractedHeadings: DocumentHeading[] | undefined;
+      let extractedMetadata: Record<string, unknown> | undefined;
+      // Text files store their extracted text, so fragments can cite its lines
+      let isTextFile = false;
       const isPdfFile =
         contentType === 'application/pdf' || originalFilename.toLowerCase().endsWith('.pdf');
 
@@ -324,8 +494,37 @@ export class KnowledgeService extends Service {
           );
           throw new Error(`Invalid base64 content for PDF file ${originalFilename}`);
         }
-        extractedText = await extractTextFromDocument(fileBuffer, contentType, originalFilename);
+        const extracted = await extractDocumentContent(
+          fileBuffer,
+          contentType,
+          originalFilename,
+          chunking.chunkSize
+        );
+        extractedText = extracted.text;
+        extractedSections = extracted.sections;
+        extractedPages = extracted.pages;
+        extractedHeadings = extracted.headings;
+        extractedMetadata = extracted.metadata;
         documentContentToStore = content; // Store base64 for PDFs
+      } else if (isImageFile(contentType, originalFilename)) {
+        // For images: describe them for fragments but keep the original base64 for display
+        try {
+          fileBuffer = Buffer.from(content, 'base64');
+        } catch (e: any) {
+          logger.error(
+            `KnowledgeService: Failed to convert base64 to buffer for ${originalFilename}: ${e.message}`
+          );
+          throw new Error(`Invalid base64 content for image ${originalFilename}`);
+        }
+        const extracted = await extractImageDocument(
+          this.runtime,
+          fileBuffer,
+          contentType,
+          originalFilename
+        );
+        extractedText = extracted.text;
+        extractedMetadata = extracted.metadata;
+        documentContentToStore = content; // Store base64 so the image can be shown
       } else if (isBinaryContentType(contentType, originalFilename)) {
         // For other binary files: extract text and store as plain text
         try {
@@ -336,32 +535,35 @@ export class KnowledgeService extends Service {
           );
           throw new Error(`Invalid base64 content for binary file ${originalFilename}`);
         }
-        extractedText = await extractTextFromDocument(fileBuffer, contentType, originalFilename);
+        const extracted = await extractDocumentContent(
+          fileBuffer,
+          contentType,
+          originalFilename,
+          chunking.chunkSize
+        );
+        extractedText = extracted.text;
+        extractedSections = extracted.sections;
+        extractedPages = extracted.pages;
+        extractedHeadings = extracted.headings;
+        extractedMetadata = extracted.metadata;
         documentContentToStore = extractedText; // Store extracted text for non-PDF binary files
       } else {
         // For text files (including markdown): content is already plain text or needs decoding from base64
         // Routes always send base64, but docs-loader sends plain text
 
+        let textContent: string;
+        let textEncoding: string | undefined;
+
         // First, check if this looks like base64
         if (looksLikeBase64(content)) {
           try {
-            // Try to decode from base64
-            const decodedBuffer = Buffer.from(content, 'base64');
-            // Check if it's valid UTF-8
-            const decodedText = decodedBuffer.toString('utf8');
-
-            // Verify the decoded text doesn't contain too many invalid characters
-            const invalidCharCount = (decodedText.match(/\ufffd/g) || []).length;
-            const textLength = decodedText.length;
-
-            if (invalidCharCount > 0 && invalidCharCount / textLength > 0.1) {
-              // More than 10% invalid characters, probably not a text file
-              throw new Error('Decoded content contains too many invalid characters');
-            }
-
-            logger.debug(`Successfully decoded base64 content for text file: ${originalFilename}`);
-            extractedText = decodedText;
-            documentContentToStore = decodedText;
+            // Decode from base64 and transcode from the detected character encoding
+            const decoded = decodeTextBuffer(Buffer.from(content, 'base64'), contentType);
+            logger.debug(
+              `Successfully decoded base64 content for text file: ${originalFilename} (${decoded.encoding})`
+            );
+            textContent = decoded.text;
+            textEncoding = decoded.encoding;
           } catch (e) {
             logger.error(
               `Failed to decode base64 for ${originalFilename}: ${e instanceof Error ? e.message : String(e)}`
@@ -374,9 +576,27 @@ export class KnowledgeService extends Service {
         } else {
           // Content doesn't look like base64, treat as plain text
           logger.debug(`Treating content as plain text for file: ${originalFilename}`);
-          extractedText = content;
-          documentContentToStore = content;
+          textContent = content;
         }
+
+        // Markup formats (e.g. HTML pages) are reduced to their readable content
+        const sourceUrl = typeof metadata?.url === 'string' ? metadata.url : undefined;
+        const extracted = extractDocumentFromText(
+          textContent,
+          contentType,
+          originalFilename,
+          sourceUrl,
+          chunking.chunkSize
+        );
+        extractedText = extracted.text;
+        extractedSections = extracted.sections;
+        extractedPages = extracted.pages;
+        extractedHeadings = extracted.headings;
+        extractedMetadata = textEncoding
+          ? { encoding: textEncoding, ...extracted.metadata }
+          : extracted.metadata;
+        documentContentToStore = extracted.text;
+        isTextFile = true;
       }
 
       if (!extractedText || extractedText.trim() === '') {
@@ -389,7 +609,7 @@ export class KnowledgeService extends Service {
 
       // Create document memory using the clientDocumentId as the memory ID
       const documentMemory = createDocumentMemory({
-        text: documentContentToStore, // Store base64 only for PDFs, plain text for everything else
+        text: documentContentToStore, // Store base64 only for PDFs and images, plain text for everything else
         agentId,
         clientDocumentId, // This becomes the memory.id
         originalFilename,
@@ -397,7 +617,15 @@ export class KnowledgeService extends Service {
         worldId,
         fileSize: fileBuffer ? fileBuffer.length : extractedText.length,
         documentId: clientDocumentId, // Explicitly set documentId in metadata as well
-        customMetadata: metadata, // Pass the custom metadata
+        customMetadata: {
+          ...extractedMetadata,
+          ...metadata, // Caller metadata wins over extracted
+          chunkSize: chunking.chunkSize,
+          chunkOverlap: chunking.chunkOverlap,
+          chunkingProfile: chunking.profile,
+          chunkingStrategy: chunking.strategy,
+          ...(chunking.parentChunkSize > 0 && { parentChunkSize: chunking.parentChunkSize }),
+        },
       });
 
       const memoryWithScope = {
@@ -431,6 +659,11 @@ export class KnowledgeService extends Service {
         entityId: entityId || agentId,
         worldId: worldId || agentId,
         documentTitle: originalFilename,
+        sections: extractedSections,
+        pages: extractedPages,
+        headings: extractedHeadings,
+        chunking,
+        lineNumbers: isTextFile,
       });
 
       logger.debug(`"${originalFilename}" stored with ${fragmentCount} fragments`);
@@ -491,7 +724,7 @@ export class KnowledgeService extends Service {
       match_threshold: 0.1, // TODO: Make configurable
     });
 
-    return fragments
+    const items = fragments
       .filter((fragment) => fragment.id !== undefined) // Ensure fragment.id is defined
       .map((fragment) => ({
         id: fragment.id as UUID, // Cast as UUID after filtering
@@ -500,6 +733,64 @@ export class KnowledgeService extends Service {
         metadata: fragment.metadata,
         worldId: fragment.worldId,
       }));
+    return this.resolveParentFragments(items);
+  }
+
+  /**
+   * Replaces fragments that belong to a parent window (parent-document retrieval) with that
+   * parent. Each parent appears once, at the rank of its best-matching fragment and with that
+   * fragment's similarity; its metadata names the best match as `fragmentId` and all matches
+   * as `matchedFragmentIds`. Fragments without a parent, or whose parent is missing, are
+   * returned as they are.
+   */
+  private async resolveParentFragments(
+    items: Array<KnowledgeItem & { similarity?: number }>
+  ): Promise<KnowledgeItem[]> {
+    const getParentId = (item: KnowledgeItem) =>
+      (item.metadata as Record<string, unknown> | undefined)?.parentId as UUID | undefined;
+    const parentIds = [...new Set(items.map(getParentId).filter((id) => id !== undefined))];
+    if (parentIds.length === 0) {
+      return items;
+    }
+
+    const parents = await this.runtime.getMemoriesByIds(parentIds, PARENT_FRAGMENTS_TABLE);
+    const parentsById = new Map(parents.map((parent) => [parent.id, parent]));
+    const resolved: KnowledgeItem[] = [];
+    // Fragments matched so far per parent; shared with the parent's metadata
+    const matchedFragmentIds = new Map<UUID, UUID[]>();
+    for (const item of items) {
+      const parentId = getParentId(item);
+      const parent = parentId ? parentsById.get(parentId) : undefined;
+      if (!parentId || !parent) {
+        resolved.push(item);
+        continue;
+      }
+
+      const matches = matchedFragmentIds.get(parentId);
+      if (matches) {
+        matches.push(item.id);
+        continue;
+      }
+      const parentMatches = [item.id];
+      matchedFragmentIds.set(parentId, parentMatches);
+      resolved.push({
+        id: parentId,
+        content: parent.content as Content,
+        similarity: item.similarity,
+        metadata: {
+          ...parent.metadata,
+          parentId,
+          fragmentId: item.id,
+          matchedFragmentIds: parentMatches,
+        } as MemoryMetadata,
+        worldId: parent.worldId,
+      } as KnowledgeItem);
+    }
+
+    logger.debug(
+      `KnowledgeService: ${items.length} matching fragments resolved to ${resolved.length} results (${matchedFragmentIds.size} parent windows)`
+    );
+    return resolved;
   }
 
   /**
@@ -516,6 +807,14 @@ export class KnowledgeService extends Service {
         documentTitle: string;
         similarityScore?: number;
         contentPreview: string;
+        pageStart?: number;
+        pageEnd?: number;
+        startOffset?: number;
+        endOffset?: number;
+        startLine?: number;
+        endLine?: number;
+        parentId?: UUID;
+        matchedFragmentIds?: UUID[];
       }>;
       queryText: string;
       totalFragments: number;
@@ -671,6 +970,9 @@ export class KnowledgeService extends Service {
           source: 'character', // Indicate the source
         };
 
+        // A leading `Path:` line names the file the item was read from; it is kept as metadata
+        // so that the text is extracted and chunked like an upload of that file
+        let text = item;
         const pathMatch = item.match(/^Path: (.+?)(?:\n|\r\n)/);
         if (pathMatch) {
           const filePath = pathMatch[1].trim();
@@ -683,9 +985,11 @@ export class KnowledgeService extends Service {
             filename: filename,
             fileExt: extension,
             title: title,
-            fileType: `text/${extension || 'plain'}`, // Assume text if not specified
+            // Assume text if the extension is not known
+            fileType: getContentType(path.extname(filename).toLowerCase()) || 'text/plain',
             fileSize: item.length,
           };
+          text = item.slice(pathMatch[0].length);
         }
 
         // Using _internalAddKnowledge for character knowledge
@@ -693,7 +997,7 @@ export class KnowledgeService extends Service {
           {
             id: knowledgeId, // Use the content-based ID
             content: {
-              text: item,
+              text,
             },
             metadata,
           },
@@ -718,12 +1022,21 @@ export class KnowledgeService extends Service {
     );
   }
 
+  /**
+   * Adds an already textual knowledge item, such as character knowledge, through the same
+   * pipeline as uploaded files: text extraction, chunking with the agent's settings, contextual
+   * enrichment, rate-limited embedding with retries, and fragment statistics. An existing
+   * document with the same ID is replaced, together with its fragments and parent windows.
+   * @param item The item to add; `item.id` becomes the document ID
+   * @param options Chunk size and overlap (in tokens) overriding the agent's settings
+   * @param scope Room, entity and world the document belongs to
+   */
   async _internalAddKnowledge(
     item: KnowledgeItem, // item.id here is expected to be the ID of the "document"
-    options = {
-      targetTokens: 1500, // TODO: Make these configurable, perhaps from plugin config
-      overlap: 200,
-      modelContextSize: 4096,
+    options?: {
+      // Override the chunk size and overlap (in tokens) from the agent's settings
+      targetTokens?: number;
+      overlap?: number;
     },
     scope = {
       // Default scope for internal additions (like character knowledge)
@@ -740,125 +1053,63 @@ export class KnowledgeService extends Service {
 
     logger.debug(`KnowledgeService: _internalAddKnowledge called for item ID ${item.id}`);
 
-    // For _internalAddKnowledge, we assume item.content.text is always present
-    // and it's not a binary file needing Knowledge plugin's special handling for extraction.
-    // This path is for already-textual content like character knowledge or direct text additions.
-
-    const documentMemory: Memory = {
-      id: item.id, // This ID should be the unique ID for the document being added.
-      agentId: this.runtime.agentId,
-      roomId: finalScope.roomId,
-      worldId: finalScope.worldId,
-      entityId: finalScope.entityId,
-      content: item.content,
-      metadata: {
-        ...(item.metadata || {}), // Spread existing metadata
-        type: MemoryType.DOCUMENT, // Ensure it's marked as a document
-        documentId: item.id, // Ensure metadata.documentId is set to the item's ID
-        timestamp: item.metadata?.timestamp || Date.now(),
-      },
-      createdAt: Date.now(),
-    };
+    const itemMetadata = item.metadata as Record<string, unknown> | undefined;
+    const fileType =
+      typeof itemMetadata?.fileType === 'string' ? itemMetadata.fileType : 'text/plain';
+    const filename = typeof itemMetadata?.filename === 'string' ? itemMetadata.filename : '';
+    // The item is text already, even when the file it came from was not (e.g. a PDF)
+    const isTextFile = !isBinaryContentType(fileType, filename);
 
     const existingDocument = await this.runtime.getMemoryById(item.id);
     if (existingDocument) {
       logger.debug(
-        `KnowledgeService: Document ${item.id} already exists in _internalAddKnowledge, updating...`
+        `KnowledgeService: Document ${item.id} already exists in _internalAddKnowledge, replacing...`
       );
-      await this.runtime.updateMemory({
-        ...documentMemory,
-        id: item.id, // Ensure ID is passed for update
-      });
-    } else {
-      await this.runtime.createMemory(documentMemory, 'documents');
+      // Not every database adapter deletes the memories that refer to a document, so its
+      // fragments and parent windows are deleted first
+      await this.deleteDocumentFragments(existingDocument);
+      await this.runtime.deleteMemory(item.id);
     }
 
-    const fragments = await this.splitAndCreateFragments(
-      item, // item.id is the documentId
-      options.targetTokens,
-      options.overlap,
-      finalScope
-    );
+    const { fragmentCount } = await this.processDocument({
+      agentId: this.runtime.agentId,
+      clientDocumentId: item.id,
+      contentType: isTextFile ? fileType : 'text/plain',
+      originalFilename: isTextFile ? filename : '',
+      // Encoded like uploads, so that short plain text is never mistaken for base64
+      content: Buffer.from(item.content.text || '', 'utf8').toString('base64'),
+      ...finalScope,
+      metadata: { ...itemMetadata, timestamp: item.metadata?.timestamp || Date.now() },
+      chunking: { chunkSize: options?.targetTokens, chunkOverlap: options?.overlap },
+    });
+    logger.debug(`KnowledgeService: Stored document ${item.id} with ${fragmentCount} fragments.`);
+  }
 
-    let fragmentsProcessed = 0;
-    for (const fragment of fragments) {
-      try {
-        await this.processDocumentFragment(fragment); // fragment already has metadata.documentId from splitAndCreateFragments
-        fragmentsProcessed++;
-      } catch (error) {
-        logger.error(
-          `KnowledgeService: Error processing fragment ${fragment.id} for document ${item.id}:`,
-          error
+  /**
+   * Deletes the fragments and parent windows of a document. They are stored for the agent and
+   * room of their document, so only that agent's memories in that room are looked through.
+   * @param document The document whose fragments to delete
+   */
+  private async deleteDocumentFragments(document: Memory): Promise<void> {
+    const documentId = document.id as UUID;
+    for (const tableName of ['knowledge', PARENT_FRAGMENTS_TABLE]) {
+      const fragments = await this.runtime.getMemories({
+        tableName,
+        agentId: document.agentId ?? this.runtime.agentId,
+        roomId: document.roomId,
+      });
+      const documentFragments = fragments.filter(
+        (fragment) => (fragment.metadata as FragmentMetadata | undefined)?.documentId === documentId
+      );
+      if (documentFragments.length > 0) {
+        await this.runtime.deleteManyMemories(
+          documentFragments.map((fragment) => fragment.id as UUID)
         );
       }
-    }
-    logger.debug(
-      `KnowledgeService: Processed ${fragmentsProcessed}/${fragments.length} fragments for document ${item.id}.`
-    );
-  }
-
-  private async processDocumentFragment(fragment: Memory): Promise<void> {
-    try {
-      // Add embedding to the fragment
-      // Runtime's addEmbeddingToMemory will use runtime.useModel(ModelType.TEXT_EMBEDDING, ...)
-      await this.runtime.addEmbeddingToMemory(fragment);
-
-      // Store the fragment in the knowledge table
-      await this.runtime.createMemory(fragment, 'knowledge');
-    } catch (error) {
-      logger.error(
-        `KnowledgeService: Error processing fragment ${fragment.id}:`,
-        error instanceof Error ? error.message : String(error)
+      logger.debug(
+        `KnowledgeService: Deleted ${documentFragments.length} memories of document ${documentId} from ${tableName}`
       );
-      throw error;
-    }
-  }
-
-  private async splitAndCreateFragments(
-    document: KnowledgeItem, // document.id is the ID of the parent document
-    targetTokens: number,
-    overlap: number,
-    scope: { roomId: UUID; worldId: UUID; entityId: UUID }
-  ): Promise<Memory[]> {
-    if (!document.content.text) {
-      return [];
     }
-
-    const text = document.content.text;
-    // TODO: Consider using DEFAULT_CHUNK_TOKEN_SIZE and DEFAULT_CHUNK_OVERLAP_TOKENS from ctx-embeddings
-    // For now, using passed in values or defaults from _internalAddKnowledge.
-    const chunks = await splitChunks(text, targetTokens, overlap);
-
-    return chunks.map((chunk, index) => {
-      // Create a unique ID for the fragment based on document ID, index, and timestamp
-      const fragmentIdContent = `${document.id}-fragment-${index}-${Date.now()}`;
-      const fragmentId = createUniqueUuid(
-        this.runtime.agentId + fragmentIdContent,
-        fragmentIdContent
-      );
-
-      return {
-        id: fragmentId,
-        entityId: scope.entityId,
-        agentId: this.runtime.agentId,
-        roomId: scope.roomId,
-        worldId: scope.worldId,
-        content: {
-          text: chunk,
-        },
-        metadata: {
-          ...(document.metadata || {}), // Spread metadata from parent document
-          type: MemoryType.FRAGMENT,
-          documentId: document.id, // Link fragment to parent document
-          position: index,
-          timestamp: Date.now(), // Fragment's own creation timestamp
-          // Ensure we don't overwrite essential fragment metadata with document's
-          // For example, source might be different or more specific for the fragment.
-          // Here, we primarily inherit and then set fragment-specifics.
-        },
-        createdAt: Date.now(),
-      };
-    });
   }
 
   // ADDED METHODS START
@@ -0,0 +1,469 @@
+import { Buffer } from 'node:buffer';
+import { logger } from '@elizaos/core';
+import JSZip from 'jszip';
+import { DEFAULT_CHARS_PER_TOKEN, DEFAULT_CHUNK_TOKEN_SIZE } from './ctx-embeddings.ts';
+import type { DocumentSection, ExtractedDocument } from './types.ts';
+import { getChildElements, getElements, readZipRelationships, readZipXml } from './xml.ts';
+
+export const SPREADSHEET_CONTENT_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.oasis.opendocument.spreadsheet',
+];
+
+const SPREADSHEET_EXTENSIONS = ['xlsx', 'ods'];
+
+// Legacy binary workbooks are OLE compound files rather than zip packages
+const COMPOUND_FILE_SIGNATURE = Buffer.from('d0cf11e0a1b11ae1', 'hex');
+// Built-in XLSX number formats that display dates and times
+const BUILTIN_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A non-empty spreadsheet row with its 1-based row number and its cells' display values,
+ * indexed by 0-based column
+ */
+interface SpreadsheetRow {
+  rowNumber: number;
+  cells: string[];
+}
+
+/**
+ * A worksheet's name and its non-empty rows
+ */
+interface SpreadsheetSheet {
+  name: string;
+  rows: SpreadsheetRow[];
+}
+
+/**
+ * Checks whether a file is a spreadsheet (XLSX or ODS).
+ * Legacy Excel 97-2003 (.xls) workbooks are not supported.
+ */
+export function isSpreadsheetFile(contentType: string, filename: string): boolean {
+  const fileExt = filename.split('.').pop()?.toLowerCase() || '';
+  return (
+    SPREADSHEET_CONTENT_TYPES.includes(contentType.toLowerCase()) ||
+    SPREADSHEET_EXTENSIONS.includes(fileExt)
+  );
+}
+
+/**
+ * Extracts a spreadsheet into sheet- and row-aware text.
+ * XLSX and ODS workbooks are read straight from their XML parts. Legacy Excel 97-2003
+ * (.xls) workbooks, e.g. renamed to .xlsx, are rejected with a request to re-save them as
+ * XLSX or ODS.
+ * The first non-empty row of every sheet is treated as the header row, and each
+ * data row is rendered as `Header: value` pairs so column names travel with the values.
+ * Rows are grouped into sections that fit the chunk size, each recording its
+ * sheet and row range (e.g. `Pricing!A12:F40`); a row too long for one section is split
+ * across several.
+ * @param chunkSize The fragment size in tokens that sections are kept within
+ */
+export async function extractSpreadsheetFromBuffer(
+  fileBuffer: Buffer,
+  originalFilename: string,
+  chunkSize = DEFAULT_CHUNK_TOKEN_SIZE
+): Promise<ExtractedDocument> {
+  if (fileBuffer.subarray(0, COMPOUND_FILE_SIGNATURE.length).equals(COMPOUND_FILE_SIGNATURE)) {
+    throw new Error(
+      'Legacy Excel 97-2003 (.xls) workbooks are not supported, save the file as .xlsx or .ods'
+    );
+  }
+
+  const zip = await JSZip.loadAsync(fileBuffer);
+  const sheets = zip.file('content.xml') ? await readOdsSheets(zip) : await readXlsxSheets(zip);
+  const maxSectionChars = Math.round(chunkSize * DEFAULT_CHARS_PER_TOKEN);
+  const sections: DocumentSection[] = [];
+
+  for (const sheet of sheets) {
+    const sheetSections = getSheetSections(sheet, maxSectionChars);
+    logger.debug(
+      `[Spreadsheet] ${originalFilename}: sheet "${sheet.name}" produced ${sheetSections.length} sections`
+    );
+    sections.push(...sheetSections);
+  }
+
+  return {
+    text: sections.map((section) => section.text).join('\n\n'),
+    sections,
+    metadata: {
+      sheetNames: sheets.map((sheet) => sheet.name),
+    },
+  };
+}
+
+/**
+ * Groups a sheet's data rows into sections of at most `maxChars`
+ */
+function getSheetSections(
+  { name: sheetName, rows }: SpreadsheetSheet,
+  maxChars: number
+): DocumentSection[] {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  // The sheet's used columns run from its leftmost to its rightmost non-empty cell
+  let firstColumn = Infinity;
+  let lastColumn = 0;
+  for (const row of rows) {
+    const used = row.cells.flatMap((value, index) => (value ? [index] : []));
+    firstColumn = Math.min(firstColumn, used[0]);
+    lastColumn = Math.max(lastColumn, used[used.length - 1]);
+  }
+  const getCells = (row: SpreadsheetRow) =>
+    Array.from(
+      { length: lastColumn - firstColumn + 1 },
+      (_, i) => row.cells[firstColumn + i] ?? ''
+    );
+
+  const headerRow = rows[0];
+  const headers = getCells(headerRow).map(
+    (header, index) => header || `Column ${encodeColumn(firstColumn + index)}`
+  );
+  // A sheet with only a header row still carries searchable text
+  const dataRows = rows.length > 1 ? rows.slice(1) : rows;
+
+  const sheetHeading = `Sheet: ${sheetName}`;
+  const sections: DocumentSection[] = [];
+  let currentRows: SpreadsheetRow[] = [];
+  let currentLines: string[] = [];
+  let currentLength = sheetHeading.length;
+
+  const flush = () => {
+    if (currentRows.length === 0) {
+      return;
+    }
+    const rowStart = currentRows[0].rowNumber;
+    const rowEnd = currentRows[currentRows.length - 1].rowNumber;
+    const cellRange = `${encodeColumn(firstColumn)}${rowStart}:${encodeColumn(lastColumn)}${rowEnd}`;
+    sections.push({
+      text: [sheetHeading, ...currentLines].join('\n'),
+      metadata: {
+        sheet: sheetName,
+        rowStart,
+        rowEnd,
+        range: `${formatSheetReference(sheetName)}!${cellRange}`,
+      },
+    });
+    currentRows = [];
+    currentLines = [];
+    currentLength = sheetHeading.length;
+  };
+
+  for (const row of dataRows) {
+    const cells = getCells(row);
+    const pairs = row === headerRow ? cells.filter(Boolean) : getRowPairs(headers, cells);
+    const line = `Row ${row.rowNumber}: ${pairs.join(' | ')}`;
+    if (sheetHeading.length + line.length + 1 > maxChars) {
+      flush();
+      for (const piece of splitOversizedRow(
+        row.rowNumber,
+        pairs,
+        maxChars - sheetHeading.length - 1
+      )) {
+        currentRows = [row];
+        currentLines = [piece];
+        flush();
+      }
+      continue;
+    }
+    if (currentRows.length > 0 && currentLength + line.length + 1 > maxChars) {
+      flush();
+    }
+    currentRows.push(row);
+    currentLines.push(line);
+    currentLength += line.length + 1;
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Reads the worksheets of an XLSX workbook in tab order.
+ * Numbers are kept as stored except those formatted as dates, which are rendered as ISO dates.
+ */
+async function readXlsxSheets(zip: JSZip): Promise<SpreadsheetSheet[]> {
+  const workbookPath = 'xl/workbook.xml';
+  const workbook = await readZipXml(zip, workbookPath);
+  if (!workbook) {
+    throw new Error('Missing xl/workbook.xml, not a valid XLSX file');
+  }
+
+  const sharedStrings = await readXlsxSharedStrings(zip);
+  const dateStyles = await readXlsxDateStyles(zip);
+  const workbookProperties = getElements(workbook, 'workbookPr')[0];
+  const date1904 = ['1', 'true'].includes(workbookProperties?.getAttribute('date1904') || '');
+
+  const workbookRels = await readZipRelationships(zip, workbookPath);
+  const sheets: SpreadsheetSheet[] = [];
+  for (const sheetElement of getElements(workbook, 'sheet')) {
+    const name = sheetElement.getAttribute('name') || `Sheet${sheets.length + 1}`;
+    const sheetPath = workbookRels.get(sheetElement.getAttribute('r:id') || '')?.target;
+    const worksheet = sheetPath ? await readZipXml(zip, sheetPath) : null;
+    if (!worksheet) {
+      // Chart sheets and dialog sheets have no worksheet part
+      continue;
+    }
+
+    const rows: SpreadsheetRow[] = [];
+    for (const rowElement of getElements(worksheet, 'row')) {
+      const rowNumber = Number(rowElement.getAttribute('r')) || (rows.at(-1)?.rowNumber ?? 0) + 1;
+      const cells: string[] = [];
+      for (const cell of getChildElements(rowElement, 'c')) {
+        const column = decodeColumn(cell.getAttribute('r')) ?? cells.length;
+        cells[column] = normalizeCellText(
+          getXlsxCellValue(cell, sharedStrings, dateStyles, date1904)
+        );
+      }
+      if (cells.some(Boolean)) {
+        rows.push({ rowNumber, cells });
+      }
+    }
+    sheets.push({ name, rows });
+  }
+
+  return sheets;
+}
+
+/**
+ * Reads the display text of an XLSX cell
+ */
+function getXlsxCellValue(
+  cell: Element,
+  sharedStrings: string[],
+  dateStyles: Set<number>,
+  date1904: boolean
+): string {
+  const value = getChildElements(cell, 'v')[0]?.textContent ?? '';
+  switch (cell.getAttribute('t')) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'inlineStr':
+      return getChildElements(cell, 'is').map(getRichText).join('');
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    case 'str':
+    case 'e':
+      return value;
+    default: {
+      const number = Number(value);
+      return value !== '' && dateStyles.has(Number(cell.getAttribute('s') || 0)) && isFinite(number)
+        ? formatDateSerial(number, date1904)
+        : value;
+    }
+  }
+}
+
+/**
+ * Reads the shared string table that XLSX string cells refer to by index
+ */
+async function readXlsxSharedStrings(zip: JSZip): Promise<string[]> {
+  const sharedStrings = await readZipXml(zip, 'xl/sharedStrings.xml');
+  return sharedStrings ? getElements(sharedStrings, 'si').map(getRichText) : [];
+}
+
+/**
+ * Joins the text runs of a shared or inline string, leaving out phonetic guides
+ */
+function getRichText(stringItem: Element): string {
+  return getElements(stringItem, 't')
+    .filter((text) => (text.parentNode as Element | null)?.tagName !== 'rPh')
+    .map((text) => text.textContent ?? '')
+    .join('');
+}
+
+/**
+ * Finds the cell style indexes whose number format displays a date or time
+ */
+async function readXlsxDateStyles(zip: JSZip): Promise<Set<number>> {
+  const dateStyles = new Set<number>();
+  const styles = await readZipXml(zip, 'xl/styles.xml');
+  if (!styles) {
+    return dateStyles;
+  }
+
+  const customDateFormats = new Set(
+    getElements(styles, 'numFmt')
+      .filter((format) => isDateFormatCode(format.getAttribute('formatCode') || ''))
+      .map((format) => Number(format.getAttribute('numFmtId')))
+  );
+  const cellFormats = getElements(styles, 'cellXfs')[0];
+  if (cellFormats) {
+    for (const [index, format] of getChildElements(cellFormats, 'xf').entries()) {
+      const formatId = Number(format.getAttribute('numFmtId') || 0);
+      if (BUILTIN_DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) {
+        dateStyles.add(index);
+      }
+    }
+  }
+  return dateStyles;
+}
+
+/**
+ * Checks whether a number format code has date or time parts outside its literals and colors
+ */
+function isDateFormatCode(formatCode: string): boolean {
+  const code = formatCode.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+  return /[dmyhs]/i.test(code);
+}
+
+/**
+ * Renders a spreadsheet date serial as an ISO date, with the time when it has one
+ */
+function formatDateSerial(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const iso = new Date(epoch + Math.round(serial * MS_PER_DAY)).toISOString();
+  if (Number.isInteger(serial)) {
+    return iso.slice(0, 10);
+  }
+  return serial < 1 ? iso.slice(11, 19) : `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+}
+
+/**
+ * Reads the tables of an ODS workbook in tab order.
+ * ODS stores every cell's formatted text, so that is what is kept.
+ */
+async function readOdsSheets(zip: JSZip): Promise<SpreadsheetSheet[]> {
+  const content = await readZipXml(zip, 'content.xml');
+  if (!content) {
+    throw new Error('Missing content.xml, not a valid ODS file');
+  }
+
+  const sheets: SpreadsheetSheet[] = [];
+  for (const table of getElements(content, 'table:table')) {
+    const rows: SpreadsheetRow[] = [];
+    let rowNumber = 1;
+    for (const rowElement of getElements(table, 'table:table-row')) {
+      const rowRepeat = getRepeatCount(rowElement, 'table:number-rows-repeated');
+      const cells: string[] = [];
+      let column = 0;
+      for (const cell of Array.from(rowElement.childNodes)) {
+        const tagName = cell.nodeType === 1 ? (cell as Element).tagName : '';
+        if (tagName !== 'table:table-cell' && tagName !== 'table:covered-table-cell') {
+          continue;
+        }
+        const columnRepeat = getRepeatCount(cell as Element, 'table:number-columns-repeated');
+        const value = normalizeCellText(getOdsCellText(cell as Element));
+        // Trailing empty cells are often repeated up to the sheet's full width
+        for (let i = 0; value && i < columnRepeat; i++) {
+          cells[column + i] = value;
+        }
+        column += columnRepeat;
+      }
+      // Blank rows are often repeated to the end of the sheet, so only non-empty ones are expanded
+      for (let i = 0; cells.some(Boolean) && i < rowRepeat; i++) {
+        rows.push({ rowNumber: rowNumber + i, cells });
+      }
+      rowNumber += rowRepeat;
+    }
+    sheets.push({ name: table.getAttribute('table:name') || `Sheet${sheets.length + 1}`, rows });
+  }
+
+  return sheets;
+}
+
+/**
+ * Reads the paragraphs of an ODS cell, expanding its space, tab and line break elements
+ */
+function getOdsCellText(cell: Element): string {
+  const collect = (node: Node): string => {
+    if (node.nodeType === 3) {
+      return node.nodeValue ?? '';
+    }
+    const element = node as Element;
+    if (element.tagName === 'text:s') {
+      return ' '.repeat(Number(element.getAttribute('text:c')) || 1);
+    }
+    if (element.tagName === 'text:tab' || element.tagName === 'text:line-break') {
+      return ' ';
+    }
+    return Array.from(node.childNodes).map(collect).join('');
+  };
+  return getChildElements(cell, 'text:p').map(collect).join(' ');
+}
+
+function getRepeatCount(element: Element, attribute: string): number {
+  return Math.max(1, Number(element.getAttribute(attribute)) || 1);
+}
+
+/**
+ * Collapses the whitespace of a cell's text to single spaces
+ */
+function normalizeCellText(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Converts a 0-based column index to its letters (0 is `A`, 26 is `AA`)
+ */
+function encodeColumn(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Reads the 0-based column index from a cell reference such as `C12`
+ */
+function decodeColumn(reference: string | null): number | undefined {
+  const letters = reference?.match(/^[A-Z]+/i)?.[0];
+  if (!letters) {
+    return undefined;
+  }
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + letter.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+/**
+ * Renders a row's cells as `Header: value` pairs, skipping empty cells
+ */
+function getRowPairs(headers: string[], cells: string[]): string[] {
+  return cells.map((value, index) => (value ? `${headers[index]}: ${value}` : '')).filter(Boolean);
+}
+
+/**
+ * Writes a row's pairs as `Row N: ...` lines of at most `maxChars`, cutting a value that
+ * does not fit on a line of its own
+ */
+function splitOversizedRow(rowNumber: number, pairs: string[], maxChars: number): string[] {
+  const prefix = `Row ${rowNumber}: `;
+  const budget = Math.max(1, maxChars - prefix.length);
+  const lines: string[] = [];
+  let current = '';
+  for (const pair of pairs) {
+    let rest = pair;
+    while (rest) {
+      const separator = current ? ' | ' : '';
+      if (current.length + separator.length + rest.length <= budget) {
+        current += separator + rest;
+        rest = '';
+      } else if (current) {
+        lines.push(prefix + current);
+        current = '';
+      } else {
+        lines.push(prefix + rest.slice(0, budget));
+        rest = rest.slice(budget);
+      }
+    }
+  }
+  if (current) {
+    lines.push(prefix + current);
+  }
+  return lines;
+}
+
+/**
+ * Quotes a sheet name the way spreadsheet formulas do when it contains special characters
+ */
+function formatSheetReference(sheetName: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_.]*$/.test(sheetName)
+    ? sheetName
+    : `'${sheetName.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,260 @@
+import { logger } from '@elizaos/core';
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml';
+import { parseAllDocuments, stringify as stringifyYaml } from 'yaml';
+import { DEFAULT_CHARS_PER_TOKEN, DEFAULT_CHUNK_TOKEN_SIZE } from './ctx-embeddings.ts';
+import type { DocumentSection, ExtractedDocument } from './types.ts';
+
+type StructuredDataFormat = 'json' | 'yaml' | 'toml';
+type PathSegment = string | number;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+const FORMATS_BY_CONTENT_TYPE: Record<string, StructuredDataFormat> = {
+  'application/json': 'json',
+  'text/json': 'json',
+  'application/yaml': 'yaml',
+  'application/x-yaml': 'yaml',
+  'text/yaml': 'yaml',
+  'text/x-yaml': 'yaml',
+  'application/toml': 'toml',
+  'text/x-toml': 'toml',
+};
+const FORMATS_BY_EXTENSION: Record<string, StructuredDataFormat> = {
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+  toml: 'toml',
+};
+
+function getFormat(contentType: string, filename: string): StructuredDataFormat | undefined {
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  return (
+    FORMATS_BY_EXTENSION[extension] ||
+    FORMATS_BY_CONTENT_TYPE[contentType.toLowerCase().split(';')[0].trim()]
+  );
+}
+
+/**
+ * Checks whether a file is JSON, YAML or TOML
+ */
+export function isStructuredDataFile(contentType: string, filename: string): boolean {
+  return getFormat(contentType, filename) !== undefined;
+}
+
+/**
+ * Splits a JSON, YAML or TOML file along its structure.
+ * A subtree that fits in a fragment becomes one section; larger objects and arrays are split
+ * into their children, packing small neighbouring children together. Every section starts
+ * with a `Path: ...` line and records that path as `jsonPath` (e.g. `paths./users.post`),
+ * and is written in the file's own format. In OpenAPI and Swagger specs every operation
+ * becomes its own section, with its `operationId` when it has one. Files that do not parse
+ * are left to the regular text splitter.
+ * @param chunkSize The fragment size in tokens that sections are kept within
+ */
+export function extractStructuredDataFromText(
+  text: string,
+  contentType: string,
+  originalFilename: string,
+  chunkSize = DEFAULT_CHUNK_TOKEN_SIZE
+): ExtractedDocument {
+  const format = getFormat(contentType, originalFilename);
+  if (!format) {
+    throw new Error(`Unsupported structured data file: ${originalFilename}`);
+  }
+
+  let data: unknown;
+  try {
+    data = parseStructuredData(text, format);
+  } catch (error: any) {
+    logger.warn(`[StructuredData] ${originalFilename}: not valid ${format}: ${error.message}`);
+    return { text };
+  }
+  if (data === undefined || data === null) {
+    return { text };
+  }
+
+  const isOpenApi = isPlainObject(data) && ('openapi' in data || 'swagger' in data);
+  // Leaves room for the path line in front of every section
+  const maxSectionChars = Math.floor(chunkSize * DEFAULT_CHARS_PER_TOKEN * 0.9);
+  const sections = splitValue(data, [], format, isOpenApi, maxSectionChars);
+  logger.debug(
+    `[StructuredData] ${originalFilename}: ${sections.length} sections${isOpenApi ? ' (OpenAPI)' : ''}`
+  );
+
+  const info = isOpenApi ? (data as Record<string, unknown>).info : undefined;
+  const title = isPlainObject(info) ? info.title : undefined;
+  return {
+    text,
+    sections,
+    metadata: { format, ...(typeof title === 'string' ? { title } : {}) },
+  };
+}
+
+function parseStructuredData(text: string, format: StructuredDataFormat): unknown {
+  if (format === 'json') {
+    return JSON.parse(text);
+  }
+  if (format === 'toml') {
+    return parseToml(text);
+  }
+  // A YAML stream with several documents (e.g. Kubernetes manifests) becomes an array
+  const documents = parseAllDocuments(text);
+  for (const document of documents) {
+    if (document.errors.length > 0) {
+      throw document.errors[0];
+    }
+  }
+  const values = documents.map((document) => document.toJS());
+  return values.length > 1 ? values : values[0];
+}
+
+/**
+ * Turns a value into sections: whole when it fits, otherwise split into its children
+ */
+function splitValue(
+  value: unknown,
+  path: PathSegment[],
+  format: StructuredDataFormat,
+  isOpenApi: boolean,
+  maxChars: number
+): DocumentSection[] {
+  if (isOpenApi && path.length === 1 && path[0] === 'paths' && isPlainObject(value)) {
+    return splitOpenApiPaths(value, format, maxChars);
+  }
+
+  const serialized = serialize(value, path, format);
+  const isContainer = isPlainObject(value) || Array.isArray(value);
+  // An OpenAPI spec is always split so that each operation gets a section
+  const mustSplit = isOpenApi && path.length === 0;
+  if ((serialized.length <= maxChars && !mustSplit) || !isContainer) {
+    return serialized.trim() ? [toSection(serialized, path)] : [];
+  }
+
+  const entries: Array<[PathSegment, unknown]> = Array.isArray(value)
+    ? value.map((item, index) => [index, item])
+    : Object.entries(value as Record<string, unknown>);
+  const sections: DocumentSection[] = [];
+  let group: Array<[PathSegment, unknown]> = [];
+  let groupLength = 0;
+
+  const flush = () => {
+    if (group.length > 0) {
+      const partial = Array.isArray(value)
+        ? group.map(([, item]) => item)
+        : Object.fromEntries(group);
+      sections.push(toSection(serialize(partial, path, format), path));
+    }
+    group = [];
+    groupLength = 0;
+  };
+
+  for (const [key, child] of entries) {
+    const childPath = [...path, key];
+    // Splitting the top level of an OpenAPI spec keeps `paths` apart from everything else
+    const childLength =
+      isOpenApi && childPath.length === 1 && key === 'paths'
+        ? Infinity
+        : serialize(Array.isArray(value) ? [child] : { [key]: child }, path, format).length;
+    if (childLength > maxChars) {
+      flush();
+      sections.push(...splitValue(child, childPath, format, isOpenApi, maxChars));
+      continue;
+    }
+    if (group.length > 0 && groupLength + childLength > maxChars) {
+      flush();
+    }
+    group.push([key, child]);
+    groupLength += childLength;
+  }
+  flush();
+  return sections;
+}
+
+/**
+ * Gives every operation of an OpenAPI `paths` object a section of its own; properties shared
+ * by a path's operations (parameters, summary) stay together in a section for the path
+ */
+function splitOpenApiPaths(
+  paths: Record<string, unknown>,
+  format: StructuredDataFormat,
+  maxChars: number
+): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  for (const [apiPath, pathItem] of Object.entries(paths)) {
+    if (!isPlainObject(pathItem)) {
+      continue;
+    }
+    const shared = Object.fromEntries(
+      Object.entries(pathItem).filter(([key]) => !HTTP_METHODS.includes(key.toLowerCase()))
+    );
+    if (Object.keys(shared).length > 0) {
+      sections.push(...splitValue(shared, ['paths', apiPath], format, false, maxChars));
+    }
+
+    for (const [method, operation] of Object.entries(pathItem)) {
+      if (!HTTP_METHODS.includes(method.toLowerCase())) {
+        continue;
+      }
+      const operationPath = ['paths', apiPath, method];
+      const operationSections = splitValue(operation, operationPath, format, false, maxChars);
+      const operationId = isPlainObject(operation) ? operation.operationId : undefined;
+      sections.push(
+        ...operationSections.map((section) =>
+          typeof operationId === 'string'
+            ? { ...section, metadata: { ...section.metadata, operationId } }
+            : section
+        )
+      );
+    }
+  }
+  return sections;
+}
+
+/**
+ * Writes a value in the file's format. TOML can only hold tables at the top, so other values
+ * are written under the last key of their path.
+ */
+function serialize(value: unknown, path: PathSegment[], format: StructuredDataFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(value, null, 2) ?? '';
+  }
+  if (format === 'toml') {
+    const lastKey = path.length > 0 ? String(path[path.length - 1]) : 'value';
+    try {
+      return stringifyToml(isPlainObject(value) ? value : { [lastKey]: value }).trim();
+    } catch {
+      return JSON.stringify(value, null, 2) ?? '';
+    }
+  }
+  return stringifyYaml(value).trimEnd();
+}
+
+function toSection(serialized: string, path: PathSegment[]): DocumentSection {
+  if (path.length === 0) {
+    return { text: serialized };
+  }
+  const jsonPath = formatPath(path);
+  return { text: `Path: ${jsonPath}\n${serialized}`, metadata: { jsonPath } };
+}
+
+/**
+ * Joins a path with dots, writing array indexes in brackets: `servers[0].url`
+ */
+function formatPath(path: PathSegment[]): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join('');
+}
+
+/**
+ * Checks for an object with keys of its own, as opposed to arrays and dates
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,170 @@
+import { logger } from '@elizaos/core';
+import { DEFAULT_CHARS_PER_TOKEN, DEFAULT_CHUNK_TOKEN_SIZE } from './ctx-embeddings.ts';
+import type { DocumentSection, ExtractedDocument } from './types.ts';
+
+export const SRT_CONTENT_TYPE = 'application/x-subrip';
+export const VTT_CONTENT_TYPE = 'text/vtt';
+
+// A silence longer than this starts a new group even when the speaker stays the same
+const MAX_CUE_GAP_SECONDS = 10;
+
+const TIMING_LINE =
+  /^\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+// "Alice: ..." or "DR. SMITH: ..." at the start of a cue, as in meeting transcripts
+const SPEAKER_PREFIX = /^((?:[A-Z][\w.'-]*)(?: [A-Z][\w.'-]*){0,3}):\s+/;
+
+/**
+ * A subtitle cue with its times in seconds
+ */
+interface Cue {
+  startTime: number;
+  endTime: number;
+  speaker?: string;
+  text: string;
+}
+
+/**
+ * Checks whether a file is a SubRip (.srt) or WebVTT (.vtt) subtitle or transcript file
+ */
+export function isSubtitleFile(contentType: string, filename: string): boolean {
+  const lowerContentType = contentType.toLowerCase();
+  return (
+    lowerContentType === SRT_CONTENT_TYPE ||
+    lowerContentType === VTT_CONTENT_TYPE ||
+    /\.(srt|vtt)$/i.test(filename)
+  );
+}
+
+/**
+ * Extracts the spoken text of an SRT or WebVTT file without cue numbers, timings or styling.
+ * Consecutive cues of the same speaker are merged into sections until the speaker changes,
+ * a long pause occurs or the section would outgrow a fragment; each section records its
+ * `startTime` and `endTime` in seconds, and its `speaker` when known (from WebVTT voice tags
+ * or a "Name:" prefix).
+ * @param chunkSize The fragment size in tokens that sections are kept within
+ */
+export function extractSubtitlesFromText(
+  text: string,
+  originalFilename: string,
+  chunkSize = DEFAULT_CHUNK_TOKEN_SIZE
+): ExtractedDocument {
+  const cues = parseCues(text);
+  if (cues.length === 0) {
+    throw new Error('No subtitle cues found');
+  }
+
+  // Cue groups stay within one fragment so their time range stays exact
+  const maxGroupChars = Math.floor(chunkSize * DEFAULT_CHARS_PER_TOKEN * 0.9);
+
+  const groups: Cue[][] = [];
+  let current: Cue[] = [];
+  let currentLength = 0;
+  for (const cue of cues) {
+    const previous = current[current.length - 1];
+    const startsGroup =
+      !previous ||
+      cue.speaker !== previous.speaker ||
+      cue.startTime - previous.endTime > MAX_CUE_GAP_SECONDS ||
+      currentLength + cue.text.length > maxGroupChars;
+    if (startsGroup && current.length > 0) {
+      groups.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push(cue);
+    currentLength += cue.text.length + 1;
+  }
+  groups.push(current);
+
+  const sections: DocumentSection[] = groups.map((group) => {
+    const speaker = group[0].speaker;
+    const spoken = group.map((cue) => cue.text).join(' ');
+    return {
+      text: speaker ? `${speaker}: ${spoken}` : spoken,
+      metadata: {
+        startTime: group[0].startTime,
+        endTime: group[group.length - 1].endTime,
+        ...(speaker ? { speaker } : {}),
+      },
+    };
+  });
+
+  const speakers = [...new Set(cues.map((cue) => cue.speaker).filter(Boolean))];
+  logger.debug(
+    `[Subtitles] ${originalFilename}: merged ${cues.length} cues into ${sections.length} sections`
+  );
+
+  return {
+    text: sections.map((section) => section.text).join('\n\n'),
+    sections,
+    metadata: {
+      cueCount: cues.length,
+      duration: Math.max(...cues.map((cue) => cue.endTime)),
+      ...(speakers.length > 0 ? { speakers } : {}),
+    },
+  };
+}
+
+/**
+ * Reads the cues of an SRT or WebVTT file. Blocks without a timing line (the WEBVTT header,
+ * NOTE, STYLE and REGION blocks) are skipped, as are cues repeating the previous cue's text
+ * (rolling captions).
+ */
+function parseCues(text: string): Cue[] {
+  const blocks = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/);
+
+  const cues: Cue[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    // The timing line is preceded by at most a cue number or identifier
+    if (timingIndex === -1 || timingIndex > 1) {
+      continue;
+    }
+
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    const cue = parseCueText(lines.slice(timingIndex + 1));
+    if (!cue.text || cue.text === cues[cues.length - 1]?.text) {
+      continue;
+    }
+    cues.push({ startTime: parseTimestamp(start), endTime: parseTimestamp(end), ...cue });
+  }
+  return cues;
+}
+
+/**
+ * Joins the lines of a cue, taking the speaker from a WebVTT voice tag (`<v Alice>`) or a
+ * "Name:" prefix and dropping markup (`<i>`, `<c.yellow>`, SSA `{\an8}` overrides)
+ */
+function parseCueText(lines: string[]): { speaker?: string; text: string } {
+  const raw = lines.join(' ');
+  let speaker = raw.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/)?.[1].trim();
+  let text = raw
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const prefix = speaker ? null : text.match(SPEAKER_PREFIX);
+  if (prefix) {
+    speaker = prefix[1];
+    text = text.slice(prefix[0].length);
+  }
+  return speaker ? { speaker, text } : { text };
+}
+
+/**
+ * Converts an SRT (`00:01:02,500`) or WebVTT (`01:02.500`) timestamp to seconds
+ */
+function parseTimestamp(timestamp: string): number {
+  const [clock, fraction] = timestamp.split(/[,.]/);
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  return seconds + parseInt(fraction.padEnd(3, '0'), 10) / 1000;
+}
@@ -128,6 +128,66 @@ export interface AddKnowledgeOptions {
    * Used for storing additional information like source URL
    */
   metadata?: Record<string, unknown>;
+  /** Chunking strategy and sizes for this document, overriding the agent's settings */
+  chunking?: ChunkingOptions;
+}
+
+/**
+ * Kind of content a document holds, each with its own chunk size settings
+ */
+export type ChunkingProfile = 'prose' | 'code' | 'table';
+
+/**
+ * How a document's text is split: into chunks of a fixed size, or at topic changes found by
+ * comparing the embeddings of adjacent sentences
+ */
+export type ChunkingStrategy = 'fixed' | 'semantic';
+
+/**
+ * Chunking strategy and sizes; sizes are in tokens
+ */
+export interface ChunkingOptions {
+  strategy?: ChunkingStrategy;
+  /** Target size of fixed chunks, largest size of semantic chunks */
+  chunkSize?: number;
+  /** Tokens shared by neighbouring fixed chunks (semantic chunks do not overlap) */
+  chunkOverlap?: number;
+  /** Smallest size of semantic chunks */
+  minChunkSize?: number;
+  /** Semantic chunks break where sentence similarity is below this percentile (0-100) */
+  breakpointPercentile?: number;
+  /**
+   * Size of the parent windows returned for matching fragments (parent-document retrieval);
+   * the chunks above are then the small child fragments that get embedded. 0 turns it off.
+   */
+  parentChunkSize?: number;
+}
+
+/**
+ * The chunking settings used for a document, and the profile their sizes were taken from
+ */
+export interface ChunkingConfig {
+  strategy: ChunkingStrategy;
+  chunkSize: number;
+  chunkOverlap: number;
+  minChunkSize: number;
+  breakpointPercentile: number;
+  /** 0 when fragments are not grouped into parent windows */
+  parentChunkSize: number;
+  profile: ChunkingProfile;
+}
+
+/**
+ * Outcome of ingesting one file of an uploaded archive
+ */
+export interface ArchiveEntryResult {
+  /** Path of the file within the archive */
+  path: string;
+  /** `skipped` for file types that are not ingested, such as nested archives */
+  status: 'success' | 'skipped' | 'error_processing';
+  clientDocumentId?: string;
+  fragmentCount?: number;
+  error?: string;
 }
 
 // Extend the core service types with knowledge service
@@ -146,10 +206,120 @@ export interface KnowledgeDocumentMetadata extends Record<string, any> {
   type: string; // e.g., 'document', 'website_content'
   source: string; // e.g., 'upload', 'web_scrape', path to file
   title?: string;
+  tags?: string[]; // For Markdown, from the front matter (which is merged in as a whole)
+  canonicalUrl?: string; // For web pages, from <link rel="canonical">
+  description?: string; // For web pages, from the meta description
+  author?: string; // For PDFs, from the document info dictionary
+  subject?: string; // For PDFs from the document info dictionary, for emails the Subject header
+  creationDate?: string; // ISO 8601, for PDFs from the document info dictionary
+  outline?: DocumentOutlineItem[]; // For PDFs, the bookmarks tree
   filename?: string;
   fileExt?: string;
   fileType?: string; // MIME type
   fileSize?: number;
+  encoding?: string; // For text files, the detected character encoding, e.g. 'shift_jis'
+  from?: string; // For emails, the sender as 'Name <address>'
+  to?: string[]; // For emails, the recipients
+  date?: string; // For emails, the sending time (ISO 8601)
+  threadId?: string; // For emails and their attachments, the message id of the thread's first message
+  parentDocumentId?: string; // For email attachments, the document of the email they came with
+  chunkSize?: number; // Tokens per fragment the document was split with
+  chunkOverlap?: number; // Tokens shared by neighbouring fragments
+  chunkingProfile?: ChunkingProfile; // Which chunk size settings applied: prose, code or table
+  chunkingStrategy?: ChunkingStrategy; // Whether chunks have a fixed size or follow topic changes
+  parentChunkSize?: number; // Tokens per parent window, for parent-document retrieval
+}
+
+/**
+ * A self-contained part of an extracted document (e.g. a block of spreadsheet rows).
+ * Fragments never span two sections and inherit the section's metadata.
+ */
+export interface DocumentSection {
+  text: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * The character range of a page within an extracted document's text (end exclusive)
+ */
+export interface DocumentPage {
+  pageNumber: number;
+  startOffset: number;
+  endOffset: number;
+  /** Recognition confidence (0-1) when the page's text came from OCR */
+  ocrConfidence?: number;
+}
+
+/**
+ * An entry of a document's outline (e.g. a PDF bookmark) and its nested entries
+ */
+export interface DocumentOutlineItem {
+  title: string;
+  pageNumber?: number;
+  items?: DocumentOutlineItem[];
+}
+
+/**
+ * A heading within an extracted document's text, with the titles of its enclosing headings
+ */
+export interface DocumentHeading {
+  /** Titles from the outermost heading down to this one */
+  path: string[];
+  startOffset: number;
+}
+
+/**
+ * Result of extracting a document: its full text plus optional structure
+ */
+export interface ExtractedDocument {
+  text: string;
+  /** Ordered sections; when present, chunking happens within each section */
+  sections?: DocumentSection[];
+  /** Page ranges within `text` for paginated formats; fragments record the pages they span */
+  pages?: DocumentPage[];
+  /** Headings in document order; fragments record the section path they start in */
+  headings?: DocumentHeading[];
+  /** Document-level metadata merged into the stored document memory */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A chunk of document text along with the metadata to store on its fragment
+ */
+export interface DocumentChunk {
+  text: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options passed to an OCR adapter along with the image
+ */
+export interface OcrOptions {
+  /** MIME type of the image, e.g. image/png */
+  mimeType: string;
+  filename?: string;
+  /** Language hint in the engine's own notation (e.g. 'eng' for Tesseract) */
+  language?: string;
+}
+
+/**
+ * Text recognized in an image
+ */
+export interface OcrResult {
+  text: string;
+  /** Overall recognition confidence between 0 and 1, if the engine reports one */
+  confidence?: number;
+}
+
+/**
+ * An OCR engine used for scanned PDF pages and image uploads.
+ * Register your own with `registerOcrAdapter`; the default runs a local Tesseract binary.
+ */
+export interface OcrAdapter {
+  name: string;
+  recognize(image: Buffer, options: OcrOptions): Promise<OcrResult>;
+  /** Whether the engine can be used on this machine; assumed true when omitted */
+  isAvailable?(): Promise<boolean>;
 }
 
 export interface KnowledgeConfig {
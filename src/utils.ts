@@ -1,10 +1,24 @@
 import { Buffer } from 'node:buffer';
 import * as mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
 import { logger } from '@elizaos/core';
-import { getDocument, PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
-import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
 import { createHash } from 'crypto';
 import { v5 as uuidv5 } from 'uuid';
+import { extractCodeFromText, isSourceCodeFile } from './code.ts';
+import { extractCsvFromText, isCsvFile } from './csv.ts';
+import { extractMailboxFromBuffer, isEmailFile } from './email.ts';
+import { decodeTextBuffer } from './encoding.ts';
+import { extractPresentationFromBuffer, isPresentationFile } from './presentation.ts';
+import { extractEpubFromBuffer, isEpubFile } from './epub.ts';
+import { extractMainContentFromHtml, isHtmlFile } from './html.ts';
+import { extractMarkdownFromText, isMarkdownFile } from './markdown.ts';
+import { extractNotebookFromJson, isNotebookFile } from './notebook.ts';
+import { extractImageFromBuffer, isImageFile } from './ocr.ts';
+import { extractPdfFromBuffer } from './pdf.ts';
+import { extractSpreadsheetFromBuffer, isSpreadsheetFile } from './spreadsheet.ts';
+import { extractStructuredDataFromText, isStructuredDataFile } from './structured-data.ts';
+import { extractSubtitlesFromText, isSubtitleFile } from './subtitles.ts';
+import type { ExtractedDocument } from './types.ts';
 
 const PLAIN_TEXT_CONTENT_TYPES = [
   'application/typescript',
@@ -20,11 +34,11 @@ const PLAIN_TEXT_CONTENT_TYPES = [
 ];
 
 const MAX_FALLBACK_SIZE_BYTES = 5 * 1024 * 1024; // 5 MB
-const BINARY_CHECK_BYTES = 1024; // Check first 1KB for binary indicators
 
 /**
  * Extracts text content from a file buffer based on its content type.
- * Supports DOCX, plain text, and provides a fallback for unknown types.
+ * Supports DOCX, legacy DOC, plain text, and provides a fallback for unknown types.
+ * Plain text is decoded in its detected character encoding.
  * PDF should be handled by `convertPdfToTextFromBuffer`.
  */
 export async function extractTextFromFileBuffer(
@@ -32,6 +46,22 @@ export async function extractTextFromFileBuffer(
   contentType: string,
   originalFilename: string // For logging and context
 ): Promise<string> {
+  const extracted = await extractTextAndEncodingFromFileBuffer(
+    fileBuffer,
+    contentType,
+    originalFilename
+  );
+  return extracted.text;
+}
+
+/**
+ * Same as `extractTextFromFileBuffer`, also returning the detected encoding of plain text
+ */
+async function extractTextAndEncodingFromFileBuffer(
+  fileBuffer: Buffer,
+  contentType: string,
+  originalFilename: string
+): Promise<{ text: string; encoding?: string }> {
   const lowerContentType = contentType.toLowerCase();
   logger.debug(
     `[TextUtil] Attempting to extract text from ${originalFilename} (type: ${contentType})`
@@ -46,7 +76,7 @@ export async function extractTextFromFileBuffer(
       logger.debug(
         `[TextUtil] DOCX text extraction complete for ${originalFilename}. Text length: ${result.value.length}`
       );
-      return result.value;
+      return { text: result.value };
     } catch (docxError: any) {
       const errorMsg = `[TextUtil] Failed to parse DOCX file ${originalFilename}: ${docxError.message}`;
       logger.error(errorMsg, docxError.stack);
@@ -56,12 +86,18 @@ export async function extractTextFromFileBuffer(
     lowerContentType === 'application/msword' ||
     originalFilename.toLowerCase().endsWith('.doc')
   ) {
-    // For .doc files, we'll store the content as-is, and just add a message
-    // The frontend will handle the display appropriately
-    logger.debug(`[TextUtil] Handling Microsoft Word .doc file: ${originalFilename}`);
-
-    // We'll add a descriptive message as a placeholder
-    return `[Microsoft Word Document: ${originalFilename}]\n\nThis document was indexed for search but cannot be displayed directly in the browser. The original document content is preserved for retrieval purposes.`;
+    logger.debug(`[TextUtil] Extracting text from Word 97-2003 .doc ${originalFilename}.`);
+    try {
+      const text = await extractTextFromWordDocBuffer(fileBuffer);
+      logger.debug(
+        `[TextUtil] DOC text extraction complete for ${originalFilename}. Text length: ${text.length}`
+      );
+      return { text };
+    } catch (docError: any) {
+      const errorMsg = `[TextUtil] Failed to parse DOC file ${originalFilename}: ${docError.message}`;
+      logger.error(errorMsg, docError.stack);
+      throw new Error(errorMsg);
+    }
   } else if (
     lowerContentType.startsWith('text/') ||
     PLAIN_TEXT_CONTENT_TYPES.includes(lowerContentType)
@@ -69,7 +105,13 @@ export async function extractTextFromFileBuffer(
     logger.debug(
       `[TextUtil] Extracting text from plain text compatible file ${originalFilename} (type: ${contentType})`
     );
-    return fileBuffer.toString('utf-8');
+    try {
+      return decodeTextBuffer(fileBuffer, contentType);
+    } catch (decodeError: any) {
+      const errorMsg = `[TextUtil] Failed to decode text file ${originalFilename} (type: ${contentType}): ${decodeError.message}`;
+      logger.error(errorMsg);
+      throw new Error(errorMsg);
+    }
   } else {
     logger.warn(
       `[TextUtil] Unsupported content type: "${contentType}" for ${originalFilename}. Attempting fallback to plain text.`
@@ -81,29 +123,15 @@ export async function extractTextFromFileBuffer(
       throw new Error(sizeErrorMsg);
     }
 
-    // Simple binary detection: check for null bytes in the first N bytes
-    const initialBytes = fileBuffer.subarray(0, Math.min(fileBuffer.length, BINARY_CHECK_BYTES));
-    if (initialBytes.includes(0)) {
-      // Check for NUL byte
-      const binaryHeuristicMsg = `[TextUtil] File ${originalFilename} (type: ${contentType}) appears to be binary based on initial byte check. Cannot process as plain text.`;
-      logger.error(binaryHeuristicMsg);
-      throw new Error(binaryHeuristicMsg);
-    }
-
     try {
-      const textContent = fileBuffer.toString('utf-8');
-      if (textContent.includes('\ufffd')) {
-        // Replacement character, indicating potential binary or wrong encoding
-        const binaryErrorMsg = `[TextUtil] File ${originalFilename} (type: ${contentType}) seems to be binary or has encoding issues after fallback to plain text (detected \ufffd).`;
-        logger.error(binaryErrorMsg);
-        throw new Error(binaryErrorMsg); // Throw error for likely binary content
-      }
+      // Binary content is rejected by the encoding detection
+      const decoded = decodeTextBuffer(fileBuffer, contentType);
       logger.debug(
-        `[TextUtil] Successfully processed unknown type ${contentType} as plain text after fallback for ${originalFilename}.`
+        `[TextUtil] Successfully processed unknown type ${contentType} as ${decoded.encoding} text after fallback for ${originalFilename}.`
       );
-      return textContent;
+      return decoded;
     } catch (fallbackError: any) {
-      // If the initial toString failed or if we threw due to \ufffd
+      // If the content is binary or in no encoding we can detect
       const finalErrorMsg = `[TextUtil] Unsupported content type: ${contentType} for ${originalFilename}. Fallback to plain text also failed or indicated binary content.`;
       logger.error(finalErrorMsg, fallbackError.message ? fallbackError.stack : undefined);
       throw new Error(finalErrorMsg);
@@ -112,11 +140,199 @@ export async function extractTextFromFileBuffer(
 }
 
 /**
- * Converts a PDF file buffer to text content.
- * Requires pdfjs-dist to be properly configured, especially its worker.
+ * Extracts text along with its structure from a file buffer.
+ * Formats with meaningful internal structure (spreadsheets, slide decks, e-books, mailboxes) produce sections
+ * that fragments inherit their metadata from and images are read with OCR; everything else is
+ * delegated to `extractTextFromFileBuffer` and returned as a single unsectioned text.
+ * @param chunkSize The fragment size in tokens that size-aware extractors keep sections within
+ */
+export async function extractDocumentFromFileBuffer(
+  fileBuffer: Buffer,
+  contentType: string,
+  originalFilename: string,
+  chunkSize?: number
+): Promise<ExtractedDocument> {
+  if (isSpreadsheetFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Extracting sheets and rows from spreadsheet ${originalFilename}.`);
+    try {
+      const extracted = await extractSpreadsheetFromBuffer(fileBuffer, originalFilename, chunkSize);
+      logger.debug(
+        `[TextUtil] Spreadsheet extraction complete for ${originalFilename}. Sections: ${extracted.sections?.length ?? 0}`
+      );
+      return extracted;
+    } catch (sheetError: any) {
+      const errorMsg = `[TextUtil] Failed to parse spreadsheet ${originalFilename}: ${sheetError.message}`;
+      logger.error(errorMsg, sheetError.stack);
+      throw new Error(errorMsg);
+    }
+  }
+
+  if (isPresentationFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Extracting slides and speaker notes from ${originalFilename}.`);
+    try {
+      const extracted = await extractPresentationFromBuffer(fileBuffer, originalFilename);
+      logger.debug(
+        `[TextUtil] Presentation extraction complete for ${originalFilename}. Sections: ${extracted.sections?.length ?? 0}`
+      );
+      return extracted;
+    } catch (pptxError: any) {
+      const errorMsg = `[TextUtil] Failed to parse presentation ${originalFilename}: ${pptxError.message}`;
+      logger.error(errorMsg, pptxError.stack);
+      throw new Error(errorMsg);
+    }
+  }
+
+  if (isEpubFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Extracting chapters from EPUB ${originalFilename}.`);
+    try {
+      const extracted = await extractEpubFromBuffer(fileBuffer, originalFilename);
+      logger.debug(
+        `[TextUtil] EPUB extraction complete for ${originalFilename}. Sections: ${extracted.sections?.length ?? 0}`
+      );
+      return extracted;
+    } catch (epubError: any) {
+      const errorMsg = `[TextUtil] Failed to parse EPUB ${originalFilename}: ${epubError.message}`;
+      logger.error(errorMsg, epubError.stack);
+      throw new Error(errorMsg);
+    }
+  }
+
+  if (isEmailFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Extracting messages from email file ${originalFilename}.`);
+    try {
+      const extracted = await extractMailboxFromBuffer(fileBuffer, originalFilename);
+      logger.debug(
+        `[TextUtil] Email extraction complete for ${originalFilename}. Sections: ${extracted.sections?.length ?? 0}`
+      );
+      return extracted;
+    } catch (emailError: any) {
+      const errorMsg = `[TextUtil] Failed to parse email file ${originalFilename}: ${emailError.message}`;
+      logger.error(errorMsg, emailError.stack);
+      throw new Error(errorMsg);
+    }
+  }
+
+  if (isImageFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Recognizing text in image ${originalFilename} with OCR.`);
+    try {
+      return await extractImageFromBuffer(fileBuffer, contentType, originalFilename);
+    } catch (ocrError: any) {
+      const errorMsg = `[TextUtil] Failed to read image ${originalFilename} with OCR: ${ocrError.message}`;
+      logger.error(errorMsg, ocrError.stack);
+      throw new Error(errorMsg);
+    }
+  }
+
+  const { text, encoding } = await extractTextAndEncodingFromFileBuffer(
+    fileBuffer,
+    contentType,
+    originalFilename
+  );
+  return encoding ? { text, metadata: { encoding } } : { text };
+}
+
+/**
+ * Extracts text along with its structure from a text document (already decoded).
+ * HTML pages are reduced to their main content, Markdown front matter becomes metadata,
+ * Jupyter notebooks are split into their cells and subtitles into timed passages;
+ * everything else is returned as is.
+ * @param sourceUrl The URL the document was fetched from, if any
+ * @param chunkSize The fragment size in tokens that size-aware extractors keep sections within
+ */
+export function extractDocumentFromText(
+  text: string,
+  contentType: string,
+  originalFilename: string,
+  sourceUrl?: string,
+  chunkSize?: number
+): ExtractedDocument {
+  if (isHtmlFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Extracting main content from HTML page ${originalFilename}.`);
+    try {
+      return extractMainContentFromHtml(text, sourceUrl);
+    } catch (htmlError: any) {
+      const errorMsg = `[TextUtil] Failed to parse HTML page ${originalFilename}: ${htmlError.message}`;
+      logger.error(errorMsg, htmlError.stack);
+      throw new Error(errorMsg);
+    }
+  }
+
+  if (isMarkdownFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Extracting front matter from Markdown ${originalFilename}.`);
+    return extractMarkdownFromText(text, contentType, originalFilename, chunkSize);
+  }
+
+  if (isNotebookFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Extracting cells from Jupyter notebook ${originalFilename}.`);
+    try {
+      const extracted = extractNotebookFromJson(text, originalFilename);
+      logger.debug(
+        `[TextUtil] Notebook extraction complete for ${originalFilename}. Sections: ${extracted.sections?.length ?? 0}`
+      );
+      return extracted;
+    } catch (notebookError: any) {
+      const errorMsg = `[TextUtil] Failed to parse Jupyter notebook ${originalFilename}: ${notebookError.message}`;
+      logger.error(errorMsg, notebookError.stack);
+      throw new Error(errorMsg);
+    }
+  }
+
+  if (isSubtitleFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Extracting cues from subtitle file ${originalFilename}.`);
+    try {
+      const extracted = extractSubtitlesFromText(text, originalFilename, chunkSize);
+      logger.debug(
+        `[TextUtil] Subtitle extraction complete for ${originalFilename}. Sections: ${extracted.sections?.length ?? 0}`
+      );
+      return extracted;
+    } catch (subtitleError: any) {
+      const errorMsg = `[TextUtil] Failed to parse subtitle file ${originalFilename}: ${subtitleError.message}`;
+      logger.error(errorMsg, subtitleError.stack);
+      throw new Error(errorMsg);
+    }
+  }
+
+  if (isStructuredDataFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Splitting structured data file ${originalFilename} along its paths.`);
+    return extractStructuredDataFromText(text, contentType, originalFilename, chunkSize);
+  }
+
+  if (isCsvFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Grouping rows of CSV file ${originalFilename}.`);
+    return extractCsvFromText(text, contentType, originalFilename, chunkSize);
+  }
+
+  if (isSourceCodeFile(contentType, originalFilename)) {
+    logger.debug(`[TextUtil] Splitting source file ${originalFilename} along its symbols.`);
+    return extractCodeFromText(text, contentType, originalFilename, chunkSize);
+  }
+
+  return { text };
+}
+
+/**
+ * Extracts text from a legacy Word 97-2003 (.doc) buffer.
+ * The OLE/CFB container is parsed by word-extractor; headers, footers and
+ * footnotes/endnotes are appended after the body so they are searchable too.
  */
+async function extractTextFromWordDocBuffer(fileBuffer: Buffer): Promise<string> {
+  const document = await new WordExtractor().extract(fileBuffer);
+
+  const sections = [
+    document.getBody(),
+    document.getHeaders({ includeFooters: true }),
+    document.getFootnotes(),
+    document.getEndnotes(),
+  ]
+    .map((section) => section.replace(/\r\n?/g, '\n').trim())
+    .filter((section) => section.length > 0);
+
+  return sections.join('\n\n');
+}
+
 /**
- * Converts a PDF Buffer to text with enhanced formatting preservation.
+ * Converts a PDF Buffer to text, keeping its page and paragraph breaks.
+ * Use `extractPdfFromBuffer` to also get the page boundaries.
  *
  * @param {Buffer} pdfBuffer - The PDF Buffer to convert to text
  * @param {string} [filename] - Optional filename for logging purposes
@@ -126,52 +342,8 @@ export async function convertPdfToTextFromBuffer(
   pdfBuffer: Buffer,
   filename?: string
 ): Promise<string> {
-  const docName = filename || 'unnamed-document';
-  logger.debug(`[PdfService] Starting conversion for ${docName}`);
-
-  try {
-    const uint8Array = new Uint8Array(pdfBuffer);
-    const pdf: PDFDocumentProxy = await getDocument({ data: uint8Array }).promise;
-    const numPages = pdf.numPages;
-    const textPages: string[] = [];
-
-    for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-      logger.debug(`[PdfService] Processing page ${pageNum}/${numPages}`);
-      const page = await pdf.getPage(pageNum);
-      const textContent = await page.getTextContent();
-
-      // Group text items by their y-position to maintain line structure
-      const lineMap = new Map<number, TextItem[]>();
-
-      textContent.items.filter(isTextItem).forEach((item) => {
-        // Round y-position to account for small variations in the same line
-        const yPos = Math.round(item.transform[5]);
-        if (!lineMap.has(yPos)) {
-          lineMap.set(yPos, []);
-        }
-        lineMap.get(yPos)!.push(item);
-      });
-
-      // Sort lines by y-position (top to bottom) and items within lines by x-position (left to right)
-      const sortedLines = Array.from(lineMap.entries())
-        .sort((a, b) => b[0] - a[0]) // Reverse sort for top-to-bottom
-        .map(([_, items]) =>
-          items
-            .sort((a, b) => a.transform[4] - b.transform[4])
-            .map((item) => item.str)
-            .join(' ')
-        );
-
-      textPages.push(sortedLines.join('\n'));
-    }
-
-    const fullText = textPages.join('\n\n').replace(/\s+/g, ' ').trim();
-    logger.debug(`[PdfService] Conversion complete for ${docName}, length: ${fullText.length}`);
-    return fullText;
-  } catch (error: any) {
-    logger.error(`[PdfService] Error converting PDF ${docName}:`, error.message);
-    throw new Error(`Failed to convert PDF to text: ${error.message}`);
-  }
+  const extracted = await extractPdfFromBuffer(pdfBuffer, filename);
+  return extracted.text;
 }
 
 /**
@@ -205,8 +377,15 @@ export function isBinaryContentType(contentType: string, filename: string): bool
     'application/vnd.openxmlformats-officedocument',
     'application/vnd.ms-excel',
     'application/vnd.ms-powerpoint',
+    'application/vnd.oasis.opendocument',
+    'application/epub+zip',
+    'message/rfc822',
+    'application/mbox',
     'application/zip',
     'application/x-zip-compressed',
+    'application/x-tar',
+    'application/gzip',
+    'application/x-gzip',
     'application/octet-stream',
     'image/',
     'audio/',
@@ -228,7 +407,9 @@ export function isBinaryContentType(contentType: string, filename: string): bool
     'txt',
     'md',
     'markdown',
+    'mdx',
     'json',
+    'ipynb',
     'xml',
     'html',
     'htm',
@@ -272,6 +453,8 @@ export function isBinaryContentType(contentType: string, filename: string): bool
     'dockerignore',
     'editorconfig',
     'log',
+    'srt',
+    'vtt',
     'csv',
     'tsv',
     'properties',
@@ -302,13 +485,18 @@ export function isBinaryContentType(contentType: string, filename: string): bool
     'doc',
     'xls',
     'xlsx',
+    'ods',
     'ppt',
     'pptx',
+    'epub',
+    'eml',
+    'mbox',
     'zip',
     'rar',
     '7z',
     'tar',
     'gz',
+    'tgz',
     'bz2',
     'xz',
     'jpg',
@@ -341,16 +529,6 @@ export function isBinaryContentType(contentType: string, filename: string): bool
   return binaryExtensions.includes(fileExt);
 }
 
-/**
- * Check if the input is a TextItem.
- *
- * @param item - The input item to check.
- * @returns A boolean indicating if the input is a TextItem.
- */
-function isTextItem(item: TextItem | TextMarkedContent): item is TextItem {
-  return 'str' in item;
-}
-
 /**
  * Normalizes an S3 URL by removing query parameters (signature, etc.)
  * This allows for consistent URL comparison regardless of presigned URL parameters
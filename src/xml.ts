@@ -0,0 +1,78 @@
+import { DOMParser } from '@xmldom/xmldom';
+import type JSZip from 'jszip';
+import * as path from 'path';
+
+/**
+ * Parses an XML string into a DOM document
+ */
+export function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, 'text/xml');
+}
+
+/**
+ * Returns all descendant elements with the given qualified tag name (e.g. `a:t`)
+ */
+export function getElements(node: Document | Element, tagName: string): Element[] {
+  return Array.from(node.getElementsByTagName(tagName));
+}
+
+/**
+ * Returns all descendant elements with the given local name, whatever their namespace prefix
+ * (e.g. `item` matches both `<item>` and `<opf:item>`)
+ */
+export function getElementsByLocalName(node: Document | Element, localName: string): Element[] {
+  return Array.from(node.getElementsByTagNameNS('*', localName));
+}
+
+/**
+ * Returns the direct child elements with the given qualified tag name
+ */
+export function getChildElements(node: Element, tagName: string): Element[] {
+  return Array.from(node.childNodes).filter(
+    (child): child is Element => child.nodeType === 1 && (child as Element).tagName === tagName
+  );
+}
+
+/**
+ * Reads and parses an XML entry from a zip archive, or returns null when it is missing
+ */
+export async function readZipXml(zip: JSZip, entryPath: string): Promise<Document | null> {
+  const entry = zip.file(entryPath);
+  if (!entry) {
+    return null;
+  }
+  return parseXml(await entry.async('string'));
+}
+
+/**
+ * Reads an OPC relationships part (`_rels/*.rels`) for a zip entry.
+ * Returns a map of relationship id to the target path resolved against the zip root.
+ */
+export async function readZipRelationships(
+  zip: JSZip,
+  entryPath: string
+): Promise<Map<string, { target: string; type: string }>> {
+  const dir = path.posix.dirname(entryPath);
+  const relsPath = path.posix.join(dir, '_rels', `${path.posix.basename(entryPath)}.rels`);
+  const relationships = new Map<string, { target: string; type: string }>();
+
+  const rels = await readZipXml(zip, relsPath);
+  if (!rels) {
+    return relationships;
+  }
+
+  for (const rel of getElements(rels, 'Relationship')) {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (id && target && rel.getAttribute('TargetMode') !== 'External') {
+      // Targets are relative to the source part's folder unless they start at the package root
+      const resolved = target.startsWith('/') ? target.slice(1) : path.posix.join(dir, target);
+      relationships.set(id, {
+        target: path.posix.normalize(resolved),
+        type: rel.getAttribute('Type') || '',
+      });
+    }
+  }
+
+  return relationships;
+}